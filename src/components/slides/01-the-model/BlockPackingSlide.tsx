@@ -3,8 +3,22 @@
 import { useState, useMemo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { SlideContainer, SlideHeader } from '@/components/ui/SlideContainer';
+import { BlockSequence } from '@/components/visualizations/BlockSequence';
 import { transactionTypes, type TransactionType } from '@/data/transactions';
-import { resources, type Resource, type ResourceId } from '@/data/resources';
+import { resources, type Resource } from '@/data/resources';
+import {
+  findBottleneck,
+  findExceededResource,
+  getBaseBlockLimits,
+  getBlockFullness,
+  getBlockUsage,
+  runBlockSimulation,
+  DEFAULT_BLOCK_PARAMS,
+} from '@/lib/simulation/blocks';
+import { DEFAULT_CONFIG as EIP1559_CONFIG } from '@/lib/simulation/eip1559';
+
+/** Blocks simulated for the packed mix */
+const SEQUENCE_BLOCKS = 12;
 
 interface AddedTransaction {
   id: string;
@@ -17,61 +31,51 @@ export function BlockPackingSlide() {
   const [selectedTxType, setSelectedTxType] = useState<TransactionType | null>(null);
   const [blockFull, setBlockFull] = useState(false);
 
-  // Calculate resource usage from all added transactions
-  const resourceUsage = useMemo(() => {
-    const usage: Record<ResourceId, number> = {
-      'evm-compute': 0,
-      'state-access': 0,
-      'merklization': 0,
-      'block-verification': 0,
-      'block-distribution': 0,
-      'state-growth': 0,
-      'history-growth': 0,
-      'proof-generation': 0,
-    };
-
-    for (const tx of addedTransactions) {
-      for (const [resourceId, consumption] of Object.entries(tx.type.resourceConsumption)) {
-        if (resourceId in usage) {
-          usage[resourceId as ResourceId] += consumption * tx.count;
-        }
-      }
-    }
+  // Per-second capacity is the block limit for this slide
+  const limits = useMemo(() => getBaseBlockLimits(resources), []);
 
-    return usage;
-  }, [addedTransactions]);
+  // Calculate resource usage from all added transactions
+  const resourceUsage = useMemo(
+    () =>
+      getBlockUsage(
+        addedTransactions.map((tx) => ({ txType: tx.type, count: tx.count })),
+        resources
+      ),
+    [addedTransactions]
+  );
 
   // Find the bottleneck resource (highest percentage of max)
   const bottleneck = useMemo(() => {
-    let maxPercent = 0;
-    let bottleneckResource: Resource | null = null;
-
-    for (const resource of resources) {
-      const percent = (resourceUsage[resource.id] / resource.maxThroughput) * 100;
-      if (percent > maxPercent) {
-        maxPercent = percent;
-        bottleneckResource = resource;
-      }
-    }
+    const { resourceId, fullness } = findBottleneck(getBlockFullness(resourceUsage, limits));
+    return {
+      resource: resources.find((r) => r.id === resourceId) ?? null,
+      percent: fullness * 100,
+    };
+  }, [resourceUsage, limits]);
 
-    return { resource: bottleneckResource, percent: maxPercent };
-  }, [resourceUsage]);
+  // Blocks built from demand with the packed mix, priced by EIP-1559
+  const blockSequence = useMemo(() => {
+    if (addedTransactions.length === 0) return [];
+    return runBlockSimulation({
+      resources,
+      transactionMix: addedTransactions.map((tx) => ({ txType: tx.type, weight: tx.count })),
+      scalingSolutions: [],
+      duration: SEQUENCE_BLOCKS * DEFAULT_BLOCK_PARAMS.slotTime,
+      eip1559Params: EIP1559_CONFIG,
+      blockParams: DEFAULT_BLOCK_PARAMS,
+    }).blocks;
+  }, [addedTransactions]);
 
   // Check if adding a transaction would exceed any resource limit
   const wouldExceedLimit = useCallback(
     (txType: TransactionType, count: number): { exceeds: boolean; resource: Resource | null } => {
-      for (const resource of resources) {
-        const currentUsage = resourceUsage[resource.id];
-        const additionalUsage = (txType.resourceConsumption[resource.id] || 0) * count;
-        const newUsage = currentUsage + additionalUsage;
-        const newPercent = (newUsage / resource.maxThroughput) * 100;
-        if (newPercent > 100) {
-          return { exceeds: true, resource };
-        }
-      }
-      return { exceeds: false, resource: null };
+      const resourceId = findExceededResource(resourceUsage, txType, count, limits);
+      return {
+        exceeds: resourceId !== null,
+        resource: resources.find((r) => r.id === resourceId) ?? null,
+      };
     },
-    [resourceUsage]
+    [resourceUsage, limits]
   );
 
   const addTransaction = (txType: TransactionType, count: number = 1) => {
@@ -311,6 +315,16 @@ export function BlockPackingSlide() {
             </motion.div>
           )}
 
+          {/* The same mix over a sequence of blocks */}
+          {blockSequence.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-400">
+                {SEQUENCE_BLOCKS} blocks of demand with this mix:
+              </div>
+              <BlockSequence blocks={blockSequence} resources={resources} />
+            </div>
+          )}
+
           {/* Educational insight */}
           {totalTxCount === 0 && (
             <div className="interactive-panel bg-primary-500/5 border-primary-500/20 mt-6">
@@ -3,8 +3,20 @@
 import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { SlideContainer, SlideHeader, AnimatedText } from '@/components/ui/SlideContainer';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import { evaluateMarket, solveSinglePriceEquilibrium } from '@/lib/simulation/equilibrium';
 
-// Simple demand curve visualization
+const maxPrice = 120;
+
+/** Demand multiplier at the top of the demand slider */
+const DEMAND_SCALE = 2;
+
+function getBlockSpaceUsed(utilization: Record<string, number>): number {
+  return Math.max(0, ...Object.values(utilization));
+}
+
+// Demand of the default transaction types for the tightest resource
 function DemandCurveVisual({
   demandLevel,
   priceLevel,
@@ -18,20 +30,25 @@ function DemandCurveVisual({
   const chartWidth = width - padding.left - padding.right;
   const chartHeight = height - padding.top - padding.bottom;
 
-  // Generate demand curve points
+  const market = useMemo(
+    () => ({
+      resources,
+      transactionTypes: defaultTransactionTypes,
+      demandMultiplier: demandLevel * DEMAND_SCALE,
+    }),
+    [demandLevel]
+  );
+  const equilibrium = useMemo(() => solveSinglePriceEquilibrium(market), [market]);
+
+  // Block space used (the tightest resource) at each price, down to where blocks fill
   const demandCurve = useMemo(() => {
     const points: { x: number; y: number }[] = [];
-    const basePrice = 10 + demandLevel * 90; // Higher demand = higher prices
-    const steepness = 1.5 + demandLevel;
-
-    for (let q = 0; q <= 1; q += 0.02) {
-      const price = basePrice * Math.exp(-steepness * q);
-      points.push({ x: q, y: price });
+    for (let price = maxPrice; price > equilibrium.price; price -= 2) {
+      points.push({ x: getBlockSpaceUsed(evaluateMarket(market, price).utilization), y: price });
     }
+    points.push({ x: 1, y: equilibrium.price });
     return points;
-  }, [demandLevel]);
-
-  const maxPrice = 120;
+  }, [market, equilibrium]);
 
   // Convert data coordinates to SVG coordinates
   const toSvgX = (q: number) => padding.left + q * chartWidth;
@@ -42,17 +59,21 @@ function DemandCurveVisual({
     .map((pt, i) => `${i === 0 ? 'M' : 'L'} ${toSvgX(pt.x)} ${toSvgY(pt.y)}`)
     .join(' ');
 
-  // Calculate quantity at given price
-  const quantityAtPrice = useMemo(() => {
-    const basePrice = 10 + demandLevel * 90;
-    const steepness = 1.5 + demandLevel;
-    // price = basePrice * e^(-steepness * q)
-    // q = -ln(price / basePrice) / steepness
-    const actualPrice = priceLevel;
-    if (actualPrice >= basePrice) return 0;
-    const q = -Math.log(actualPrice / basePrice) / steepness;
-    return Math.max(0, Math.min(1, q));
-  }, [demandLevel, priceLevel]);
+  // Below the clearing price blocks are full and the rest of demand waits
+  const quantityAtPrice = useMemo(
+    () => Math.min(1, getBlockSpaceUsed(evaluateMarket(market, priceLevel).utilization)),
+    [market, priceLevel]
+  );
+
+  const areaPath = [
+    `M ${toSvgX(0)} ${toSvgY(demandCurve[0].y)}`,
+    ...demandCurve
+      .filter((pt) => pt.x <= quantityAtPrice)
+      .map((pt) => `L ${toSvgX(pt.x)} ${toSvgY(pt.y)}`),
+    `L ${toSvgX(quantityAtPrice)} ${toSvgY(Math.max(priceLevel, equilibrium.price))}`,
+    `L ${toSvgX(quantityAtPrice)} ${toSvgY(0)}`,
+    `L ${toSvgX(0)} ${toSvgY(0)} Z`,
+  ].join(' ');
 
   return (
     <svg width={width} height={height} className="w-full h-auto">
@@ -111,7 +132,7 @@ function DemandCurveVisual({
 
       {/* Area under curve up to quantity */}
       <motion.path
-        d={`${demandPath.split(' ').slice(0, Math.floor(quantityAtPrice * 50) * 3 + 3).join(' ')} L ${toSvgX(quantityAtPrice)} ${toSvgY(0)} L ${toSvgX(0)} ${toSvgY(0)} Z`}
+        d={areaPath}
         fill="rgba(245, 158, 11, 0.15)"
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
@@ -189,10 +210,21 @@ function DemandCurveVisual({
       <text x={toSvgX(1)} y={padding.top + chartHeight + 15} fill="rgba(255,255,255,0.5)" fontSize={10} textAnchor="middle">100%</text>
 
       {/* Demand curve label */}
-      <text x={toSvgX(0.15)} y={toSvgY(demandCurve[7]?.y || 50) - 10} fill="#f59e0b" fontSize={11} fontWeight="bold">
+      <text x={toSvgX(demandCurve[0].x) + 8} y={toSvgY(maxPrice) + 12} fill="#f59e0b" fontSize={11} fontWeight="bold">
         Demand
       </text>
 
+      {/* Market clearing price */}
+      <circle
+        cx={toSvgX(1)}
+        cy={toSvgY(equilibrium.price)}
+        r={4}
+        fill="#f59e0b"
+      />
+      <text x={toSvgX(1) - 6} y={toSvgY(equilibrium.price) - 8} fill="#f59e0b" fontSize={10} textAnchor="end">
+        Clears at {equilibrium.price.toFixed(0)} gwei
+      </text>
+
       {/* Current price label */}
       <text x={padding.left + 5} y={toSvgY(priceLevel) - 5} fill="#ef4444" fontSize={10} fontWeight="bold">
         Price: {priceLevel} gwei
@@ -12,6 +12,29 @@ import {
   type SimulationState,
   DEFAULT_CONFIG,
 } from '@/lib/simulation/eip1559';
+import { baseFeeRules, eip1559Rule, getBaseFeeRule } from '@/lib/simulation/fee-rules';
+import { compareBaseFeeRules } from '@/lib/simulation/fee-rule-comparison';
+import type { EngineConfig } from '@/lib/simulation/engine';
+import { createRandom, deriveSeed, DEFAULT_SEED } from '@/lib/simulation/random';
+import { oscillating } from '@/lib/simulation/scenarios';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+
+/** Every rule prices the same oscillating demand for the comparison table */
+const comparisonConfig: EngineConfig = {
+  resources,
+  transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+  scalingSolutions: [],
+  feeMarketModel: 'eip1559',
+  duration: oscillating.duration,
+  timestep: 1,
+  scenario: oscillating,
+  eip1559Params: {
+    targetUtilization: DEFAULT_CONFIG.targetUtilization,
+    maxChangeRate: DEFAULT_CONFIG.maxChangeRate,
+    minBaseFee: DEFAULT_CONFIG.minBaseFee,
+  },
+};
 
 // Supply/Demand chart component
 function SupplyDemandChart({
@@ -291,6 +314,11 @@ export function EIP1559ExplainedSlide() {
   const [state, setState] = useState<SimulationState>(() => createInitialState());
   const [isRunning, setIsRunning] = useState(false);
   const [demandLevel, setDemandLevel] = useState(0.5);
+  const [ruleId, setRuleId] = useState(eip1559Rule.id);
+  const rule = getBaseFeeRule(ruleId) ?? eip1559Rule;
+
+  // How each rule converges and oscillates under the same scenario
+  const ruleComparison = useMemo(() => compareBaseFeeRules(comparisonConfig), []);
 
   // Get recent blocks for display (last 20)
   const displayBlocks = state.blocks.slice(-20);
@@ -309,13 +337,15 @@ export function EIP1559ExplainedSlide() {
         DEFAULT_CONFIG.initialBaseFee
       );
 
-      // Add noise to simulate real-world variability
-      const utilization = generateUtilization(baseDemand, 0.1);
+      // Add noise to simulate real-world variability, seeded per block so a
+      // reset replays the same sequence
+      const draw = createRandom(deriveSeed(DEFAULT_SEED, currentState.blockNumber))();
+      const utilization = generateUtilization(baseDemand, 0.1, draw);
 
       // Process the block
-      return processBlock(currentState, utilization);
+      return processBlock(currentState, utilization, { rule });
     });
-  }, [demandLevel]);
+  }, [demandLevel, rule]);
 
   useEffect(() => {
     if (!isRunning) return;
@@ -402,6 +432,26 @@ export function EIP1559ExplainedSlide() {
                 Adjust to simulate different network conditions
               </p>
             </div>
+
+            <div className="interactive-panel">
+              <div className="text-sm text-gray-400 mb-3">Update Rule</div>
+              <div className="grid grid-cols-2 gap-2">
+                {baseFeeRules.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setRuleId(option.id)}
+                    className={`px-3 py-1.5 rounded text-xs font-medium text-left ${
+                      option.id === rule.id
+                        ? 'bg-primary-500/20 text-primary-400'
+                        : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                    }`}
+                  >
+                    {option.name}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">{rule.description}</p>
+            </div>
           </div>
         </AnimatedText>
 
@@ -503,6 +553,39 @@ export function EIP1559ExplainedSlide() {
         </AnimatedText>
       </div>
 
+      <AnimatedText delay={0.5} className="mt-8">
+        <div className="interactive-panel">
+          <h3 className="text-lg font-semibold text-white mb-1">Rules Under Oscillating Demand</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            {oscillating.duration}s of demand swinging between 0.5× and 3× normal, priced by each rule
+          </p>
+          <div className="grid grid-cols-5 gap-2 text-xs">
+            <div className="text-gray-500">Rule</div>
+            <div className="text-gray-500 text-right">Reaches target</div>
+            <div className="text-gray-500 text-right">Target crossings</div>
+            <div className="text-gray-500 text-right">Avg miss</div>
+            <div className="text-gray-500 text-right">Fee volatility</div>
+            {ruleComparison.map((run) => (
+              <div key={run.ruleId} className="contents">
+                <div className={run.ruleId === rule.id ? 'text-primary-400' : 'text-white'}>
+                  {getBaseFeeRule(run.ruleId)?.name}
+                </div>
+                <div className="text-right font-mono text-gray-300">
+                  {run.convergenceTime === null ? 'never' : `${run.convergenceTime}s`}
+                </div>
+                <div className="text-right font-mono text-gray-300">{run.targetCrossings}</div>
+                <div className="text-right font-mono text-gray-300">
+                  {(run.trackingError * 100).toFixed(1)}%
+                </div>
+                <div className="text-right font-mono text-gray-300">
+                  {(run.feeVolatility * 100).toFixed(0)}%
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </AnimatedText>
+
       <AnimatedText delay={0.6} className="mt-8">
         <div className="interactive-panel bg-yellow-500/5 border-yellow-500/20">
           <div className="flex items-start gap-4">
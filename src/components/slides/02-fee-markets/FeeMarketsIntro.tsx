@@ -24,6 +24,7 @@ export function FeeMarketsIntroSlide() {
       'merklization': 0,
       'block-verification': 0,
       'block-distribution': 0,
+      'blob-data': 0,
       'state-growth': 0,
       'history-growth': 0,
       'proof-generation': 0,
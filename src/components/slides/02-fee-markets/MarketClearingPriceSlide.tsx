@@ -1,9 +1,33 @@
 'use client';
 
+import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { SlideContainer, SlideHeader, AnimatedText } from '@/components/ui/SlideContainer';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import {
+  evaluateMarket,
+  solveSinglePriceEquilibrium,
+  type MarketOutcome,
+} from '@/lib/simulation/equilibrium';
+
+const market = { resources, transactionTypes: defaultTransactionTypes };
+
+function getBlockSpaceUsed(outcome: MarketOutcome): number {
+  return Math.min(1, Math.max(0, ...Object.values(outcome.utilization)));
+}
 
 export function MarketClearingPriceSlide() {
+  const { equilibrium, tooLow, tooHigh } = useMemo(() => {
+    const equilibrium = solveSinglePriceEquilibrium(market);
+    return {
+      equilibrium,
+      tooLow: { price: equilibrium.price / 2, ...evaluateMarket(market, equilibrium.price / 2) },
+      tooHigh: { price: equilibrium.price * 2, ...evaluateMarket(market, equilibrium.price * 2) },
+    };
+  }, []);
+  const tooHighUsed = getBlockSpaceUsed(tooHigh);
+
   return (
     <SlideContainer id="market-clearing-price" variant="default">
       <SlideHeader
@@ -40,16 +64,22 @@ export function MarketClearingPriceSlide() {
 
           <AnimatedText delay={0.2}>
             <div className="interactive-panel bg-red-500/5 border-red-500/20">
-              <h3 className="text-lg font-semibold text-red-400 mb-3">Price Too Low</h3>
+              <h3 className="text-lg font-semibold text-red-400 mb-3">
+                Price Too Low ({tooLow.price.toFixed(0)} gwei)
+              </h3>
               <div className="flex items-center gap-4">
                 <div className="flex-1">
                   <div className="h-3 bg-gray-800 rounded-full overflow-hidden mb-2">
                     <div className="h-full bg-red-500 rounded-full" style={{ width: '100%' }} />
                   </div>
-                  <div className="text-xs text-gray-500">Utilization: 100%</div>
+                  <div className="text-xs text-gray-500">
+                    Utilization: {(getBlockSpaceUsed(tooLow) * 100).toFixed(0)}%
+                  </div>
                 </div>
                 <div className="text-center px-4 py-2 bg-orange-500/20 rounded-lg">
-                  <div className="text-2xl font-bold text-orange-400">+50</div>
+                  <div className="text-2xl font-bold text-orange-400">
+                    +{tooLow.excessDemand.toFixed(0)}
+                  </div>
                   <div className="text-xs text-gray-500">Backpressure</div>
                 </div>
               </div>
@@ -61,16 +91,25 @@ export function MarketClearingPriceSlide() {
 
           <AnimatedText delay={0.3}>
             <div className="interactive-panel bg-yellow-500/5 border-yellow-500/20">
-              <h3 className="text-lg font-semibold text-yellow-400 mb-3">Price Too High</h3>
+              <h3 className="text-lg font-semibold text-yellow-400 mb-3">
+                Price Too High ({tooHigh.price.toFixed(0)} gwei)
+              </h3>
               <div className="flex items-center gap-4">
                 <div className="flex-1">
                   <div className="h-3 bg-gray-800 rounded-full overflow-hidden mb-2">
-                    <div className="h-full bg-yellow-500 rounded-full" style={{ width: '40%' }} />
+                    <div
+                      className="h-full bg-yellow-500 rounded-full"
+                      style={{ width: `${tooHighUsed * 100}%` }}
+                    />
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Utilization: {(tooHighUsed * 100).toFixed(0)}%
                   </div>
-                  <div className="text-xs text-gray-500">Utilization: 40%</div>
                 </div>
                 <div className="text-center px-4 py-2 bg-gray-500/20 rounded-lg">
-                  <div className="text-2xl font-bold text-gray-400">0</div>
+                  <div className="text-2xl font-bold text-gray-400">
+                    {tooHigh.excessDemand.toFixed(0)}
+                  </div>
                   <div className="text-xs text-gray-500">Backpressure</div>
                 </div>
               </div>
@@ -85,7 +124,9 @@ export function MarketClearingPriceSlide() {
         <div className="space-y-6">
           <AnimatedText delay={0.4}>
             <div className="interactive-panel bg-green-500/10 border-green-500/30">
-              <h3 className="text-lg font-semibold text-green-400 mb-3">Market Clearing Price</h3>
+              <h3 className="text-lg font-semibold text-green-400 mb-3">
+                Market Clearing Price ({equilibrium.price.toFixed(0)} gwei)
+              </h3>
               <div className="flex items-center gap-4">
                 <div className="flex-1">
                   <div className="h-4 bg-gray-800 rounded-full overflow-hidden mb-2">
@@ -107,6 +148,24 @@ export function MarketClearingPriceSlide() {
                 Perfect equilibrium: every transaction that wants to pay the fee gets included,
                 and no block space goes unused.
               </p>
+              <div className="grid grid-cols-3 gap-3 mt-4 text-center text-xs">
+                <div>
+                  <div className="text-lg font-semibold text-white">{equilibrium.tps.toFixed(1)}</div>
+                  <div className="text-gray-500">TPS included</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold text-white">
+                    {(equilibrium.revenue / 1e9).toFixed(3)}
+                  </div>
+                  <div className="text-gray-500">Fees (ETH/sec)</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold text-white">
+                    {(equilibrium.consumerSurplus / 1e9).toFixed(3)}
+                  </div>
+                  <div className="text-gray-500">User surplus (ETH/sec)</div>
+                </div>
+              </div>
             </div>
           </AnimatedText>
 
@@ -1,8 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { SlideContainer, SlideHeader, AnimatedText } from '@/components/ui/SlideContainer';
+import { resources, resourcesById, type ResourceId } from '@/data/resources';
+import { transactionTypes, transactionTypesById } from '@/data/transactions';
+import { gasSchedulesById } from '@/data/gas-schedules';
+import { compareGasSchedules } from '@/lib/simulation/repricing';
+import { compareDataPosting, simulateBlobMarket, DEFAULT_BLOB_CONFIG } from '@/lib/simulation/blobs';
 
 // Fee market improvement technologies
 interface FeeImprovement {
@@ -12,6 +17,10 @@ interface FeeImprovement {
   details: string;
   examples: string[];
   impact: string;
+  /** Gas schedule that makes this improvement a runnable what-if */
+  scheduleId?: string;
+  /** Show the blob market what-if */
+  blobMarket?: boolean;
 }
 
 const feeImprovements: FeeImprovement[] = [
@@ -22,6 +31,7 @@ const feeImprovements: FeeImprovement[] = [
     details: 'Storage operations have historically been mispriced relative to their true cost. Repricing aligns gas costs with actual resource usage, preventing underpriced operations from creating bottlenecks.',
     examples: ['EIP-8032'],
     impact: 'Makes storage-heavy transactions pay their fair share',
+    scheduleId: 'storage-repricing',
   },
   {
     id: 'precompile-repricing',
@@ -30,6 +40,7 @@ const feeImprovements: FeeImprovement[] = [
     details: 'Precompile gas costs were set years ago. Hardware improvements mean some precompiles are now overpriced while others may be underpriced relative to their actual execution cost.',
     examples: ['Various EIPs adjusting ecrecover, sha256, etc.'],
     impact: 'More accurate pricing for cryptographic operations',
+    scheduleId: 'precompile-repricing',
   },
   {
     id: 'temporal-repricing',
@@ -38,6 +49,7 @@ const feeImprovements: FeeImprovement[] = [
     details: 'Recently accessed state is "hot" (cached), while cold state requires disk reads. Pricing should reflect this difference to incentivize efficient access patterns.',
     examples: ['EIP-2929 (cold/warm access)', 'Further temporal pricing research'],
     impact: 'Rewards efficient state access patterns',
+    scheduleId: 'temporal-repricing',
   },
   {
     id: 'block-warming',
@@ -54,12 +66,56 @@ const feeImprovements: FeeImprovement[] = [
     details: 'Instead of one unified gas price, have separate dynamically-adjusting prices for compute, storage/IO, and other resources. This prevents one resource bottleneck from affecting all transaction types.',
     examples: ['EIP-4844 blob gas (first step)', 'Research on full multi-dimensional fees'],
     impact: 'Efficient pricing when resources have different scarcity',
+    blobMarket: true,
   },
 ];
 
+function formatGas(gas: number): string {
+  return Math.round(gas).toLocaleString();
+}
+
+function formatChange(ratio: number): string {
+  const percent = (ratio - 1) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+function resourceName(id: ResourceId | null): string {
+  return id ? resourcesById[id].name : 'None';
+}
+
+function formatEth(gwei: number): string {
+  return `${(gwei / 1e9).toFixed(4)} ETH`;
+}
+
+/** Blocks of sustained rollup demand above the blob target */
+const BLOB_SURGE_BLOCKS = 1000;
+
+/** Batches per block in the surge, two above the blob target */
+const BLOB_SURGE_DEMAND = DEFAULT_BLOB_CONFIG.targetBlobsPerBlock + 2;
+
 export function MultidimensionalFeesSlide() {
   const [selectedImprovement, setSelectedImprovement] = useState<FeeImprovement | null>(null);
 
+  // Reprice the whole mainnet mix under the selected schedule
+  const whatIf = useMemo(() => {
+    const schedule = selectedImprovement?.scheduleId
+      ? gasSchedulesById[selectedImprovement.scheduleId]
+      : undefined;
+    if (!schedule) return null;
+    const { baseline, schedules } = compareGasSchedules({ resources, transactionTypes }, [schedule]);
+    return { baseline, repriced: schedules[0] };
+  }, [selectedImprovement]);
+
+  // Capacity freed by posting rollup data as blobs, and batch costs in a blob surge
+  const blobWhatIf = useMemo(() => {
+    if (!selectedImprovement?.blobMarket) return null;
+    const surge = simulateBlobMarket({
+      rollup: transactionTypesById['rollup-batch'],
+      demand: Array(BLOB_SURGE_BLOCKS).fill(BLOB_SURGE_DEMAND),
+    });
+    return { posting: compareDataPosting({ resources, transactionTypes }), surge };
+  }, [selectedImprovement]);
+
   return (
     <SlideContainer id="multidimensional-fees" variant="default">
       <SlideHeader
@@ -167,6 +223,95 @@ export function MultidimensionalFeesSlide() {
                     </div>
                   </div>
                 </div>
+
+                {whatIf && (
+                  <div className="mt-6 pt-4 border-t border-white/10">
+                    <h4 className="text-sm font-medium text-gray-400 mb-3">What If: Mainnet Mix</h4>
+                    <div className="grid grid-cols-3 gap-3 mb-4">
+                      <div className="p-3 rounded-lg bg-white/5">
+                        <div className="text-xs text-gray-500">Avg gas per tx</div>
+                        <div className="text-sm text-white font-mono">
+                          {formatGas(whatIf.baseline.averageGas)} → {formatGas(whatIf.repriced.averageGas)}
+                        </div>
+                        <div className={`text-xs ${whatIf.repriced.gasRatio > 1 ? 'text-red-400' : 'text-green-400'}`}>
+                          {formatChange(whatIf.repriced.gasRatio)}
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-lg bg-white/5">
+                        <div className="text-xs text-gray-500">Bottleneck</div>
+                        <div className="text-sm text-white">
+                          {resourceName(whatIf.baseline.bottleneck)}
+                          {whatIf.repriced.bottleneckChanged && (
+                            <> → <span className="text-yellow-400">{resourceName(whatIf.repriced.bottleneck)}</span></>
+                          )}
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-lg bg-white/5">
+                        <div className="text-xs text-gray-500">Max TPS</div>
+                        <div className="text-sm text-white font-mono">
+                          {whatIf.baseline.tps.toFixed(1)} → {whatIf.repriced.tps.toFixed(1)}
+                        </div>
+                        <div className="text-xs text-gray-400">{formatChange(whatIf.repriced.tpsRatio)}</div>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      {transactionTypes.map((txType) => {
+                        const before = whatIf.baseline.gasByType[txType.id];
+                        const after = whatIf.repriced.gasByType[txType.id];
+                        return (
+                          <div key={txType.id} className="flex items-center justify-between text-xs">
+                            <span className="text-gray-400">{txType.name}</span>
+                            <span className="font-mono text-gray-300">
+                              {formatGas(before)} → {formatGas(after)}{' '}
+                              <span className={after > before ? 'text-red-400' : after < before ? 'text-green-400' : 'text-gray-500'}>
+                                ({formatChange(after / before)})
+                              </span>
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {blobWhatIf && (
+                  <div className="mt-6 pt-4 border-t border-white/10">
+                    <h4 className="text-sm font-medium text-gray-400 mb-3">What If: Rollups Post Blobs</h4>
+                    <div className="grid grid-cols-3 gap-3 mb-4">
+                      <div className="p-3 rounded-lg bg-white/5">
+                        <div className="text-xs text-gray-500">Gas limit freed</div>
+                        <div className="text-sm text-white font-mono">
+                          {(blobWhatIf.posting.gasFreedShare * 100).toFixed(1)}%
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          {formatGas(blobWhatIf.posting.gasFreedByType['rollup-batch'])} gas per batch
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-lg bg-white/5">
+                        <div className="text-xs text-gray-500">History growth capacity</div>
+                        <div className="text-sm text-white font-mono">
+                          {blobWhatIf.posting.calldata.tpsByResource['history-growth'].toFixed(0)} →{' '}
+                          {blobWhatIf.posting.blobs.tpsByResource['history-growth'].toFixed(0)} TPS
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-lg bg-white/5">
+                        <div className="text-xs text-gray-500">Batch cost</div>
+                        <div className="text-sm text-white font-mono">
+                          {formatEth(blobWhatIf.surge.calldataCostPerBatch)} →{' '}
+                          {formatEth(blobWhatIf.surge.blobFloorCostPerBatch)}
+                        </div>
+                        <div className="text-xs text-gray-400">calldata → blobs at the floor</div>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                      With {BLOB_SURGE_DEMAND} batches per block against a target of{' '}
+                      {DEFAULT_BLOB_CONFIG.targetBlobsPerBlock}, the blob fee compounds every block until
+                      blobs cost as much as calldata: over {BLOB_SURGE_BLOCKS} blocks the average batch
+                      costs <span className="text-yellow-400 font-mono">{formatEth(blobWhatIf.surge.averageCostPerBatch)}</span>{' '}
+                      and {((1 - blobWhatIf.surge.blobShare) * 100).toFixed(0)}% of batches fall back to calldata.
+                    </p>
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
@@ -6,11 +6,14 @@ import { SlideContainer, SlideHeader } from '@/components/ui/SlideContainer';
 import {
   scalingSolutions,
   solutionsByCategory,
+  solutionsById,
   categoryNames,
   type ScalingSolution,
   type ScalingSolutionCategory,
 } from '@/data/scaling-solutions';
 import { resources, type ResourceId } from '@/data/resources';
+import { defaultTransactionTypes, transactionTypesById } from '@/data/transactions';
+import { getMixTransactionMultiplier, resolveSolutions } from '@/lib/simulation/composition';
 
 // Parallel Execution Demo types and presets
 interface DemoTransaction {
@@ -54,6 +57,28 @@ const DEMO_PRESETS = {
 
 type PresetKey = keyof typeof DEMO_PRESETS;
 
+/**
+ * True when a solution only helps this resource through specific workloads
+ */
+function isTargetedImpact(solution: ScalingSolution, resourceId: ResourceId): boolean {
+  return (
+    !solution.multipliers[resourceId] &&
+    Boolean(solution.transactionEffects?.some((effect) => effect.multipliers[resourceId]))
+  );
+}
+
+/**
+ * The solution together with the solutions it requires, so it takes effect
+ */
+function withPrerequisites(solution: ScalingSolution): ScalingSolution[] {
+  const required = (solution.requires ?? []).map((id) => solutionsById[id]).filter(Boolean);
+  return [...required, solution];
+}
+
+function getSolutionName(id: string): string {
+  return solutionsById[id]?.name ?? id;
+}
+
 // Ordered resources for the matrix display
 const orderedResources: ResourceId[] = [
   'evm-compute',
@@ -61,6 +86,7 @@ const orderedResources: ResourceId[] = [
   'merklization',
   'block-verification',
   'block-distribution',
+  'blob-data',
   'state-growth',
   'history-growth',
   'proof-generation',
@@ -185,17 +211,27 @@ export function ScalingMatrixSlide() {
                             LIVE
                           </span>
                         )}
+                        {solution.requires && solution.requires.length > 0 && (
+                          <span
+                            className="text-[10px] px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-400"
+                            title={`No effect without ${solution.requires.map(getSolutionName).join(', ')}`}
+                          >
+                            REQUIRES
+                          </span>
+                        )}
                       </div>
                     </td>
                     {orderedResources.map((resourceId) => {
                       const impact = solution.resourceImpacts[resourceId];
                       const resource = resources.find((r) => r.id === resourceId);
+                      const targeted = isTargetedImpact(solution, resourceId);
                       return (
                         <td
                           key={resourceId}
                           className="py-3 px-1 text-center"
                           onMouseEnter={() => setHoveredResource(resourceId)}
                           onMouseLeave={() => setHoveredResource(null)}
+                          title={targeted ? 'Only for specific transaction types' : undefined}
                         >
                           {impact ? (
                             <motion.span
@@ -207,6 +243,7 @@ export function ScalingMatrixSlide() {
                               whileHover={{ scale: 1.2 }}
                             >
                               {impact}
+                              {targeted && <sup className="text-gray-400">*</sup>}
                             </motion.span>
                           ) : (
                             <span className="text-gray-700">-</span>
@@ -234,6 +271,9 @@ export function ScalingMatrixSlide() {
         <span>
           <span className="text-primary-400 font-bold">+++</span> Major
         </span>
+        <span>
+          <span className="text-gray-400 font-bold">*</span> Specific workloads only
+        </span>
       </div>
 
       {/* Hint when no selection */}
@@ -284,6 +324,24 @@ export function ScalingMatrixSlide() {
                     <div className="text-xs text-gray-500 mb-2 uppercase tracking-wider">Details</div>
                     <p className="text-sm text-gray-300">{selectedSolution.details}</p>
 
+                    {/* Enabled on its own, the solution is inactive: say why */}
+                    {resolveSolutions([selectedSolution]).issues.map((issue) => (
+                      <div
+                        key={issue.reason}
+                        className="mt-4 text-xs p-2 rounded bg-yellow-500/10 border border-yellow-500/30 text-yellow-300"
+                      >
+                        Inactive unless {issue.relatedIds.map(getSolutionName).join(' and ')}{' '}
+                        {issue.relatedIds.length > 1 ? 'are' : 'is'} also enabled; on its own it
+                        changes no resource.
+                      </div>
+                    ))}
+                    {selectedSolution.excludes && selectedSolution.excludes.length > 0 && (
+                      <div className="mt-4 text-xs p-2 rounded bg-red-500/10 border border-red-500/30 text-red-300">
+                        Conflicts with {selectedSolution.excludes.map(getSolutionName).join(' and ')}:
+                        whichever is enabled first takes effect.
+                      </div>
+                    )}
+
                     {selectedSolution.examples && selectedSolution.examples.length > 0 && (
                       <div className="mt-4">
                         <div className="text-xs text-gray-500 mb-2 uppercase tracking-wider">Examples</div>
@@ -319,6 +377,43 @@ export function ScalingMatrixSlide() {
                         })}
                       </div>
                     </div>
+
+                    {/* Targeted Workloads */}
+                    {selectedSolution.transactionEffects && selectedSolution.transactionEffects.length > 0 && (
+                      <div className="mt-4">
+                        <div className="text-xs text-gray-500 mb-2 uppercase tracking-wider">Targeted Workloads</div>
+                        <div className="space-y-2">
+                          {selectedSolution.transactionEffects.map((effect, i) => (
+                            <div key={i} className="text-xs text-gray-300">
+                              <div className="flex flex-wrap gap-1 mb-1">
+                                {[
+                                  ...(effect.typeIds ?? []).map((id) => transactionTypesById[id]?.name ?? id),
+                                  ...(effect.categories ?? []).map((category) => `all ${category}`),
+                                ].map((label) => (
+                                  <span key={label} className="px-2 py-0.5 rounded bg-gray-800">
+                                    {label}
+                                  </span>
+                                ))}
+                              </div>
+                              {Object.entries(effect.multipliers).map(([resourceId, multiplier]) => {
+                                const resource = resources.find((r) => r.id === resourceId);
+                                const mixMultiplier = getMixTransactionMultiplier(
+                                  defaultTransactionTypes,
+                                  resourceId as ResourceId,
+                                  withPrerequisites(selectedSolution)
+                                );
+                                return (
+                                  <div key={resourceId} className="text-gray-400">
+                                    {resource?.icon} {resource?.name.split(' ')[0]}: {multiplier}x per transaction,{' '}
+                                    <span className="text-gray-300">{mixMultiplier.toFixed(2)}x on the mainnet mix</span>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   <div>
@@ -7,13 +7,18 @@ import {
   createInitialState,
   simulateStep,
   calculateSimulationStats,
+  toEngineConfig,
   type SimulationConfig,
   type SimulationState,
   type TransactionMixEntry,
   type SimulationStats,
 } from '@/lib/simulation/core';
 import { scenarios, defaultScenario } from '@/lib/simulation/scenarios';
+import { DEFAULT_SENSITIVITY_PARAMETERS, runTornado } from '@/lib/simulation/sensitivity';
+import { TornadoChart } from '@/components/visualizations/SensitivityChart';
 import { defaultTransactionTypes } from '@/data/transactions';
+import { resources, resourcesById } from '@/data/resources';
+import type { ResourceId } from '@/data/resources/types';
 
 interface SimulationRun {
   state: SimulationState | null;
@@ -73,6 +78,7 @@ export function SimulationSlide() {
     transactionMix,
     scenario,
     simulationSpeed: 1,
+    resources,
   }), [gasPerSecond, compareMode, leftMultiplier, techMultiplier, transactionMix, scenario]);
 
   const rightConfig: SimulationConfig = useMemo(() => ({
@@ -81,6 +87,7 @@ export function SimulationSlide() {
     transactionMix,
     scenario,
     simulationSpeed: 1,
+    resources,
   }), [gasPerSecond, rightMultiplier, transactionMix, scenario]);
 
   // Initialize/reset
@@ -334,6 +341,7 @@ export function SimulationSlide() {
           leftMultiplier={compareMode ? leftMultiplier : techMultiplier}
           rightMultiplier={rightMultiplier}
           gasPerSecond={gasPerSecond}
+          sensitivityConfig={leftConfig}
           onClose={() => setShowResults(false)}
           onRunAgain={() => {
             setShowResults(false);
@@ -406,6 +414,9 @@ function SimulationPanel({
         <MiniMetric label="Pending" value={state?.pendingTxs.toFixed(0) || '0'} />
       </div>
 
+      {/* Per-resource utilization */}
+      <ResourceUtilizationRow state={state} />
+
       {/* TPS Chart */}
       <div className="h-20 flex items-end gap-0.5 mb-2">
         {history.slice(-50).map((s, i) => {
@@ -438,6 +449,43 @@ function SimulationPanel({
   );
 }
 
+function ResourceUtilizationRow({ state }: { state: SimulationState | null }) {
+  const bottleneck = state && state.tps > 0
+    ? resourcesById[state.bottleneckResource as ResourceId]
+    : undefined;
+
+  return (
+    <div className="mb-4">
+      <div className="flex gap-1 h-2 mb-1">
+        {resources.map(resource => {
+          const utilization = state?.resourceUtilization[resource.id] ?? 0;
+          return (
+            <div
+              key={resource.id}
+              className="flex-1 bg-white/5 rounded-sm overflow-hidden"
+              title={`${resource.name}: ${(utilization * 100).toFixed(0)}%`}
+            >
+              <div
+                className="h-full transition-all"
+                style={{
+                  width: `${utilization * 100}%`,
+                  backgroundColor: resource.color,
+                }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="text-xs text-gray-500">
+        Bottleneck:{' '}
+        <span className="text-white">
+          {bottleneck ? `${bottleneck.icon} ${bottleneck.name}` : '—'}
+        </span>
+      </div>
+    </div>
+  );
+}
+
 function MiniMetric({ label, value }: { label: string; value: string }) {
   return (
     <div className="text-center">
@@ -457,6 +505,7 @@ function ComparisonResultsModal({
   leftMultiplier,
   rightMultiplier,
   gasPerSecond,
+  sensitivityConfig,
   onClose,
   onRunAgain,
 }: {
@@ -469,9 +518,22 @@ function ComparisonResultsModal({
   leftMultiplier: number;
   rightMultiplier: number;
   gasPerSecond: number;
+  /** Config whose inputs the sensitivity panel varies */
+  sensitivityConfig: SimulationConfig;
   onClose: () => void;
   onRunAgain: () => void;
 }) {
+  // One-at-a-time ±25% runs of Simulation A's inputs
+  const tornado = useMemo(
+    () =>
+      runTornado(
+        toEngineConfig(sensitivityConfig, 1),
+        DEFAULT_SENSITIVITY_PARAMETERS.map((parameter) => ({ parameter })),
+        'averageTPS'
+      ),
+    [sensitivityConfig]
+  );
+
   // Downsample history for charts - limit to 60 points for visibility
   const targetPoints = 60;
   const sampleRate = Math.max(1, Math.floor(leftHistory.length / targetPoints));
@@ -594,6 +656,14 @@ function ComparisonResultsModal({
           </div>
         )}
 
+        {/* Sensitivity */}
+        <div className="mb-6">
+          <div className="text-sm text-gray-400 mb-2">
+            What moves average TPS? (Simulation A, each input ±25%)
+          </div>
+          <TornadoChart result={tornado} metricLabel="Average TPS" />
+        </div>
+
         {/* Key Insights */}
         {compareMode && (
           <div className="bg-primary-500/10 border border-primary-500/20 rounded-lg p-4 mb-6">
@@ -23,7 +23,7 @@ export function ProjectsSlide() {
               <div>
                 <h3 className="text-xl font-semibold text-white mb-2">Shared Mental Model</h3>
                 <p className="text-gray-400 leading-relaxed">
-                  Now that we understand the <span className="text-white font-medium">8 resources</span>,{' '}
+                  Now that we understand the <span className="text-white font-medium">9 resources</span>,{' '}
                   <span className="text-white font-medium">scaling tradeoffs</span>, and{' '}
                   <span className="text-white font-medium">fee market dynamics</span>, we can{' '}
                   <span className="text-primary-400 font-medium">prioritize and divide & conquer</span>!
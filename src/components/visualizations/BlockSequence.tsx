@@ -0,0 +1,65 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import type { Resource } from '@/data/resources/types';
+import type { SimulatedBlock } from '@/lib/simulation/blocks';
+
+interface BlockSequenceProps {
+  blocks: SimulatedBlock[];
+  resources: Resource[];
+  /** Show only the most recent blocks */
+  maxBlocks?: number;
+}
+
+/**
+ * A row of simulated blocks, each showing how full every resource is.
+ * Uses the same bars and bottleneck marking as the block packing slide.
+ */
+export function BlockSequence({ blocks, resources, maxBlocks = 12 }: BlockSequenceProps) {
+  const visible = blocks.slice(-maxBlocks);
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      {visible.map((block) => (
+        <motion.div
+          key={block.number}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="interactive-panel p-2 min-w-[96px] space-y-1"
+        >
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">#{block.number}</span>
+            <span className="text-gray-500">{block.baseFee.toFixed(1)} gwei</span>
+          </div>
+
+          {resources.map((resource) => {
+            const percent = Math.min((block.fullness[resource.id] || 0) * 100, 100);
+            const isBottleneck = block.bottleneckResource === resource.id && percent > 0;
+
+            return (
+              <div
+                key={resource.id}
+                className={`h-2 bg-gray-800 rounded-full overflow-hidden ${
+                  isBottleneck ? 'ring-1 ring-red-400' : ''
+                }`}
+                title={`${resource.name}: ${percent.toFixed(0)}%`}
+              >
+                <div
+                  className="h-full rounded-full"
+                  style={{
+                    backgroundColor: percent >= 100 ? '#EF4444' : resource.color,
+                    width: `${percent}%`,
+                  }}
+                />
+              </div>
+            );
+          })}
+
+          <div className="text-xs text-gray-500 text-center">
+            {block.transactionCount} txs
+          </div>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
@@ -10,6 +10,12 @@ import { curveMonotoneX } from 'd3-shape';
 import { ParentSize } from '@visx/responsive';
 import type { TransactionType, DemandPoint } from '@/data/transactions/types';
 import { generateDemandCurve } from '@/data/transactions/types';
+import {
+  getDemandAtPrice,
+  getDemandCurve,
+  getRelativeDemand,
+  MIN_DEMAND_PRICE,
+} from '@/data/transactions/demand';
 
 interface DemandCurveChartProps {
   transactionType: TransactionType;
@@ -46,12 +52,12 @@ function DemandCurveChartInner({
   // Calculate fixed X-axis max based on transaction type properties
   // This keeps the axis stable during volatility animations
   const maxPossibleDemand = useMemo(() => {
-    // Calculate max demand at lowest price (10 gwei) with max volatility
-    const minPrice = 10;
-    const referencePrice = 50;
+    // Calculate max demand at the lowest price with max volatility
     const maxVolatilityFactor = 1 + transactionType.demandVolatility;
-    const elasticityPower = 0.5 + transactionType.priceElasticity * 1.5;
-    const maxDemand = transactionType.baseDemand * maxVolatilityFactor * Math.pow(referencePrice / minPrice, elasticityPower);
+    const maxDemand =
+      transactionType.baseDemand *
+      maxVolatilityFactor *
+      getRelativeDemand(getDemandCurve(transactionType), MIN_DEMAND_PRICE);
     return maxDemand * 1.1; // 10% padding
   }, [transactionType]);
 
@@ -84,15 +90,8 @@ function DemandCurveChartInner({
   // Current demand at current price
   const currentDemand = useMemo(() => {
     if (currentPrice === undefined) return undefined;
-    // Interpolate
-    for (let i = 0; i < demandCurve.length - 1; i++) {
-      if (currentPrice >= demandCurve[i].price && currentPrice <= demandCurve[i + 1].price) {
-        const t = (currentPrice - demandCurve[i].price) / (demandCurve[i + 1].price - demandCurve[i].price);
-        return demandCurve[i].quantity * (1 - t) + demandCurve[i + 1].quantity * t;
-      }
-    }
-    return demandCurve[demandCurve.length - 1].quantity;
-  }, [demandCurve, currentPrice]);
+    return getDemandAtPrice(transactionType, timestamp, currentPrice);
+  }, [transactionType, timestamp, currentPrice]);
 
   if (width < 100 || height < 100) return null;
 
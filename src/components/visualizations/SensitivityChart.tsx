@@ -0,0 +1,153 @@
+'use client';
+
+import type {
+  SummaryMetric,
+  SweepResult,
+  TornadoResult,
+} from '@/lib/simulation/sensitivity';
+
+const formatValue = (v: number) =>
+  Math.abs(v) >= 100 ? v.toFixed(0) : Math.abs(v) >= 1 ? v.toFixed(1) : v.toFixed(3);
+
+interface TornadoChartProps {
+  result: TornadoResult;
+  /** Label for the metric axis */
+  metricLabel?: string;
+  lowColor?: string;
+  highColor?: string;
+}
+
+/**
+ * One bar per parameter, centered on the base run's metric.
+ * The left/right halves show where the metric lands at the low and high values.
+ */
+export function TornadoChart({
+  result,
+  metricLabel = result.metric,
+  lowColor = '#3B82F6',
+  highColor = '#F59E0B',
+}: TornadoChartProps) {
+  const { baseMetric, bars } = result;
+  const extent = Math.max(
+    ...bars.flatMap((b) => [Math.abs(b.lowMetric - baseMetric), Math.abs(b.highMetric - baseMetric)]),
+    1e-9
+  );
+  const toPercent = (value: number) => 50 + ((value - baseMetric) / extent) * 50;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{metricLabel}</span>
+        <span>base {formatValue(baseMetric)}</span>
+      </div>
+
+      {bars.map((bar) => {
+        const segments = [
+          { value: bar.lowMetric, param: bar.lowValue, color: lowColor },
+          { value: bar.highMetric, param: bar.highValue, color: highColor },
+        ];
+
+        return (
+          <div key={bar.parameterId} className="flex items-center gap-2">
+            <div className="w-36 text-xs text-gray-300 truncate" title={bar.label}>
+              {bar.label}
+            </div>
+            <div className="relative flex-1 h-5 bg-gray-800 rounded">
+              <div className="absolute top-0 bottom-0 left-1/2 w-px bg-white/40" />
+              {segments.map(({ value, param, color }, i) => {
+                const left = Math.min(50, toPercent(value));
+                const width = Math.abs(toPercent(value) - 50);
+                return (
+                  <div
+                    key={i}
+                    className="absolute top-0.5 bottom-0.5 rounded-sm"
+                    style={{ left: `${left}%`, width: `${width}%`, backgroundColor: color }}
+                    title={`${bar.label} = ${formatValue(param)} → ${formatValue(value)}`}
+                  />
+                );
+              })}
+            </div>
+            <div className="w-16 text-right text-xs font-mono text-gray-400">
+              ±{formatValue(bar.swing / 2)}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: lowColor }} /> low value
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: highColor }} /> high value
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface SweepHeatmapProps {
+  result: SweepResult;
+  metric: SummaryMetric;
+  xLabel?: string;
+  yLabel?: string;
+  /** Six-digit hex color for the highest values */
+  color?: string;
+}
+
+/**
+ * Grid of a metric over two swept parameters; fainter cells are lower values
+ */
+export function SweepHeatmap({
+  result,
+  metric,
+  xLabel = result.xParameterId,
+  yLabel = result.yParameterId,
+  color = '#22C55E',
+}: SweepHeatmapProps) {
+  const values = result.cells.flat().map((c) => c.summary[metric]);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-gray-500">
+        {metric} by {xLabel} (→) and {yLabel} (↑)
+      </div>
+      <div
+        className="grid gap-px"
+        style={{ gridTemplateColumns: `auto repeat(${result.xValues.length}, minmax(0, 1fr))` }}
+      >
+        {[...result.cells].reverse().map((row, i) => (
+          <div key={i} className="contents">
+            <div className="pr-2 text-xs font-mono text-gray-400 self-center text-right">
+              {formatValue(row[0]?.y ?? 0)}
+            </div>
+            {row.map((cell) => {
+              const value = cell.summary[metric];
+              const alpha = Math.round((0.15 + 0.85 * ((value - min) / range)) * 255)
+                .toString(16)
+                .padStart(2, '0');
+              return (
+                <div
+                  key={cell.x}
+                  className="h-8 flex items-center justify-center text-[10px] font-mono text-white rounded-sm"
+                  style={{ backgroundColor: `${color}${alpha}` }}
+                  title={`${xLabel} = ${formatValue(cell.x)}, ${yLabel} = ${formatValue(cell.y)}`}
+                >
+                  {formatValue(value)}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        <div />
+        {result.xValues.map((x) => (
+          <div key={x} className="text-xs font-mono text-gray-400 text-center">
+            {formatValue(x)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
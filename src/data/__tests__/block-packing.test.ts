@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { resources } from '../resources';
-import { transactionTypes } from '../transactions';
+import { transactionTypes, deriveResourceConsumption, withGasSchedule } from '../transactions';
+import { calculateGas, mainnetGasSchedule, storageRepricingSchedule } from '../gas-schedules';
 import type { Resource, ResourceId } from '../resources/types';
 import type { TransactionType } from '../transactions/types';
 
@@ -59,8 +60,8 @@ function wouldExceedLimit(
 
 describe('Block Packing Data Validation', () => {
   describe('Resource Max Throughputs', () => {
-    it('should have all 8 resources defined', () => {
-      expect(resources.length).toBe(8);
+    it('should have all 9 resources defined', () => {
+      expect(resources.length).toBe(9);
     });
 
     it('should have positive maxThroughput for all resources', () => {
@@ -77,6 +78,7 @@ describe('Block Packing Data Validation', () => {
         'merklization': 100000,       // hashes/sec
         'block-verification': 2.5,    // Mgas/sec
         'block-distribution': 10,     // MB/sec
+        'blob-data': 0.75,            // blobs/sec (9 per 12s block)
         'state-growth': 50,           // KB/sec
         'history-growth': 100,        // KB/sec
         'proof-generation': 2.5,      // Mgas/sec - matches EVM compute for educational purposes
@@ -129,6 +131,70 @@ describe('Block Packing Data Validation', () => {
     }
   });
 
+  describe('Derived Consumption', () => {
+    for (const txType of transactionTypes) {
+      it(`${txType.name}: should match the derivation apart from overrides`, () => {
+        const derived = deriveResourceConsumption(txType);
+        for (const resource of resources) {
+          const expected = txType.consumptionOverrides?.[resource.id] ?? derived[resource.id];
+          expect(txType.resourceConsumption[resource.id]).toBe(expected);
+        }
+      });
+
+      it(`${txType.name}: should cost its averageGas under the mainnet schedule`, () => {
+        expect(txType.operations).toBeDefined();
+        expect(calculateGas(txType.operations!, mainnetGasSchedule)).toBe(txType.averageGas);
+        expect(withGasSchedule(txType, mainnetGasSchedule).resourceConsumption).toEqual(
+          txType.resourceConsumption
+        );
+      });
+
+      it(`${txType.name}: should re-execute its compute for verification and proving`, () => {
+        const compute = txType.resourceConsumption['evm-compute'];
+        expect(txType.resourceConsumption['block-verification']).toBe(compute);
+        expect(txType.resourceConsumption['proof-generation']).toBe(compute);
+      });
+    }
+
+    it('should scale with calldata and created storage', () => {
+      const nftMint = transactionTypes.find((t) => t.id === 'nft-mint')!;
+      const rollupBatch = transactionTypes.find((t) => t.id === 'rollup-batch')!;
+
+      // One created slot of 250 bytes
+      expect(nftMint.resourceConsumption['state-growth']).toBeCloseTo(0.25, 9);
+      // Calldata gas is not execution
+      expect(rollupBatch.resourceConsumption['evm-compute']).toBeCloseTo(0.05, 9);
+      expect(rollupBatch.resourceConsumption['history-growth']).toBeGreaterThan(28);
+    });
+
+    it('should reprice only the operations a schedule changes', () => {
+      const ethTransfer = transactionTypes.find((t) => t.id === 'eth-transfer')!;
+      const nftMint = transactionTypes.find((t) => t.id === 'nft-mint')!;
+
+      expect(withGasSchedule(ethTransfer, storageRepricingSchedule).averageGas).toBe(21000);
+      // One created slot (+40,000) and three cold reads (+900 each)
+      const repriced = withGasSchedule(nftMint, storageRepricingSchedule);
+      expect(repriced.averageGas).toBe(nftMint.averageGas + 42_700);
+      expect(repriced.resourceConsumption['evm-compute']).toBeCloseTo(
+        nftMint.resourceConsumption['evm-compute'] + 0.0427,
+        9
+      );
+      // The work is unchanged, only its metering
+      expect(repriced.resourceConsumption['block-verification']).toBe(
+        nftMint.resourceConsumption['block-verification']
+      );
+      expect(repriced.resourceConsumption['state-growth']).toBe(
+        nftMint.resourceConsumption['state-growth']
+      );
+    });
+
+    it('should let overrides replace derived values', () => {
+      const xenMint = transactionTypes.find((t) => t.id === 'xen-mint')!;
+      expect(deriveResourceConsumption(xenMint)['state-access']).toBe(8);
+      expect(xenMint.resourceConsumption['state-access']).toBe(2500);
+    });
+  });
+
   describe('ETH Transfer Specific', () => {
     const ethTransfer = transactionTypes.find(t => t.id === 'eth-transfer');
 
@@ -142,6 +208,9 @@ describe('Block Packing Data Validation', () => {
         expect(ethTransfer.resourceConsumption['evm-compute']).toBe(0.021);
         expect(ethTransfer.resourceConsumption['state-access']).toBe(4);
         expect(ethTransfer.resourceConsumption['merklization']).toBe(4);
+        expect(ethTransfer.resourceConsumption['block-distribution']).toBeCloseTo(0.00011, 9);
+        expect(ethTransfer.resourceConsumption['state-growth']).toBe(0);
+        expect(ethTransfer.resourceConsumption['history-growth']).toBeCloseTo(0.11, 9);
       });
 
       it('should calculate EVM compute utilization correctly', () => {
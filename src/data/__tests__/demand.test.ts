@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateDemandCurve,
+  getDemandAtPrice,
+  getDemandCurve,
+  getPriceAtDemand,
+  getRelativeDemand,
+  integrateDemand,
+  MAX_DEMAND_PRICE,
+  MIN_DEMAND_PRICE,
+  type DemandCurveModel,
+} from '../transactions';
+import { ethTransfer } from '../transactions/eth-transfer';
+import { uniswapSwapEthDai } from '../transactions/uniswap-swap';
+import { zkProofVerify } from '../transactions/rollup-batch';
+import { xenMint } from '../transactions/xen-mint';
+import type { TransactionType } from '../transactions/types';
+import { calculateDemand as calculateCoreDemand } from '@/lib/simulation/core';
+import { calculateDemand } from '@/lib/simulation/engine';
+import { calculateDemandResponse } from '@/lib/simulation/eip1559';
+
+/**
+ * Demand Curve Tests
+ *
+ * Every family must hit baseDemand at its reference price, integrate to the
+ * area under its own curve, and price a type the same way in every engine.
+ */
+
+const families: Record<string, DemandCurveModel> = {
+  hyperbolic: { family: 'hyperbolic', referencePrice: 50, elasticity: 1.5 },
+  linear: { family: 'linear', referencePrice: 50, chokePrice: 120 },
+  logistic: { family: 'logistic', referencePrice: 50, midpointPrice: 100, spread: 20 },
+  reservation: {
+    family: 'reservation',
+    referencePrice: 50,
+    tiers: [
+      { price: 80, share: 0.5 },
+      { price: 200, share: 0.3 },
+      { price: 400, share: 0.2 },
+    ],
+  },
+};
+
+function withCurve(demandCurve: DemandCurveModel): TransactionType {
+  return { ...ethTransfer, demandVolatility: 0, demandCurve };
+}
+
+// Midpoint rule over many slices
+function integrateNumerically(txType: TransactionType, from: number): number {
+  const slices = 20_000;
+  const width = (MAX_DEMAND_PRICE - from) / slices;
+  let area = 0;
+  for (let i = 0; i < slices; i++) {
+    area += getDemandAtPrice(txType, 0, from + (i + 0.5) * width) * width;
+  }
+  return area;
+}
+
+describe('Demand Curves', () => {
+  it('should keep the default hyperbolic curve of priceElasticity', () => {
+    const elasticity = 0.5 + ethTransfer.priceElasticity * 1.5;
+    const volatility = 1 + Math.sin(3 * 0.1) * ethTransfer.demandVolatility;
+
+    expect(getDemandCurve(ethTransfer)).toEqual({
+      family: 'hyperbolic',
+      referencePrice: 50,
+      elasticity,
+    });
+    expect(getDemandAtPrice(ethTransfer, 3, 35)).toBeCloseTo(
+      ethTransfer.baseDemand * volatility * Math.pow(50 / 35, elasticity),
+      9
+    );
+  });
+
+  describe.each(Object.entries(families))('%s', (_, curve) => {
+    const txType = withCurve(curve);
+
+    it('should meet baseDemand at the reference price and fall with price', () => {
+      expect(getDemandAtPrice(txType, 0, 50)).toBeCloseTo(txType.baseDemand, 9);
+
+      const prices = [10, 30, 60, 90, 150, 250, 450];
+      const demand = prices.map((price) => getDemandAtPrice(txType, 0, price));
+      for (let i = 1; i < demand.length; i++) {
+        expect(demand[i]).toBeLessThanOrEqual(demand[i - 1]);
+      }
+    });
+
+    it('should be flat outside the price range', () => {
+      expect(getDemandAtPrice(txType, 0, 1)).toBe(getDemandAtPrice(txType, 0, MIN_DEMAND_PRICE));
+      expect(getDemandAtPrice(txType, 0, 5000)).toBe(
+        getDemandAtPrice(txType, 0, MAX_DEMAND_PRICE)
+      );
+    });
+
+    it('should integrate to the area under the curve', () => {
+      for (const price of [MIN_DEMAND_PRICE, 45, 150]) {
+        expect(integrateDemand(txType, 0, price)).toBeCloseTo(
+          integrateNumerically(txType, price),
+          0
+        );
+      }
+      // Flat below the range
+      const below = integrateDemand(txType, 0, 4) - integrateDemand(txType, 0, MIN_DEMAND_PRICE);
+      expect(below).toBeCloseTo(
+        getDemandAtPrice(txType, 0, MIN_DEMAND_PRICE) * (MIN_DEMAND_PRICE - 4),
+        9
+      );
+    });
+  });
+
+  it('should give each family its own shape', () => {
+    expect(getRelativeDemand(families.linear, 120)).toBe(0);
+    expect(getRelativeDemand(families.linear, 85)).toBeCloseTo(0.5, 9);
+    expect(getRelativeDemand(families.logistic, 100) * 2).toBeCloseTo(
+      1 + Math.exp(-50 / 20),
+      9
+    );
+    expect(getRelativeDemand(families.reservation, 80)).toBe(1);
+    expect(getRelativeDemand(families.reservation, 81)).toBe(0.5);
+    expect(getRelativeDemand(families.reservation, 401)).toBe(0);
+  });
+
+  it('should invert demand back to a price', () => {
+    const txType = withCurve(families.logistic);
+    const quantity = getDemandAtPrice(txType, 0, 130);
+    expect(getPriceAtDemand(txType, 0, quantity)).toBeCloseTo(130, 6);
+    expect(getPriceAtDemand(txType, 0, 0)).toBe(MAX_DEMAND_PRICE);
+  });
+
+  it('should sample generated curves from the declared family', () => {
+    const curve = generateDemandCurve(xenMint, 0);
+    expect(curve.find((point) => point.price === 75)?.quantity).toBe(0);
+    expect(curve.map((point) => point.quantity)).toEqual(
+      curve.map((point) => getDemandAtPrice(xenMint, 0, point.price))
+    );
+  });
+
+  describe('engines', () => {
+    const declared = [xenMint, uniswapSwapEthDai, zkProofVerify];
+
+    it('should price demand curves with the declared family', () => {
+      const mix = declared.map((txType) => ({ txType, weight: 1 }));
+      const { byType } = calculateDemand(mix, 60, 1, { timestamp: 4 });
+      for (const txType of declared) {
+        expect(byType[txType.id]).toBe(getDemandAtPrice(txType, 4, 60));
+      }
+    });
+
+    it('should give the gas-only API and block simulation the same response', () => {
+      for (const txType of declared) {
+        const curve = getDemandCurve(txType);
+        for (const fee of [10, 30, 70, 200]) {
+          const { byType } = calculateCoreDemand([{ txType, weight: 1 }], fee, 1, 20);
+          expect(byType[txType.id]).toBeCloseTo(
+            txType.baseDemand * calculateDemandResponse(1, fee, 20, curve),
+            9
+          );
+        }
+      }
+      // A declared choke price prices XEN mints out of the block simulation too
+      expect(calculateDemandResponse(1, 80, 20, getDemandCurve(xenMint))).toBe(0);
+    });
+
+    it('should keep the unit-elastic response by default', () => {
+      expect(calculateDemandResponse(0.8, 40, 20)).toBeCloseTo(0.4, 9);
+      expect(calculateDemandResponse(0.8, 10, 20)).toBe(1);
+    });
+  });
+});
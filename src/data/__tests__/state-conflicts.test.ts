@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { transactionTypes } from '../transactions';
+import { ethTransfer } from '../transactions/eth-transfer';
+import { uniswapSwapEthUsdc } from '../transactions/uniswap-swap';
+import {
+  generalizedHarmonic,
+  getConflictProbability,
+  getExpectedConflictRate,
+  hasStateConflict,
+  slotConflictProbability,
+  slotsConflict,
+  type SlotAccess,
+  type TransactionType,
+} from '../transactions/types';
+
+/**
+ * State Conflict Tests
+ *
+ * Conflicts between slot accesses are probabilities: certain for the same
+ * specific slot, and 1 / cardinality-like for draws from bounded namespaces.
+ */
+
+function withAccess(id: string, reads: SlotAccess[], writes: SlotAccess[]): TransactionType {
+  return { ...ethTransfer, id, stateAccess: { reads, writes } };
+}
+
+describe('State Conflicts', () => {
+  describe('generalizedHarmonic', () => {
+    it('should match the exact sum for small n', () => {
+      expect(generalizedHarmonic(4, 1)).toBeCloseTo(1 + 1 / 2 + 1 / 3 + 1 / 4, 12);
+      expect(generalizedHarmonic(10, 0)).toBe(10);
+    });
+
+    it('should approximate large n closely', () => {
+      // H(n, 1) ≈ ln(n) + γ
+      expect(generalizedHarmonic(1e7, 1)).toBeCloseTo(Math.log(1e7) + 0.5772156649, 6);
+      expect(generalizedHarmonic(1e6, 0)).toBeCloseTo(1e6, 3);
+    });
+  });
+
+  describe('slotConflictProbability', () => {
+    it('should keep the boolean behavior of unbounded namespaces', () => {
+      const random: SlotAccess = { type: 'random', namespace: 'token:allowances' };
+      expect(slotConflictProbability(random, random)).toBe(0);
+      expect(slotConflictProbability({ type: 'sender' }, { type: 'receiver' })).toBe(0);
+      expect(slotsConflict({ type: 'specific', slot: 'a' }, { type: 'specific', slot: 'a' })).toBe(true);
+      expect(slotsConflict({ type: 'specific', slot: 'a' }, { type: 'specific', slot: 'b' })).toBe(false);
+    });
+
+    it('should be 1 / cardinality for uniform draws', () => {
+      const access: SlotAccess = { type: 'random', namespace: 'pool', cardinality: 200 };
+      expect(slotConflictProbability(access, access)).toBeCloseTo(1 / 200, 12);
+    });
+
+    it('should grow with popularity skew', () => {
+      const uniform: SlotAccess = { type: 'random', namespace: 'pool', cardinality: 1000 };
+      const zipf: SlotAccess = { ...uniform, skew: 1 };
+      expect(slotConflictProbability(zipf, zipf)).toBeGreaterThan(
+        slotConflictProbability(uniform, uniform)
+      );
+    });
+
+    it('should share the accounts namespace between senders and receivers', () => {
+      const sender: SlotAccess = { type: 'sender', cardinality: 100 };
+      const receiver: SlotAccess = { type: 'receiver', cardinality: 100 };
+      expect(slotConflictProbability(sender, receiver)).toBeCloseTo(0.01, 12);
+      expect(
+        slotConflictProbability(sender, { type: 'random', namespace: 'other', cardinality: 100 })
+      ).toBe(0);
+    });
+
+    it('should treat a single-slot namespace as a certain conflict', () => {
+      const access: SlotAccess = { type: 'random', namespace: 'counter', cardinality: 1 };
+      expect(slotsConflict(access, access)).toBe(true);
+    });
+  });
+
+  describe('getConflictProbability', () => {
+    it('should ignore read-read overlaps', () => {
+      const read: SlotAccess = { type: 'random', namespace: 'oracle', cardinality: 1 };
+      const reader = withAccess('reader', [read], []);
+      expect(getConflictProbability(reader, reader)).toBe(0);
+    });
+
+    it('should count a slot that is read and written once', () => {
+      const slot: SlotAccess = { type: 'random', namespace: 'pool', cardinality: 10 };
+      const tx = withAccess('rw', [slot], [slot]);
+      expect(getConflictProbability(tx, tx)).toBeCloseTo(0.1, 12);
+    });
+
+    it('should agree with hasStateConflict for the registry', () => {
+      for (const a of transactionTypes) {
+        for (const b of transactionTypes) {
+          const probability = getConflictProbability(a, b);
+          expect(probability === 1).toBe(hasStateConflict(a, b));
+        }
+      }
+    });
+  });
+
+  describe('getExpectedConflictRate', () => {
+    const account: SlotAccess = { type: 'sender', cardinality: 10_000, skew: 1 };
+    const payment = withAccess('payment', [account], [account]);
+
+    it('should report no conflicts for the existing transfer data', () => {
+      const estimate = getExpectedConflictRate([{ txType: ethTransfer, weight: 1 }], 1000);
+      expect(estimate.conflictRate).toBe(0);
+      expect(estimate.expectedConflictingPairs).toBe(0);
+    });
+
+    it('should rise with batch size', () => {
+      const small = getExpectedConflictRate([{ txType: payment, weight: 1 }], 10);
+      const large = getExpectedConflictRate([{ txType: payment, weight: 1 }], 1000);
+      expect(large.conflictRate).toBeGreaterThan(small.conflictRate);
+      expect(large.conflictRate).toBeLessThanOrEqual(1);
+    });
+
+    it('should count expected conflicting pairs', () => {
+      const estimate = getExpectedConflictRate([{ txType: payment, weight: 1 }], 100);
+      expect(estimate.expectedConflictingPairs).toBeCloseTo(
+        4950 * estimate.pairConflictProbability,
+        9
+      );
+    });
+
+    it('should make every transaction conflict in a hot-slot-only batch', () => {
+      const estimate = getExpectedConflictRate([{ txType: uniswapSwapEthUsdc, weight: 1 }], 2);
+      expect(estimate.conflictRateByType[uniswapSwapEthUsdc.id]).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Gas Schedule Registry
+ *
+ * Current mainnet pricing and proposed repricings. Applying a schedule to a
+ * transaction's operation histogram gives the gas it would use.
+ */
+
+import type { GasSchedule, OperationHistogram, OperationId } from './types';
+
+export * from './types';
+
+/**
+ * Mainnet (Prague)
+ * Costs since EIP-2929 cold/warm access and EIP-2200 SSTORE metering.
+ */
+export const mainnetGasSchedule: GasSchedule = {
+  id: 'mainnet',
+  name: 'Mainnet',
+  description: 'Current mainnet gas costs',
+  txBase: 21000,
+  costs: {
+    'sload-cold': 2100,
+    'sload-warm': 100,
+    'sstore-set': 20000,
+    'sstore-reset': 2900,
+    'call': 2600,
+    'log': 1756,          // 375 + 3 × 375 topics + 32 bytes × 8
+    'keccak': 36,         // 30 + 6 per word
+    'calldata-byte': 16,
+    'precompile': 34000,  // Per BN254 pairing (EIP-1108)
+    'compute': 1,
+  },
+  examples: ['EIP-2929', 'EIP-2200', 'EIP-1108'],
+};
+
+/**
+ * Storage Repricing
+ * State creation pays for the permanent growth it causes.
+ */
+export const storageRepricingSchedule: GasSchedule = {
+  id: 'storage-repricing',
+  name: 'Storage Repricing',
+  description: 'Creating state costs more; reads of cold state cost a little more',
+  txBase: 21000,
+  costs: {
+    ...mainnetGasSchedule.costs,
+    'sload-cold': 3000,
+    'sstore-set': 60000,
+  },
+  examples: ['EIP-8032'],
+};
+
+/**
+ * Precompile Repricing
+ * Cryptography is cheaper on modern hardware than when it was priced.
+ */
+export const precompileRepricingSchedule: GasSchedule = {
+  id: 'precompile-repricing',
+  name: 'Precompile Repricing',
+  description: 'Pairings and hashing priced for modern hardware',
+  txBase: 21000,
+  costs: {
+    ...mainnetGasSchedule.costs,
+    'precompile': 15000,
+    'keccak': 20,
+  },
+};
+
+/**
+ * Temporal State Access Repricing
+ * Cold state needs a disk read; cached state is nearly free.
+ */
+export const temporalRepricingSchedule: GasSchedule = {
+  id: 'temporal-repricing',
+  name: 'Temporal State Access Repricing',
+  description: 'Cold access costs more, warm access less',
+  txBase: 21000,
+  costs: {
+    ...mainnetGasSchedule.costs,
+    'sload-cold': 4000,
+    'sload-warm': 50,
+    'call': 4000,
+  },
+  examples: ['EIP-2929 (cold/warm access)'],
+};
+
+/**
+ * All gas schedules
+ */
+export const gasSchedules: GasSchedule[] = [
+  mainnetGasSchedule,
+  storageRepricingSchedule,
+  precompileRepricingSchedule,
+  temporalRepricingSchedule,
+];
+
+/**
+ * Lookup gas schedule by ID
+ */
+export const gasSchedulesById: Record<string, GasSchedule> = Object.fromEntries(
+  gasSchedules.map((s) => [s.id, s])
+);
+
+/**
+ * Gas a transaction with these operations uses under a schedule
+ */
+export function calculateGas(operations: OperationHistogram, schedule: GasSchedule): number {
+  let gas = schedule.txBase;
+  for (const [operation, count] of Object.entries(operations) as [OperationId, number][]) {
+    gas += count * schedule.costs[operation];
+  }
+  return gas;
+}
@@ -0,0 +1,57 @@
+/**
+ * Gas Schedule Types
+ *
+ * Defines the operations a transaction performs and the gas each one costs.
+ */
+
+/**
+ * Operations that a gas schedule prices
+ * - 'sload-cold' / 'sload-warm': storage read of a slot not yet / already touched
+ * - 'sstore-set': storage write creating a slot (zero to non-zero)
+ * - 'sstore-reset': storage write updating an existing slot
+ * - 'call': call to another contract (cold account access)
+ * - 'log': event with three topics and 32 bytes of data
+ * - 'keccak': hash of 64 bytes
+ * - 'calldata-byte': one byte of calldata
+ * - 'precompile': one elliptic-curve pairing (or equivalent precompile work)
+ * - 'compute': remaining execution (arithmetic, memory, control flow), in gas
+ */
+export type OperationId =
+  | 'sload-cold'
+  | 'sload-warm'
+  | 'sstore-set'
+  | 'sstore-reset'
+  | 'call'
+  | 'log'
+  | 'keccak'
+  | 'calldata-byte'
+  | 'precompile'
+  | 'compute';
+
+/**
+ * How many times a transaction performs each operation
+ */
+export type OperationHistogram = Partial<Record<OperationId, number>>;
+
+/**
+ * Gas Schedule Definition
+ */
+export interface GasSchedule {
+  /** Unique identifier */
+  id: string;
+
+  /** Human-readable name */
+  name: string;
+
+  /** Short description */
+  description: string;
+
+  /** Intrinsic gas every transaction pays */
+  txBase: number;
+
+  /** Gas per operation */
+  costs: Record<OperationId, number>;
+
+  /** Related proposals */
+  examples?: string[];
+}
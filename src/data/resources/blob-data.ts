@@ -0,0 +1,28 @@
+import type { Resource } from './types';
+
+/** Blobs per block at the EIP-7691 (Prague) maximum */
+const MAX_BLOBS_PER_BLOCK = 9;
+
+/** Seconds per slot */
+const SLOT_TIME = 12;
+
+/**
+ * Blob Data
+ *
+ * Data availability space for rollups, introduced by EIP-4844. Blobs are
+ * 128 KB each, gossiped alongside blocks and pruned after ~18 days, so
+ * unlike calldata they never become permanent history.
+ *
+ * Priced by its own base fee, separate from execution gas.
+ */
+export const blobData: Resource = {
+  id: 'blob-data',
+  name: 'Blob Data',
+  category: 'verification',
+  description: 'Temporary data availability space for rollups',
+  unit: 'blobs/sec',
+  maxThroughput: MAX_BLOBS_PER_BLOCK / SLOT_TIME,
+  color: '#f472b6', // pink
+  icon: '🫧',
+  notes: 'Target 6 and max 9 blobs per block since EIP-7691; PeerDAS aims to raise both by sampling instead of downloading every blob',
+};
@@ -1,4 +1,7 @@
 import type { Resource } from './types';
+import { formatStorage, getAnnualStorage } from './units';
+
+const MAX_HISTORY_GROWTH = 100; // KB/sec
 
 /**
  * History Growth
@@ -14,8 +17,8 @@ export const historyGrowth: Resource = {
   category: 'sync-archive',
   description: 'Rate of block and receipt data accumulation',
   unit: 'KB/sec',
-  maxThroughput: 100, // ~100 KB/sec = ~3 TB/year
+  maxThroughput: MAX_HISTORY_GROWTH,
   color: '#06b6d4', // cyan
   icon: '📚',
-  notes: 'EIP-4444 proposes history expiry to reduce storage requirements',
+  notes: `At the limit this adds ~${formatStorage(getAnnualStorage(MAX_HISTORY_GROWTH))}/year. EIP-4444 proposes history expiry to reduce storage requirements`,
 };
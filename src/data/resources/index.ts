@@ -1,7 +1,7 @@
 /**
  * Resource Registry
  *
- * Exports all 8 resources that represent blockchain throughput bottlenecks.
+ * Exports all 9 resources that represent blockchain throughput bottlenecks.
  * Organized by category: Building, Verification, Sync/Archive, Proving
  */
 
@@ -10,15 +10,17 @@ import { stateAccess } from './state-access';
 import { merklization } from './merklization';
 import { blockVerification } from './block-verification';
 import { blockDistribution } from './block-distribution';
+import { blobData } from './blob-data';
 import { stateGrowth } from './state-growth';
 import { historyGrowth } from './history-growth';
 import { proofGeneration } from './proof-generation';
 import type { Resource, ResourceId, ResourceCategory } from './types';
 
 export * from './types';
+export * from './units';
 
 /**
- * All available resources (8 total)
+ * All available resources (9 total)
  */
 export const resources: Resource[] = [
   // Building
@@ -28,6 +30,7 @@ export const resources: Resource[] = [
   // Verification
   blockVerification,
   blockDistribution,
+  blobData,
   // Sync/Archive
   stateGrowth,
   historyGrowth,
@@ -40,7 +43,7 @@ export const resources: Resource[] = [
  */
 export const resourcesByCategory: Record<ResourceCategory, Resource[]> = {
   building: [evmCompute, stateAccess, merklization],
-  verification: [blockVerification, blockDistribution],
+  verification: [blockVerification, blockDistribution, blobData],
   'sync-archive': [stateGrowth, historyGrowth],
   proving: [proofGeneration],
 };
@@ -64,6 +67,7 @@ export const resourcesById: Record<ResourceId, Resource> = {
   'merklization': merklization,
   'block-verification': blockVerification,
   'block-distribution': blockDistribution,
+  'blob-data': blobData,
   'state-growth': stateGrowth,
   'history-growth': historyGrowth,
   'proof-generation': proofGeneration,
@@ -88,6 +92,7 @@ export {
   merklization,
   blockVerification,
   blockDistribution,
+  blobData,
   stateGrowth,
   historyGrowth,
   proofGeneration,
@@ -1,4 +1,7 @@
 import type { Resource } from './types';
+import { formatStorage, getAnnualStorage } from './units';
+
+const MAX_STATE_GROWTH = 50; // KB/sec
 
 /**
  * State Growth
@@ -14,8 +17,8 @@ export const stateGrowth: Resource = {
   category: 'sync-archive',
   description: 'Rate of new state accumulation',
   unit: 'KB/sec',
-  maxThroughput: 50, // ~50 KB/sec = ~1.5 TB/year
+  maxThroughput: MAX_STATE_GROWTH,
   color: '#ec4899', // pink
   icon: '📈',
-  notes: 'State expiry could reduce this by removing old unused state',
+  notes: `At the limit this adds ~${formatStorage(getAnnualStorage(MAX_STATE_GROWTH))}/year. State expiry could reduce this by removing old unused state`,
 };
@@ -52,6 +52,7 @@ export type ResourceId =
   | 'merklization'
   | 'block-verification'
   | 'block-distribution'
+  | 'blob-data'
   | 'state-growth'
   | 'history-growth'
   | 'proof-generation';
@@ -0,0 +1,30 @@
+/**
+ * Storage Units
+ *
+ * The sync/archive resources are rates in KB/sec, but their cost is the
+ * storage they accumulate. These helpers turn rates into yearly totals.
+ */
+
+/** Seconds in an average (Julian) year */
+export const SECONDS_PER_YEAR = 365.25 * 24 * 60 * 60;
+
+/** KB in a (decimal) GB */
+export const KB_PER_GB = 1_000_000;
+
+/**
+ * Storage accumulated in one year at a constant rate
+ * @param kbPerSec - Growth rate in KB/sec
+ * @returns Storage in GB
+ */
+export function getAnnualStorage(kbPerSec: number): number {
+  return (kbPerSec * SECONDS_PER_YEAR) / KB_PER_GB;
+}
+
+/**
+ * Format a storage size given in GB, switching to TB above 1000 GB
+ */
+export function formatStorage(gb: number): string {
+  if (gb >= 1000) return `${(gb / 1000).toFixed(1)} TB`;
+  if (gb >= 10) return `${gb.toFixed(0)} GB`;
+  return `${gb.toFixed(1)} GB`;
+}
@@ -0,0 +1,27 @@
+/**
+ * Scaling Solution Composition Rules
+ *
+ * Solutions attacking the same bottleneck overlap: a second 3x speedup on
+ * EVM execution rarely delivers another full 3x, and no combination removes
+ * the hardware limit entirely. These rules say how much each resource's
+ * solution multipliers are discounted when stacked, and where they top out.
+ */
+
+import type { ResourceId } from '../resources/types';
+import type { CompositionRule } from './types';
+
+/**
+ * Composition rules per resource
+ */
+export const compositionRules: Partial<Record<ResourceId, CompositionRule>> = {
+  // Parallelism, JIT and precompiles all shave the same interpreter loop
+  'evm-compute': { diminishingFactor: 0.7, cap: 100 },
+  // Bounded by disk IOPS however the reads are scheduled
+  'state-access': { diminishingFactor: 0.8, cap: 50 },
+  'merklization': { diminishingFactor: 0.8, cap: 30 },
+  'block-verification': { diminishingFactor: 0.8, cap: 50 },
+  'proof-generation': { diminishingFactor: 0.8, cap: 100 },
+  'block-distribution': { diminishingFactor: 0.8 },
+  'state-growth': { diminishingFactor: 0.8, cap: 20 },
+  'history-growth': { diminishingFactor: 0.8, cap: 20 },
+};
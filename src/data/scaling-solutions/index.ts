@@ -11,8 +11,10 @@
  */
 
 import type { ScalingSolution, ScalingSolutionCategory } from './types';
+import { SECONDS_PER_YEAR } from '../resources/units';
 
 export * from './types';
+export * from './composition';
 
 /**
  * Parallel Execution
@@ -31,6 +33,9 @@ export const parallelExecution: ScalingSolution = {
     'evm-compute': 10.0,
     'state-access': 4.0,
   },
+  parallelLanes: 16,
+  // Conflicts must be known before scheduling, which block access lists declare
+  requires: ['block-access-lists'],
   color: '#06B6D4',
   icon: '🔀',
   examples: ['Monad', 'Sei', 'MegaETH', 'Reth parallel'],
@@ -129,6 +134,13 @@ export const blockAccessLists: ScalingSolution = {
   multipliers: {
     'block-verification': 10.0,
   },
+  synergies: [
+    {
+      with: 'state-warming',
+      multipliers: { 'state-access': 1.5 },
+      description: 'Warming reads exactly the declared slots instead of guessing',
+    },
+  ],
   color: '#10B981',
   icon: '📋',
   examples: ['EIP-7928', 'Proposed for Ethereum'],
@@ -204,10 +216,18 @@ export const customPrecompiles: ScalingSolution = {
     'proof-generation': '+',
   },
   multipliers: {
-    'evm-compute': 3.0,
-    'block-verification': 3.0,
     'proof-generation': 1.5,
   },
+  // Only transactions that call the accelerated operations benefit
+  transactionEffects: [
+    {
+      typeIds: ['zk-proof-verify'],
+      multipliers: {
+        'evm-compute': 3.0,
+        'block-verification': 3.0,
+      },
+    },
+  ],
   color: '#A855F7',
   icon: '⚡',
   examples: ['secp256r1 (RIP-7212)', 'BLS12-381', 'KZG'],
@@ -229,10 +249,17 @@ export const jitNativeContracts: ScalingSolution = {
     'evm-compute': '++',
     'block-verification': '++',
   },
-  multipliers: {
-    'evm-compute': 3.0,
-    'block-verification': 3.0,
-  },
+  multipliers: {},
+  // Plain transfers run no bytecode; contract-heavy workloads gain the most
+  transactionEffects: [
+    {
+      categories: ['defi', 'nft'],
+      multipliers: {
+        'evm-compute': 3.0,
+        'block-verification': 3.0,
+      },
+    },
+  ],
   color: '#F59E0B',
   icon: '🚀',
   examples: ['revmc', 'Reth', 'evmone'],
@@ -287,6 +314,7 @@ export const stateExpiry: ScalingSolution = {
     'merklization': 1.5,
     'state-growth': 10.0,
   },
+  expiryPeriod: SECONDS_PER_YEAR, // ~1 year unaccessed before expiry
   color: '#EF4444',
   icon: '⏳',
   examples: ['EIP-7736 proposal', 'Solana rent'],
@@ -313,6 +341,8 @@ export const riscvVm: ScalingSolution = {
     'evm-compute': 10.0,
     'proof-generation': 10.0,
   },
+  // Both replace the interpreter; only one execution backend can run
+  excludes: ['jit-native-contracts'],
   color: '#DC2626',
   icon: '🔧',
   examples: ['SP1', 'RISC Zero', 'Jolt', 'OP Kailua'],
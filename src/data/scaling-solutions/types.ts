@@ -5,6 +5,7 @@
  */
 
 import type { ResourceId } from '../resources/types';
+import type { TransactionCategory } from '../transactions/types';
 
 /**
  * Impact level for a scaling solution on a resource
@@ -25,6 +26,44 @@ export type ScalingSolutionCategory =
   | 'proving'       // Proof systems (zkEVM)
   | 'protocol';     // Protocol changes (pipelining)
 
+/**
+ * Extra multipliers two solutions unlock together, on top of their own
+ */
+export interface SolutionSynergy {
+  /** The other solution's id */
+  with: string;
+  multipliers: Partial<Record<ResourceId, number>>;
+  /** Why the combination helps */
+  description?: string;
+}
+
+/**
+ * Gains that only apply to some transactions.
+ * A transaction matches if its type id or its category is listed.
+ */
+export interface TransactionEffect {
+  typeIds?: string[];
+  categories?: TransactionCategory[];
+  /**
+   * Maps resource IDs to consumption divisors for matching transactions
+   * (e.g., 3.0 = they use a third as much)
+   */
+  multipliers: Partial<Record<ResourceId, number>>;
+}
+
+/**
+ * How solution multipliers stack on one resource
+ */
+export interface CompositionRule {
+  /**
+   * Weight on each successive solution's gain, from the largest down:
+   * the k-th gets multiplier^(diminishingFactor^k). 1 multiplies them fully.
+   */
+  diminishingFactor?: number;
+  /** Highest combined multiplier the resource can reach */
+  cap?: number;
+}
+
 /**
  * Scaling Solution Definition
  */
@@ -53,6 +92,37 @@ export interface ScalingSolution {
    */
   multipliers: Partial<Record<ResourceId, number>>;
 
+  /**
+   * Workload-specific gains, applied to the consumption of matching
+   * transactions instead of to the resource's capacity
+   */
+  transactionEffects?: TransactionEffect[];
+
+  /**
+   * Execution lanes for parallel scheduling.
+   * When set, the simulation replaces this solution's evm-compute multiplier
+   * with the speedup achieved by scheduling the actual transaction mix onto
+   * this many lanes, so hot-slot conflicts limit the gain.
+   */
+  parallelLanes?: number;
+
+  /**
+   * Expiry period in seconds for state pruning.
+   * When set, the growth projection treats this solution's state-growth
+   * multiplier as pruning: state older than this period shrinks to
+   * 1 / multiplier of its size instead of being smaller from the start.
+   */
+  expiryPeriod?: number;
+
+  /** Solutions that must also be enabled for this one to take effect */
+  requires?: string[];
+
+  /** Solutions that cannot be enabled alongside this one */
+  excludes?: string[];
+
+  /** Extra gains when enabled together with another solution */
+  synergies?: SolutionSynergy[];
+
   /** Color for visualizations */
   color: string;
 
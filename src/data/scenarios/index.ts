@@ -0,0 +1,44 @@
+/**
+ * Scenario Definition Registry
+ *
+ * Built-in demand scenarios, stored as JSON so they can be edited, versioned
+ * and shared without touching TypeScript. Compile them with compileScenario
+ * (src/lib/simulation/scenario-dsl.ts).
+ */
+
+import normal from './normal.json';
+import nftDrop from './nft-drop.json';
+import marketCrash from './market-crash.json';
+import gradualGrowth from './gradual-growth.json';
+import stressTest from './stress-test.json';
+import oscillating from './oscillating.json';
+import type { ScenarioDefinition } from './types';
+
+export * from './types';
+
+// JSON imports widen literal types such as component `type`s
+export const normalDayDefinition = normal as ScenarioDefinition;
+export const nftDropDefinition = nftDrop as ScenarioDefinition;
+export const marketCrashDefinition = marketCrash as ScenarioDefinition;
+export const gradualGrowthDefinition = gradualGrowth as ScenarioDefinition;
+export const stressTestDefinition = stressTest as ScenarioDefinition;
+export const oscillatingDefinition = oscillating as ScenarioDefinition;
+
+/**
+ * All built-in scenario definitions
+ */
+export const scenarioDefinitions: ScenarioDefinition[] = [
+  normalDayDefinition,
+  nftDropDefinition,
+  marketCrashDefinition,
+  gradualGrowthDefinition,
+  stressTestDefinition,
+  oscillatingDefinition,
+];
+
+/**
+ * Scenario definition lookup by ID
+ */
+export const scenarioDefinitionsById: Record<string, ScenarioDefinition> = Object.fromEntries(
+  scenarioDefinitions.map((s) => [s.id, s])
+);
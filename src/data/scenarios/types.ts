@@ -0,0 +1,133 @@
+/**
+ * Demand Scenario Definition Types
+ *
+ * A declarative, JSON-serializable description of how demand changes over a
+ * run. compileScenario (src/lib/simulation/scenario-dsl.ts) turns one into a
+ * DemandScenario the engines can run.
+ *
+ * To add a new scenario:
+ * 1. Create a new file in src/data/scenarios/[scenario-id].json
+ * 2. Import and add it to the registry in src/data/scenarios/index.ts
+ *
+ * Times are normalized to the run (0 = start, 1 = end). A curve's value is
+ * the sum of its additive components, scaled by its noise components, and
+ * never negative. The scenario's curve applies to every transaction type;
+ * shocks add curves for specific types on top of it.
+ */
+
+import type { TransactionCategory } from '../transactions/types';
+
+/**
+ * A point on a piecewise-linear curve
+ */
+export interface ScenarioPoint {
+  /** Normalized time (0-1) */
+  t: number;
+  /** Demand multiplier contribution at t */
+  value: number;
+}
+
+/**
+ * Linear interpolation between points, sorted by t.
+ * Holds the first value before the first point and the last after the last.
+ */
+export interface PiecewiseComponent {
+  type: 'piecewise';
+  points: ScenarioPoint[];
+}
+
+/**
+ * amplitude × sin(2π × (frequency × t + phase)) within [from, until)
+ */
+export interface SineComponent {
+  type: 'sine';
+  amplitude: number;
+  /** Cycles over the whole run */
+  frequency: number;
+  /** Fraction of a cycle (default 0) */
+  phase?: number;
+  /** Window start (default 0) */
+  from?: number;
+  /** Window end, exclusive (default: end of run) */
+  until?: number;
+}
+
+/**
+ * Jumps by height at `at`, then decays exponentially
+ */
+export interface SpikeComponent {
+  type: 'spike';
+  at: number;
+  height: number;
+  /** Normalized time for the spike to fall to 1/e of its height */
+  decay: number;
+}
+
+/**
+ * Adds height within [at, until)
+ */
+export interface StepComponent {
+  type: 'step';
+  at: number;
+  height: number;
+  /** Window end, exclusive (default: end of run) */
+  until?: number;
+}
+
+/**
+ * Multiplicative noise: 1 + stdDev × a standard normal draw, held constant
+ * over each of `resolution` equal slices of the run. Draws are seeded so
+ * the same definition always gives the same curve.
+ */
+export interface NoiseComponent {
+  type: 'noise';
+  stdDev: number;
+  /** Number of slices (default 100) */
+  resolution?: number;
+  /** Default 1 */
+  seed?: number;
+}
+
+export type ScenarioComponent =
+  | PiecewiseComponent
+  | SineComponent
+  | SpikeComponent
+  | StepComponent
+  | NoiseComponent;
+
+export type ScenarioComponentType = ScenarioComponent['type'];
+
+/**
+ * Demand shock for specific transaction types, multiplying their demand by
+ * its own curve. A type matching several shocks gets their product.
+ */
+export interface ScenarioShock {
+  /** Transaction type IDs hit by the shock */
+  typeIds?: string[];
+  /** Transaction categories hit by the shock */
+  categories?: TransactionCategory[];
+  components: ScenarioComponent[];
+}
+
+/**
+ * Scenario Definition
+ */
+export interface ScenarioDefinition {
+  /** Unique identifier (kebab-case, e.g., 'nft-drop') */
+  id: string;
+
+  /** Human-readable name */
+  name: string;
+
+  /** Short description */
+  description: string;
+
+  /** Duration in time units */
+  duration: number;
+
+  /** Summed (noise multiplies); no components means a constant 0 */
+  components: ScenarioComponent[];
+
+  /** Per-type curves on top of the components */
+  shocks?: ScenarioShock[];
+}
@@ -0,0 +1,152 @@
+/**
+ * Resource Consumption Derivation
+ *
+ * Computes a transaction's consumption of every resource from what it does,
+ * instead of hand-copying related numbers into each data file:
+ * - Execution (evm-compute, block-verification, proof-generation) from the
+ *   gas left after paying for calldata
+ * - State access and merklization from the slots it reads and writes
+ * - Block distribution and history growth from its size on the wire
+ * - State growth from the storage slots it creates
+ *
+ * Transactions with an operation histogram can also be repriced: a gas
+ * schedule changes the gas they are charged, and with it how much of the
+ * gas limit they take.
+ *
+ * Transactions that can post their data as blobs have a blob variant: no
+ * calldata gas or permanent history, but blob space and blob bandwidth.
+ */
+
+import type { TransactionType } from './types';
+import { calculateGas, mainnetGasSchedule, type GasSchedule } from '../gas-schedules';
+
+/** Fixed transaction bytes: signature, nonce, gas fields, addresses, value */
+export const TX_ENVELOPE_BYTES = 110;
+
+/** Database operations per slot read or written */
+export const STATE_OPS_PER_ACCESS = 1;
+
+/** Trie hashes recomputed per slot written (leaf and account) */
+export const HASHES_PER_WRITE = 2;
+
+/** State bytes a created slot adds, including its share of new trie nodes */
+export const BYTES_PER_CREATED_SLOT = 250;
+
+/** Size of one EIP-4844 blob (4096 field elements of 32 bytes) */
+export const BYTES_PER_BLOB = 131_072;
+
+/**
+ * A transaction type before its consumption is derived
+ */
+export type TransactionDefinition = Omit<TransactionType, 'resourceConsumption'>;
+
+/**
+ * Calldata bytes and created slots, from the operations when known
+ */
+function getGasProfile(definition: TransactionDefinition) {
+  const { operations, gasProfile } = definition;
+  return {
+    calldataBytes: operations?.['calldata-byte'] ?? gasProfile?.calldataBytes ?? 0,
+    storageSlotsCreated: operations?.['sstore-set'] ?? gasProfile?.storageSlotsCreated ?? 0,
+  };
+}
+
+/**
+ * Consumption of the eight resources every transaction uses (blob-data comes
+ * from withBlobPosting), ignoring overrides.
+ * Units follow the resources: Mgas, operations, hashes, MB and KB.
+ * Calldata is paid for at the schedule's price (mainnet by default).
+ */
+export function deriveResourceConsumption(
+  definition: TransactionDefinition,
+  schedule: GasSchedule = mainnetGasSchedule
+): Record<string, number> {
+  const { stateAccess, averageGas } = definition;
+  const { calldataBytes, storageSlotsCreated } = getGasProfile(definition);
+
+  const calldataGas = calldataBytes * schedule.costs['calldata-byte'];
+  const executionGas = Math.max(0, averageGas - calldataGas);
+  const execution = executionGas / 1_000_000;
+  const txBytes = TX_ENVELOPE_BYTES + calldataBytes;
+
+  return {
+    'evm-compute': execution,
+    'state-access': (stateAccess.reads.length + stateAccess.writes.length) * STATE_OPS_PER_ACCESS,
+    'merklization': stateAccess.writes.length * HASHES_PER_WRITE,
+    // Verifiers and provers re-execute the same work
+    'block-verification': execution,
+    'block-distribution': txBytes / 1_000_000,
+    'state-growth': (storageSlotsCreated * BYTES_PER_CREATED_SLOT) / 1000,
+    'history-growth': txBytes / 1000,
+    'proof-generation': execution,
+  };
+}
+
+/**
+ * Complete a transaction type with derived consumption; its
+ * consumptionOverrides win over derived values
+ */
+export function withDerivedConsumption(definition: TransactionDefinition): TransactionType {
+  return {
+    ...definition,
+    resourceConsumption: {
+      ...deriveResourceConsumption(definition),
+      ...definition.consumptionOverrides,
+    },
+  };
+}
+
+/**
+ * The transaction type repriced under a gas schedule: averageGas becomes the
+ * gas its operations cost. Repricing changes what is metered, not the work
+ * done, so only evm-compute (the gas limit) follows the new gas; an override
+ * on it still wins. Types without an operation histogram are returned
+ * unchanged.
+ */
+export function withGasSchedule(txType: TransactionType, schedule: GasSchedule): TransactionType {
+  if (!txType.operations) return txType;
+
+  const averageGas = calculateGas(txType.operations, schedule);
+  const derived = deriveResourceConsumption({ ...txType, averageGas }, schedule);
+  return {
+    ...txType,
+    averageGas,
+    resourceConsumption: {
+      ...txType.resourceConsumption,
+      'evm-compute': txType.consumptionOverrides?.['evm-compute'] ?? derived['evm-compute'],
+    },
+  };
+}
+
+/**
+ * The transaction type posting its calldata as blobs: the calldata and its
+ * gas are gone, and so is its permanent history; blob space is used instead
+ * and every blob is gossiped in full. Types without `blobs` are returned
+ * unchanged.
+ */
+export function withBlobPosting(txType: TransactionType): TransactionType {
+  if (!txType.blobs) return txType;
+
+  const { calldataBytes } = getGasProfile(txType);
+  const { 'calldata-byte': _, ...operations } = txType.operations ?? {};
+  const definition: TransactionDefinition = {
+    ...txType,
+    averageGas: txType.operations
+      ? calculateGas(operations, mainnetGasSchedule)
+      : txType.averageGas - calldataBytes * mainnetGasSchedule.costs['calldata-byte'],
+    ...(txType.operations && { operations }),
+    ...(txType.gasProfile && { gasProfile: { ...txType.gasProfile, calldataBytes: 0 } }),
+  };
+  const derived = deriveResourceConsumption(definition);
+
+  return {
+    ...definition,
+    resourceConsumption: {
+      ...derived,
+      'blob-data': txType.blobs,
+      'block-distribution':
+        derived['block-distribution'] + (txType.blobs * BYTES_PER_BLOB) / 1_000_000,
+      ...txType.consumptionOverrides,
+    },
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Demand Curves
+ *
+ * How many transactions of a type want in at a given price per gas. A type
+ * declares the family of its curve in `demandCurve`; without one it gets a
+ * hyperbolic curve shaped by its priceElasticity.
+ * - Hyperbolic: Q ∝ (referencePrice / price)^elasticity, never reaching zero
+ * - Linear: Q ∝ chokePrice - price, zero from the choke price up
+ * - Logistic: Q ∝ 1 / (1 + e^((price - midpointPrice) / spread)), most users
+ *   dropping out within a few spreads of the midpoint
+ * - Reservation: a step curve; each tier is a share of users who pay up to
+ *   its price and no more
+ *
+ * Every family is scaled so demand equals baseDemand at its referencePrice.
+ * Both engines evaluate demand here, so a transaction type responds to price
+ * the same way in the unified engine, the gas-only API and the EIP-1559
+ * block simulation.
+ */
+
+import type { TransactionType } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DemandCurveFamily = 'hyperbolic' | 'linear' | 'logistic' | 'reservation';
+
+interface DemandCurveBase {
+  family: DemandCurveFamily;
+  /** Price in gwei at which demand equals baseDemand; demand must be positive there */
+  referencePrice: number;
+}
+
+export interface HyperbolicDemandCurve extends DemandCurveBase {
+  family: 'hyperbolic';
+  /** Exponent: 1 halves demand when the price doubles */
+  elasticity: number;
+}
+
+export interface LinearDemandCurve extends DemandCurveBase {
+  family: 'linear';
+  /** Price in gwei at which demand reaches zero */
+  chokePrice: number;
+}
+
+export interface LogisticDemandCurve extends DemandCurveBase {
+  family: 'logistic';
+  /** Price in gwei at which half of all users are priced out */
+  midpointPrice: number;
+  /** Gwei over which demand falls by a factor of e; smaller is sharper */
+  spread: number;
+}
+
+export interface ReservationTier {
+  /** Highest price in gwei these users will pay */
+  price: number;
+  /** Share of users in the tier (relative to the other tiers) */
+  share: number;
+}
+
+export interface ReservationDemandCurve extends DemandCurveBase {
+  family: 'reservation';
+  tiers: ReservationTier[];
+}
+
+export type DemandCurveModel =
+  | HyperbolicDemandCurve
+  | LinearDemandCurve
+  | LogisticDemandCurve
+  | ReservationDemandCurve;
+
+/** Reference price of the default hyperbolic curve */
+export const DEFAULT_REFERENCE_PRICE = 50;
+
+/**
+ * Prices in gwei demand is defined over. Demand is flat outside them: the
+ * lowest price stands in for a free transaction, and whoever is left at the
+ * highest pays any price.
+ */
+export const MIN_DEMAND_PRICE = 10;
+export const MAX_DEMAND_PRICE = 500;
+
+// ============================================================================
+// Curve Shapes
+// ============================================================================
+
+/** ln(1 + e^x) without overflow */
+function softplus(x: number): number {
+  return x > 30 ? x : Math.log1p(Math.exp(x));
+}
+
+/**
+ * Demand at a price before scaling to the reference price
+ */
+function getShape(curve: DemandCurveModel, price: number): number {
+  switch (curve.family) {
+    case 'hyperbolic':
+      return Math.pow(curve.referencePrice / price, curve.elasticity);
+    case 'linear':
+      return Math.max(0, curve.chokePrice - price);
+    case 'logistic':
+      return 1 / (1 + Math.exp((price - curve.midpointPrice) / curve.spread));
+    case 'reservation':
+      return curve.tiers.reduce((sum, tier) => sum + (tier.price >= price ? tier.share : 0), 0);
+  }
+}
+
+/**
+ * Integral of getShape from low to high (0 < low ≤ high)
+ */
+function integrateShape(curve: DemandCurveModel, low: number, high: number): number {
+  switch (curve.family) {
+    case 'hyperbolic': {
+      const { referencePrice, elasticity } = curve;
+      if (elasticity === 1) return referencePrice * Math.log(high / low);
+      const antiderivative = (p: number) =>
+        (Math.pow(referencePrice, elasticity) * Math.pow(p, 1 - elasticity)) / (1 - elasticity);
+      return antiderivative(high) - antiderivative(low);
+    }
+    case 'linear': {
+      const antiderivative = (p: number) => -(Math.max(0, curve.chokePrice - p) ** 2) / 2;
+      return antiderivative(high) - antiderivative(low);
+    }
+    case 'logistic': {
+      const { midpointPrice, spread } = curve;
+      const antiderivative = (p: number) => p - spread * softplus((p - midpointPrice) / spread);
+      return antiderivative(high) - antiderivative(low);
+    }
+    case 'reservation':
+      return curve.tiers.reduce(
+        (sum, tier) => sum + tier.share * Math.max(0, Math.min(high, tier.price) - low),
+        0
+      );
+  }
+}
+
+/**
+ * Demand at a price as a multiple of demand at the reference price
+ * (0 if the curve has no demand at its reference price)
+ */
+export function getRelativeDemand(curve: DemandCurveModel, price: number): number {
+  const reference = getShape(curve, curve.referencePrice);
+  return reference > 0 ? getShape(curve, price) / reference : 0;
+}
+
+// ============================================================================
+// Transaction Demand
+// ============================================================================
+
+/**
+ * The type's declared demand curve, or the hyperbolic curve its
+ * priceElasticity implies (elasticity 0.5 to 2.0)
+ */
+export function getDemandCurve(txType: TransactionType): DemandCurveModel {
+  return (
+    txType.demandCurve ?? {
+      family: 'hyperbolic',
+      referencePrice: DEFAULT_REFERENCE_PRICE,
+      elasticity: 0.5 + txType.priceElasticity * 1.5,
+    }
+  );
+}
+
+/**
+ * Time-varying demand multiplier from the type's demandVolatility
+ */
+export function getVolatilityFactor(txType: TransactionType, timestamp: number): number {
+  return 1 + Math.sin(timestamp * 0.1) * txType.demandVolatility;
+}
+
+function clampPrice(price: number): number {
+  return Math.max(MIN_DEMAND_PRICE, Math.min(MAX_DEMAND_PRICE, price));
+}
+
+/**
+ * Demand in TPS for a transaction type at a price per gas
+ */
+export function getDemandAtPrice(txType: TransactionType, timestamp: number, price: number): number {
+  return (
+    txType.baseDemand *
+    getVolatilityFactor(txType, timestamp) *
+    getRelativeDemand(getDemandCurve(txType), clampPrice(price))
+  );
+}
+
+/**
+ * Area under the type's demand curve from a price up to MAX_DEMAND_PRICE,
+ * in TPS × gwei: what users would have paid above it. Demand still there at
+ * the highest price is not counted, since the curve says nothing about what
+ * it would pay beyond.
+ */
+export function integrateDemand(txType: TransactionType, timestamp: number, price: number): number {
+  const curve = getDemandCurve(txType);
+  const reference = getShape(curve, curve.referencePrice);
+  if (reference <= 0 || price >= MAX_DEMAND_PRICE) return 0;
+
+  const low = Math.max(MIN_DEMAND_PRICE, price);
+  // Flat below the lowest price
+  const flat = getShape(curve, MIN_DEMAND_PRICE) * Math.max(0, MIN_DEMAND_PRICE - price);
+  const area = flat + integrateShape(curve, low, MAX_DEMAND_PRICE);
+
+  return (txType.baseDemand * getVolatilityFactor(txType, timestamp) * area) / reference;
+}
+
+/**
+ * Highest price at which demand is still at least quantity (the inverse of
+ * getDemandAtPrice), between MIN_DEMAND_PRICE and MAX_DEMAND_PRICE
+ */
+export function getPriceAtDemand(txType: TransactionType, timestamp: number, quantity: number): number {
+  if (getDemandAtPrice(txType, timestamp, MAX_DEMAND_PRICE) >= quantity) return MAX_DEMAND_PRICE;
+
+  let low = MIN_DEMAND_PRICE;
+  let high = MAX_DEMAND_PRICE;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (getDemandAtPrice(txType, timestamp, mid) >= quantity) low = mid;
+    else high = mid;
+  }
+  return low;
+}
@@ -1,4 +1,5 @@
 import type { TransactionType } from './types';
+import { withDerivedConsumption } from './consumption';
 
 /**
  * ERC-20 Token Transfer
@@ -7,7 +8,7 @@ import type { TransactionType } from './types';
  * More state-heavy than ETH transfers but still parallelizable
  * because each transfer touches unique user balance slots.
  */
-export const erc20Transfer: TransactionType = {
+export const erc20Transfer: TransactionType = withDerivedConsumption({
   id: 'erc20-transfer',
   name: 'ERC-20 Transfer',
   description: 'Token transfer (USDC, USDT, etc.). More state operations than ETH transfer.',
@@ -25,15 +26,13 @@ export const erc20Transfer: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.065,        // 65,000 gas = 0.065 Mgas
-    'state-access': 150,         // Token balance reads/writes with I/O overhead
-    'merklization': 8,           // 2 storage + 2 balance updates
-    'block-verification': 0.065, // Same as compute
-    'block-distribution': 0.14,  // ~140 bytes tx data
-    'state-growth': 0,           // Usually no new state
-    'history-growth': 0.14,      // ~140 bytes in history
-    'proof-generation': 0.065,   // Same as compute
+  operations: {
+    'calldata-byte': 68,  // transfer(address,uint256)
+    'sload-cold': 3,      // Balances and allowance
+    'sstore-reset': 2,    // Update both balances
+    'log': 1,             // Transfer event
+    'keccak': 3,          // Mapping slot hashes
+    'compute': 28_948,    // Arithmetic, memory, control flow
   },
 
   baseDemand: 15,
@@ -48,4 +47,4 @@ export const erc20Transfer: TransactionType = {
   feeGwei: 40,  // Higher fee - important financial utility
 
   notes: 'Stablecoin transfers are a large portion of chain activity. Like ETH transfers, they parallelize well.',
-};
+});
@@ -1,4 +1,5 @@
 import type { TransactionType } from './types';
+import { withDerivedConsumption } from './consumption';
 
 /**
  * Simple ETH Transfer
@@ -7,7 +8,7 @@ import type { TransactionType } from './types';
  * Very efficient, highly parallelizable because each transfer touches
  * unique sender/receiver balance slots.
  */
-export const ethTransfer: TransactionType = {
+export const ethTransfer: TransactionType = withDerivedConsumption({
   id: 'eth-transfer',
   name: 'ETH Transfer',
   description: 'Simple ETH transfer between accounts. Minimal state access.',
@@ -24,16 +25,7 @@ export const ethTransfer: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.021,        // 21,000 gas = 0.021 Mgas
-    'state-access': 100,         // Account reads/writes with some I/O overhead
-    'merklization': 4,           // 2 account updates (2 hashes each)
-    'block-verification': 0.021, // Same as compute for re-execution
-    'block-distribution': 0.00011, // ~110 bytes tx data = 0.00011 MB
-    'state-growth': 0,           // No new state created
-    'history-growth': 0.11,      // ~110 bytes in history (KB)
-    'proof-generation': 0.021,   // Same as compute
-  },
+  operations: {},          // Intrinsic gas only
 
   baseDemand: 20,
   demandVolatility: 0.3,
@@ -47,4 +39,4 @@ export const ethTransfer: TransactionType = {
   feeGwei: 30,  // Moderate fee - basic utility
 
   notes: 'The benchmark favorite - simple transfers touch random slots so they parallelize perfectly. This is why 100% transfer benchmarks show inflated TPS.',
-};
+});
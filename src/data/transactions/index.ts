@@ -14,6 +14,8 @@ import { xenMint } from './xen-mint';
 import type { TransactionType } from './types';
 
 export * from './types';
+export * from './consumption';
+export * from './demand';
 
 /**
  * All available transaction types
@@ -98,11 +100,14 @@ export function getAllHotSlots(): string[] {
 
 /**
  * Group transaction types by the hot slots they access
+ * (defaults to every registered type)
  */
-export function groupByHotSlot(): Record<string, TransactionType[]> {
+export function groupByHotSlot(
+  types: TransactionType[] = transactionTypes
+): Record<string, TransactionType[]> {
   const groups: Record<string, TransactionType[]> = {};
 
-  for (const tx of transactionTypes) {
+  for (const tx of types) {
     for (const access of [...tx.stateAccess.reads, ...tx.stateAccess.writes]) {
       if (access.type === 'specific') {
         if (!groups[access.slot]) {
@@ -1,4 +1,5 @@
 import type { TransactionType } from './types';
+import { withDerivedConsumption } from './consumption';
 
 /**
  * NFT Mint (Popular Collection)
@@ -7,7 +8,7 @@ import type { TransactionType } from './types';
  * The supply counter is a HOT SLOT - all mints from the same collection
  * must execute sequentially because they all increment the same counter.
  */
-export const nftMint: TransactionType = {
+export const nftMint: TransactionType = withDerivedConsumption({
   id: 'nft-mint',
   name: 'NFT Mint',
   description: 'Minting an NFT. Supply counter is a hot slot - all mints conflict.',
@@ -25,15 +26,14 @@ export const nftMint: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.1,          // 100,000 gas = 0.1 Mgas
-    'state-access': 200,         // Token creation, ownership mapping - moderate I/O
-    'merklization': 16,          // Multiple storage updates + token creation
-    'block-verification': 0.1,   // Same as compute
-    'block-distribution': 0.5,   // ~500 bytes (includes metadata)
-    'state-growth': 0.25,        // New token storage slot created
-    'history-growth': 0.5,       // ~500 bytes in history
-    'proof-generation': 0.1,     // Same as compute
+  operations: {
+    'calldata-byte': 36,  // mint(uint256)
+    'sload-cold': 3,      // Supply, sender, price
+    'sstore-set': 1,      // New token storage slot
+    'sstore-reset': 2,    // Supply and sender balance
+    'log': 1,             // Transfer event
+    'keccak': 2,          // Mapping slot hashes
+    'compute': 44_496,    // Arithmetic, memory, control flow
   },
 
   baseDemand: 2,
@@ -48,7 +48,7 @@ export const nftMint: TransactionType = {
   feeGwei: 100,  // High fee - will pay premium for popular drops
 
   notes: 'NFT mints from the same collection conflict on the supply counter. This is why NFT drops cause congestion even with parallelism.',
-};
+});
 
 /**
  * NFT Transfer
@@ -57,7 +57,7 @@ export const nftMint: TransactionType = {
  * Unlike mints, transfers only touch the specific token being transferred,
  * so different token transfers can parallelize.
  */
-export const nftTransfer: TransactionType = {
+export const nftTransfer: TransactionType = withDerivedConsumption({
   id: 'nft-transfer',
   name: 'NFT Transfer',
   description: 'Transferring an NFT between accounts. Can parallelize for different tokens.',
@@ -75,15 +75,14 @@ export const nftTransfer: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.08,         // 80,000 gas = 0.08 Mgas
-    'state-access': 150,         // Ownership mapping updates - moderate I/O
-    'merklization': 12,          // Storage updates
-    'block-verification': 0.08,  // Same as compute
-    'block-distribution': 0.3,   // ~300 bytes tx data
-    'state-growth': 0,           // No new state (just ownership change)
-    'history-growth': 0.3,       // ~300 bytes in history
-    'proof-generation': 0.08,    // Same as compute
+  operations: {
+    'calldata-byte': 100,  // safeTransferFrom(address,address,uint256)
+    'sload-cold': 4,       // Owner, approvals, balances
+    'sstore-reset': 3,     // Owner and both balances
+    'call': 1,             // onERC721Received check
+    'log': 1,              // Transfer event
+    'keccak': 3,           // Mapping slot hashes
+    'compute': 35_836,     // Arithmetic, memory, control flow
   },
 
   baseDemand: 3,
@@ -98,4 +97,4 @@ export const nftTransfer: TransactionType = {
   feeGwei: 50,  // Moderate fee - less time-sensitive than mints
 
   notes: 'Unlike mints, NFT transfers of different tokens can run in parallel.',
-};
+});
@@ -1,13 +1,15 @@
 import type { TransactionType } from './types';
+import { withDerivedConsumption } from './consumption';
 
 /**
  * Rollup Batch Submission
  *
  * A rollup posting compressed transaction data to L1.
- * CPU-light but very heavy on block distribution (calldata).
+ * CPU-light but very heavy on block distribution (calldata): ~100KB a batch,
+ * 0.1 MB of block-distribution against ~0.0002 MB for a transfer.
  * Illustrates how different tx types stress different resources.
  */
-export const rollupBatch: TransactionType = {
+export const rollupBatch: TransactionType = withDerivedConsumption({
   id: 'rollup-batch',
   name: 'Rollup Batch',
   description: 'L2 rollup posting compressed batch data. Heavy on calldata, light on compute.',
@@ -22,22 +24,22 @@ export const rollupBatch: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.05,         // 50,000 gas compute (minimal)
-    'state-access': 2,           // 1 read + 1 write
-    'merklization': 2,           // Just the inbox update
-    'block-verification': 0.05,  // Same as compute
-    'block-distribution': 100,   // ~100KB of calldata per batch!
-    'state-growth': 0,           // No L1 state growth
-    'history-growth': 100,       // 100KB of history
-    'proof-generation': 0.05,    // Same as compute
+  operations: {
+    'calldata-byte': 100_000, // ~100KB of compressed batch data (1.6M gas)
+    'sload-cold': 1,          // Inbox state
+    'sstore-reset': 1,        // Inbox accumulator
+    'log': 1,                 // Batch delivered event
+    'keccak': 1,              // Batch hash
+    'compute': 22_208,        // Arithmetic, memory, control flow
   },
 
   baseDemand: 0.1,  // Few batches per block
   demandVolatility: 0.2,
   priceElasticity: 0.2, // Will pay high fees to post data
 
-  averageGas: 500000, // ~500k gas mostly for calldata
+  averageGas: 1650000, // ~1.65M gas, almost all of it calldata
+
+  blobs: 1,  // The same ~100KB batch fits in one 128KB blob
 
   percentOfMainnetTxs: 1,
 
@@ -45,8 +47,8 @@ export const rollupBatch: TransactionType = {
 
   feeGwei: 20,  // Moderate fee - infrastructure pays reliably
 
-  notes: 'Rollup batches show how calldata-heavy transactions stress block distribution differently than compute-heavy transactions.',
-};
+  notes: 'Rollup batches show how calldata-heavy transactions stress block distribution differently than compute-heavy transactions. Since EIP-4844 they can post blobs instead, whenever blob space is cheaper than calldata.',
+});
 
 /**
  * ZK Proof Verification
@@ -54,7 +56,7 @@ export const rollupBatch: TransactionType = {
  * Verifying a ZK proof on-chain (e.g., ZK-rollup validity proof).
  * Very compute-heavy due to cryptographic operations.
  */
-export const zkProofVerify: TransactionType = {
+export const zkProofVerify: TransactionType = withDerivedConsumption({
   id: 'zk-proof-verify',
   name: 'ZK Proof Verify',
   description: 'Verifying a ZK validity proof. Extremely compute-intensive.',
@@ -70,20 +72,29 @@ export const zkProofVerify: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.5,          // 500,000 gas = 0.5 Mgas (heavy crypto)
-    'state-access': 3,           // 2 reads + 1 write
-    'merklization': 4,           // State root update
-    'block-verification': 0.5,   // Same as compute
-    'block-distribution': 0.5,   // ~500 bytes proof data
-    'state-growth': 0,           // No state growth
-    'history-growth': 0.5,       // ~500 bytes in history
-    'proof-generation': 0.5,     // Same as compute
+  operations: {
+    'calldata-byte': 768,  // Proof and public inputs
+    'sload-cold': 2,       // Verifier key and state root
+    'sstore-reset': 1,     // New state root
+    'precompile': 4,       // Groth16 pairing check
+    'log': 1,              // Proof verified event
+    'keccak': 4,           // Public input hashing
+    'compute': 321_712,    // Arithmetic, memory, control flow
   },
 
   baseDemand: 0.01, // Very few per block
   demandVolatility: 0.1,
-  priceElasticity: 0.1, // Will pay any price
+  priceElasticity: 0.1, // Display only: the reservation curve below sets demand
+  // Proofs have deadlines: half of them are posted at up to 500 gwei
+  demandCurve: {
+    family: 'reservation',
+    referencePrice: 50,
+    tiers: [
+      { price: 100, share: 0.2 },
+      { price: 300, share: 0.3 },
+      { price: 500, share: 0.5 },
+    ],
+  },
 
   averageGas: 500000,
 
@@ -91,7 +102,7 @@ export const zkProofVerify: TransactionType = {
 
   color: '#A78BFA',
 
-  feeGwei: 25,  // Will pay any price - critical infrastructure
+  feeGwei: 25,  // Pays high fees - critical infrastructure
 
   notes: 'ZK proof verification is the most compute-intensive operation. Custom precompiles can dramatically reduce this cost.',
-};
+});
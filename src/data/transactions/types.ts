@@ -6,9 +6,14 @@
  *
  * To add a new transaction type:
  * 1. Create a new file in src/data/transactions/[tx-id].ts
- * 2. Export a TransactionType object following this interface
+ * 2. Export a TransactionType built with withDerivedConsumption (consumption.ts)
  * 3. Import and add it to the registry in src/data/transactions/index.ts
  */
+
+import type { OperationHistogram } from '../gas-schedules/types';
+import type { DemandCurveModel } from './demand';
+import { getDemandAtPrice } from './demand';
+
 export interface TransactionType {
   /** Unique identifier (kebab-case, e.g., 'uniswap-swap') */
   id: string;
@@ -30,15 +35,39 @@ export interface TransactionType {
   stateAccess: StateAccess;
 
   /**
-   * Resource consumption per transaction (legacy, for backwards compatibility)
-   * Keys are resource IDs, values are units consumed per TX
-   * @deprecated Use stateAccess instead - scaling solutions calculate consumption
+   * Resource consumption per transaction
+   * Keys are resource IDs, values are units consumed per TX.
+   * Data files derive it from stateAccess, averageGas and operations (or
+   * gasProfile) with withDerivedConsumption (see consumption.ts).
    */
   resourceConsumption: Record<string, number>;
 
+  /**
+   * Operations performed per transaction. When set, averageGas is the gas
+   * they cost under the mainnet schedule, other schedules can reprice them,
+   * and the calldata and created slots in it replace gasProfile.
+   */
+  operations?: OperationHistogram;
+
+  /** Inputs to the consumption derivation beyond stateAccess and averageGas */
+  gasProfile?: GasProfile;
+
+  /**
+   * Blobs that can carry this transaction's calldata instead (EIP-4844).
+   * When set, the transaction posts its data as calldata or blobs, whichever
+   * is cheaper (see withBlobPosting in consumption.ts).
+   */
+  blobs?: number;
+
+  /**
+   * Hand-tuned consumption that replaces derived values, for effects the
+   * derivation cannot see
+   */
+  consumptionOverrides?: Record<string, number>;
+
   /**
    * Base demand in TPS (transactions per second)
-   * This is the average demand when price is at equilibrium
+   * This is the demand at the demand curve's reference price
    */
   baseDemand: number;
 
@@ -51,10 +80,17 @@ export interface TransactionType {
   /**
    * Price elasticity (0-1)
    * How much demand decreases as price increases
-   * 0 = inelastic (will pay any price), 1 = highly elastic
+   * 0 = inelastic (will pay any price), 1 = highly elastic.
+   * Shapes the default hyperbolic curve; ignored when demandCurve is set.
    */
   priceElasticity: number;
 
+  /**
+   * Family and parameters of the demand curve (see demand.ts).
+   * Defaults to a hyperbolic curve shaped by priceElasticity.
+   */
+  demandCurve?: DemandCurveModel;
+
   /** Average gas used (for reference) */
   averageGas: number;
 
@@ -74,6 +110,18 @@ export interface TransactionType {
   feeGwei?: number;
 }
 
+/**
+ * Gas Profile
+ *
+ * What a transaction carries and creates, beyond the slots it touches.
+ */
+export interface GasProfile {
+  /** Calldata bytes (excluding the fixed transaction envelope) */
+  calldataBytes: number;
+  /** Storage slots this transaction creates, which persist in state */
+  storageSlotsCreated: number;
+}
+
 /**
  * State Access Pattern
  *
@@ -91,40 +139,100 @@ export interface StateAccess {
  * Slot Access Types
  *
  * - 'specific': Always accesses this exact slot (hot spot, causes conflicts)
- * - 'random': Accesses a random slot from a namespace (no conflicts assumed)
- * - 'sender': The transaction sender's balance slot (unique per tx)
- * - 'receiver': The transaction receiver's balance slot (unique per tx)
+ * - 'random': Accesses a random slot from a namespace
+ * - 'sender': The transaction sender's balance slot
+ * - 'receiver': The transaction receiver's balance slot
+ *
+ * 'random', 'sender' and 'receiver' accesses draw from a namespace (senders and
+ * receivers share the accounts namespace). A namespace without a cardinality
+ * is unbounded, so two draws never collide.
  */
 export type SlotAccess =
   | { type: 'specific'; slot: string }
-  | { type: 'random'; namespace: string }
-  | { type: 'sender' }
-  | { type: 'receiver' };
+  | ({ type: 'random'; namespace: string } & NamespaceDistribution)
+  | ({ type: 'sender' } & NamespaceDistribution)
+  | ({ type: 'receiver' } & NamespaceDistribution);
 
 /**
- * Check if two slot accesses conflict (could access the same storage)
+ * How slots in a namespace are drawn
  */
-export function slotsConflict(s1: SlotAccess, s2: SlotAccess): boolean {
-  // Specific-Specific: conflict if same slot
-  if (s1.type === 'specific' && s2.type === 'specific') {
-    return s1.slot === s2.slot;
-  }
+export interface NamespaceDistribution {
+  /** Number of distinct slots in the namespace (unbounded if omitted) */
+  cardinality?: number;
+  /**
+   * Zipf exponent of slot popularity: the k-th most popular slot is drawn
+   * with probability proportional to 1 / k^skew (0 = uniform, the default)
+   */
+  skew?: number;
+}
+
+/** Namespace shared by 'sender' and 'receiver' accesses */
+export const ACCOUNT_NAMESPACE = 'accounts';
 
-  // Random-Random: assume no conflict (large namespace)
-  if (s1.type === 'random' && s2.type === 'random') {
-    return false;
+/**
+ * Namespace a non-specific access draws from
+ */
+function getNamespace(access: Exclude<SlotAccess, { type: 'specific' }>): string {
+  return access.type === 'random' ? access.namespace : ACCOUNT_NAMESPACE;
+}
+
+/** Terms summed exactly before the tail is integrated */
+const HARMONIC_EXACT_TERMS = 10_000;
+
+/**
+ * Generalized harmonic number H(n, s) = sum of 1 / k^s for k = 1..n.
+ * Large n are summed exactly up to 10,000 terms and integrated beyond.
+ */
+export function generalizedHarmonic(n: number, s: number): number {
+  const exactTerms = Math.min(Math.floor(n), HARMONIC_EXACT_TERMS);
+  let sum = 0;
+  for (let k = 1; k <= exactTerms; k++) {
+    sum += Math.pow(k, -s);
   }
+  if (n <= exactTerms) return sum;
+
+  // Midpoint rule: the tail sum is close to the integral over [a - 1/2, n + 1/2]
+  const a = exactTerms + 0.5;
+  const b = Math.floor(n) + 0.5;
+  const tail = Math.abs(s - 1) < 1e-12
+    ? Math.log(b / a)
+    : (Math.pow(b, 1 - s) - Math.pow(a, 1 - s)) / (1 - s);
+  return sum + tail;
+}
 
-  // Sender/Receiver: assume no conflict (different users)
-  if (
-    (s1.type === 'sender' || s1.type === 'receiver') &&
-    (s2.type === 'sender' || s2.type === 'receiver')
-  ) {
-    return false;
+/**
+ * Probability that two slot accesses hit the same slot.
+ *
+ * - Specific slots collide with certainty when equal
+ * - Draws from the same bounded namespace collide with probability
+ *   sum over k of p(k) * q(k), both ranking slots by the same popularity
+ * - Specific slots are never part of a random namespace
+ */
+export function slotConflictProbability(s1: SlotAccess, s2: SlotAccess): number {
+  if (s1.type === 'specific' || s2.type === 'specific') {
+    return s1.type === 'specific' && s2.type === 'specific' && s1.slot === s2.slot ? 1 : 0;
   }
 
-  // Specific vs Random/Sender/Receiver: no conflict
-  return false;
+  if (getNamespace(s1) !== getNamespace(s2)) return 0;
+  if (s1.cardinality === undefined || s2.cardinality === undefined) return 0;
+
+  const n = Math.min(s1.cardinality, s2.cardinality);
+  if (n < 1) return 0;
+
+  const skew1 = s1.skew ?? 0;
+  const skew2 = s2.skew ?? 0;
+  const probability =
+    generalizedHarmonic(n, skew1 + skew2) /
+    (generalizedHarmonic(s1.cardinality, skew1) * generalizedHarmonic(s2.cardinality, skew2));
+
+  return Math.min(1, probability);
+}
+
+/**
+ * Check if two slot accesses always conflict (access the same storage)
+ */
+export function slotsConflict(s1: SlotAccess, s2: SlotAccess): boolean {
+  return slotConflictProbability(s1, s2) >= 1;
 }
 
 /**
@@ -164,6 +272,87 @@ export function hasStateConflict(
   return false;
 }
 
+/**
+ * Distinct slots a transaction touches; a slot it writes counts as a write
+ */
+function getDistinctAccesses(tx: TransactionType): { access: SlotAccess; write: boolean }[] {
+  const byKey = new Map<string, { access: SlotAccess; write: boolean }>();
+  for (const access of tx.stateAccess.reads) {
+    byKey.set(JSON.stringify(access), { access, write: false });
+  }
+  for (const access of tx.stateAccess.writes) {
+    byKey.set(JSON.stringify(access), { access, write: true });
+  }
+  return Array.from(byKey.values());
+}
+
+/**
+ * Probability that two transactions conflict: one writes a slot the other
+ * reads or writes. Slot draws are treated as independent.
+ */
+export function getConflictProbability(tx1: TransactionType, tx2: TransactionType): number {
+  let noConflict = 1;
+  for (const a of getDistinctAccesses(tx1)) {
+    for (const b of getDistinctAccesses(tx2)) {
+      if (!a.write && !b.write) continue;
+      noConflict *= 1 - slotConflictProbability(a.access, b.access);
+    }
+  }
+  return 1 - noConflict;
+}
+
+/**
+ * Expected conflicts in a batch of transactions drawn from a weighted mix
+ */
+export interface BatchConflictEstimate {
+  /** Probability that two random transactions from the mix conflict */
+  pairConflictProbability: number;
+  /** Expected number of conflicting pairs in the batch */
+  expectedConflictingPairs: number;
+  /** Expected share of transactions that conflict with at least one other (0-1) */
+  conflictRate: number;
+  /** conflictRate for transactions of each type */
+  conflictRateByType: Record<string, number>;
+}
+
+/**
+ * Expected conflict rates for a batch of n transactions drawn from a mix
+ *
+ * @param mix - Transaction types and their relative weights
+ * @param n - Number of transactions in the batch
+ */
+export function getExpectedConflictRate(
+  mix: { txType: TransactionType; weight: number }[],
+  n: number
+): BatchConflictEstimate {
+  const totalWeight = mix.reduce((sum, m) => sum + m.weight, 0);
+  const shares = mix.map((m) => (totalWeight > 0 ? m.weight / totalWeight : 0));
+
+  let pairConflictProbability = 0;
+  let conflictRate = 0;
+  const conflictRateByType: Record<string, number> = {};
+
+  for (let i = 0; i < mix.length; i++) {
+    // Chance that one other transaction conflicts with a transaction of this type
+    let perOther = 0;
+    for (let j = 0; j < mix.length; j++) {
+      perOther += shares[j] * getConflictProbability(mix[i].txType, mix[j].txType);
+    }
+
+    const rate = 1 - Math.pow(1 - perOther, Math.max(0, n - 1));
+    conflictRateByType[mix[i].txType.id] = rate;
+    conflictRate += shares[i] * rate;
+    pairConflictProbability += shares[i] * perOther;
+  }
+
+  return {
+    pairConflictProbability,
+    expectedConflictingPairs: ((n * (n - 1)) / 2) * pairConflictProbability,
+    conflictRate,
+    conflictRateByType,
+  };
+}
+
 /**
  * Get all specific (hot) slots accessed by a transaction
  */
@@ -204,32 +393,18 @@ export interface DemandPoint {
 }
 
 /**
- * Generate demand curve for a transaction type at a given time
- *
- * Uses an inverse/hyperbolic function so demand approaches infinity as price → 0
- * This reflects reality: if transactions were free, demand would be infinite
+ * Generate demand curve for a transaction type at a given time, sampled from
+ * its demand curve family (see getDemandAtPrice in demand.ts)
  */
 export function generateDemandCurve(
   txType: TransactionType,
   timestamp: number,
   pricePoints: number[] = [10, 20, 35, 50, 75, 100, 150, 200, 300, 500]
 ): DemandPoint[] {
-  // Add time-based volatility
-  const volatilityFactor = 1 + (Math.sin(timestamp * 0.1) * txType.demandVolatility);
-
-  // Reference price where demand equals baseDemand
-  const referencePrice = 50;
-
-  return pricePoints.map((price) => {
-    // Hyperbolic demand curve: Q = baseDemand * (referencePrice / price)^elasticity
-    // As price → 0, demand → infinity (asymptotic behavior)
-    // At referencePrice, demand = baseDemand
-    // Higher elasticity = steeper curve
-    const elasticityPower = 0.5 + txType.priceElasticity * 1.5; // Range: 0.5 to 2.0
-    const quantity = txType.baseDemand * volatilityFactor * Math.pow(referencePrice / price, elasticityPower);
-
-    return { price, quantity };
-  });
+  return pricePoints.map((price) => ({
+    price,
+    quantity: getDemandAtPrice(txType, timestamp, price),
+  }));
 }
 
 /**
@@ -242,4 +417,6 @@ export interface Transaction {
   gasPrice: number;
   priorityFee: number;
   status: 'pending' | 'executed' | 'dropped';
+  /** When the transaction was executed or dropped */
+  resolvedAt?: number;
 }
@@ -1,4 +1,5 @@
 import type { TransactionType } from './types';
+import { withDerivedConsumption } from './consumption';
 
 /**
  * Uniswap ETH/USDC Swap
@@ -7,7 +8,7 @@ import type { TransactionType } from './types';
  * This is a HOT SLOT - all swaps on this pool touch the same state,
  * so they CANNOT be parallelized with each other.
  */
-export const uniswapSwapEthUsdc: TransactionType = {
+export const uniswapSwapEthUsdc: TransactionType = withDerivedConsumption({
   id: 'uniswap-swap-eth-usdc',
   name: 'Swap ETH/USDC',
   description: 'Uniswap V3 swap on the most popular ETH/USDC pool. Hot slot - cannot parallelize.',
@@ -25,15 +26,15 @@ export const uniswapSwapEthUsdc: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.15,         // 150,000 gas = 0.15 Mgas
-    'state-access': 300,         // Pool state, ticks, balances - heavy I/O
-    'merklization': 24,          // Many storage slot updates
-    'block-verification': 0.15,  // Same as compute
-    'block-distribution': 0.35,  // ~350 bytes tx data
-    'state-growth': 0,           // No new state
-    'history-growth': 0.35,      // ~350 bytes in history
-    'proof-generation': 0.15,    // Same as compute
+  operations: {
+    'calldata-byte': 260,  // exactInputSingle params
+    'sload-cold': 8,       // Pool, ticks, token balances
+    'sload-warm': 20,      // Re-reads during the swap loop
+    'sstore-reset': 6,     // Reserves, price, balances
+    'call': 3,             // Router, pool, token transfers
+    'log': 3,              // Swap and Transfer events
+    'keccak': 6,           // Mapping slot hashes
+    'compute': 75_356,     // Arithmetic, memory, control flow
   },
 
   baseDemand: 3,
@@ -48,7 +49,7 @@ export const uniswapSwapEthUsdc: TransactionType = {
   feeGwei: 80,  // High fee - time-sensitive DeFi trades
 
   notes: 'The most popular DEX pool. ALL swaps on this pool conflict - they must execute sequentially even with parallel execution enabled.',
-};
+});
 
 /**
  * Uniswap ETH/DAI Swap
@@ -56,7 +57,7 @@ export const uniswapSwapEthUsdc: TransactionType = {
  * Swap on a different pool than ETH/USDC.
  * Can run in parallel with ETH/USDC swaps, but conflicts with other ETH/DAI swaps.
  */
-export const uniswapSwapEthDai: TransactionType = {
+export const uniswapSwapEthDai: TransactionType = withDerivedConsumption({
   id: 'uniswap-swap-eth-dai',
   name: 'Swap ETH/DAI',
   description: 'Uniswap V3 swap on ETH/DAI pool. Different pool from ETH/USDC.',
@@ -74,20 +75,22 @@ export const uniswapSwapEthDai: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.15,         // 150,000 gas = 0.15 Mgas
-    'state-access': 300,         // Pool state, ticks, balances - heavy I/O
-    'merklization': 24,          // Many storage slot updates
-    'block-verification': 0.15,  // Same as compute
-    'block-distribution': 0.35,  // ~350 bytes tx data
-    'state-growth': 0,           // No new state
-    'history-growth': 0.35,      // ~350 bytes in history
-    'proof-generation': 0.15,    // Same as compute
+  operations: {
+    'calldata-byte': 260,  // exactInputSingle params
+    'sload-cold': 8,       // Pool, ticks, token balances
+    'sload-warm': 20,      // Re-reads during the swap loop
+    'sstore-reset': 6,     // Reserves, price, balances
+    'call': 3,             // Router, pool, token transfers
+    'log': 3,              // Swap and Transfer events
+    'keccak': 6,           // Mapping slot hashes
+    'compute': 75_356,     // Arithmetic, memory, control flow
   },
 
   baseDemand: 1,
   demandVolatility: 0.7,
   priceElasticity: 0.5,
+  // Arbitrage goes through until gas eats the price gap, mostly by ~120 gwei
+  demandCurve: { family: 'logistic', referencePrice: 50, midpointPrice: 120, spread: 30 },
 
   averageGas: 150000,
   percentOfMainnetTxs: 2,
@@ -97,4 +100,4 @@ export const uniswapSwapEthDai: TransactionType = {
   feeGwei: 70,  // High fee - time-sensitive DeFi trades
 
   notes: 'Different pool from ETH/USDC - can run in parallel with ETH/USDC swaps but not with other ETH/DAI swaps.',
-};
+});
@@ -1,4 +1,5 @@
 import type { TransactionType } from './types';
+import { withDerivedConsumption } from './consumption';
 
 /**
  * XEN Crypto Free Mint
@@ -12,7 +13,7 @@ import type { TransactionType } from './types';
  * This is a perfect example of how a single resource (state) can be
  * consumed by low-value transactions, blocking higher-value ones.
  */
-export const xenMint: TransactionType = {
+export const xenMint: TransactionType = withDerivedConsumption({
   id: 'xen-mint',
   name: 'XEN Mint',
   description: 'Free mint token - extremely high state usage, very low fee.',
@@ -33,22 +34,30 @@ export const xenMint: TransactionType = {
     ],
   },
 
-  resourceConsumption: {
-    'evm-compute': 0.02,          // 20,000 gas (low compute)
-    'state-access': 2500,         // EXTREMELY HIGH - 2500 state operations per tx!
-    'merklization': 200,          // Many new storage slots to hash
-    'block-verification': 0.02,   // Same as compute
-    'block-distribution': 0.2,    // ~200 bytes tx data
-    'state-growth': 0.5,          // Some new state per mint
-    'history-growth': 0.2,        // ~200 bytes in history
-    'proof-generation': 0.02,     // Same as compute
+  operations: {
+    'calldata-byte': 36,  // claimRank(uint256)
+    'sload-cold': 3,      // Global rank, supply, sender
+    'sstore-set': 2,      // New mint and stake tracking slots
+    'sstore-reset': 3,    // Rank, supply, sender
+    'log': 1,             // RankClaimed event
+    'keccak': 2,          // Mapping slot hashes
+    'compute': 1596,      // Arithmetic, memory, control flow
+  },
+
+  // stateAccess lists only the slots that matter for conflicts; each mint
+  // really touches thousands of trie nodes on its way to fresh storage
+  consumptionOverrides: {
+    'state-access': 2500,
+    'merklization': 200,
   },
 
   baseDemand: 50,
   demandVolatility: 0.9,   // Extremely spiky during "free mint" events
   priceElasticity: 0.95,   // Very elastic - people only mint when gas is low
+  // Minting is only worth it while gas is cheap; nobody mints above 75 gwei
+  demandCurve: { family: 'linear', referencePrice: 50, chokePrice: 75 },
 
-  averageGas: 20000,  // Low gas, massive state impact
+  averageGas: 80000,  // Modest gas, massive state impact
   percentOfMainnetTxs: 0.5,
 
   color: '#666666',  // Gray - "worthless" transactions
@@ -56,4 +65,4 @@ export const xenMint: TransactionType = {
   feeGwei: 5,  // Very low fee - just base gas
 
   notes: 'The poster child for state bloat. Free mints consumed massive state while paying minimal fees, demonstrating why single-dimensional gas pricing fails.',
-};
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBlobBaseFee,
+  calculateExcessBlobGas,
+  choosePostingMode,
+  compareDataPosting,
+  fakeExponential,
+  getPostingCosts,
+  simulateBlobMarket,
+  CANCUN_BLOB_CONFIG,
+  GAS_PER_BLOB,
+  PRAGUE_BLOB_CONFIG,
+} from '../blobs';
+import { runEngine, type EngineConfig } from '../engine';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes, transactionTypes, withBlobPosting } from '@/data/transactions';
+import { rollupBatch } from '@/data/transactions/rollup-batch';
+
+describe('Blob Fee Market', () => {
+  describe('fee update', () => {
+    it('should follow the integer approximation of the spec', () => {
+      expect(fakeExponential(BigInt(1), BigInt(0), BigInt(3_338_477))).toBe(BigInt(1));
+      // e rounds down in integer math
+      expect(fakeExponential(BigInt(1), BigInt(3_338_477), BigInt(3_338_477))).toBe(BigInt(2));
+      expect(Number(fakeExponential(BigInt(1_000_000), BigInt(1), BigInt(1)))).toBeCloseTo(
+        Math.E * 1_000_000,
+        -1
+      );
+    });
+
+    it('should accumulate blob gas above target and floor at zero', () => {
+      const target = PRAGUE_BLOB_CONFIG.targetBlobsPerBlock * GAS_PER_BLOB;
+      expect(calculateExcessBlobGas(0, target - GAS_PER_BLOB)).toBe(0);
+      expect(calculateExcessBlobGas(0, target + 3 * GAS_PER_BLOB)).toBe(3 * GAS_PER_BLOB);
+      expect(calculateExcessBlobGas(GAS_PER_BLOB, target - 2 * GAS_PER_BLOB)).toBe(0);
+    });
+
+    it('should raise the fee ~12.5% per full block under Cancun', () => {
+      const excess = 100_000_000;
+      const fullBlock =
+        (CANCUN_BLOB_CONFIG.maxBlobsPerBlock - CANCUN_BLOB_CONFIG.targetBlobsPerBlock) *
+        GAS_PER_BLOB;
+      const ratio =
+        calculateBlobBaseFee(excess + fullBlock, CANCUN_BLOB_CONFIG) /
+        calculateBlobBaseFee(excess, CANCUN_BLOB_CONFIG);
+      expect(ratio).toBeCloseTo(1.125, 2);
+      expect(calculateBlobBaseFee(0)).toBe(1e-9);
+    });
+  });
+
+  describe('posting choice', () => {
+    it('should drop calldata gas and history from the blob variant', () => {
+      const blobVariant = withBlobPosting(rollupBatch);
+      const calldataBytes = rollupBatch.operations!['calldata-byte']!;
+
+      expect(blobVariant.averageGas).toBe(rollupBatch.averageGas - calldataBytes * 16);
+      expect(blobVariant.resourceConsumption['blob-data']).toBe(1);
+      expect(blobVariant.resourceConsumption['history-growth']).toBeLessThan(
+        rollupBatch.resourceConsumption['history-growth']
+      );
+      expect(withBlobPosting(defaultTransactionTypes[0])).toBe(defaultTransactionTypes[0]);
+    });
+
+    it('should post blobs while they are cheaper than calldata', () => {
+      expect(choosePostingMode(rollupBatch, 20, calculateBlobBaseFee(0))).toBe('blob');
+      expect(choosePostingMode(rollupBatch, 20, 500)).toBe('calldata');
+      expect(choosePostingMode(defaultTransactionTypes[0], 20, 0)).toBe('calldata');
+
+      const costs = getPostingCosts(rollupBatch, 20, 0);
+      expect(costs.calldata).toBe(rollupBatch.averageGas * 20);
+      expect(costs.blob).toBeLessThan(costs.calldata / 5);
+    });
+  });
+
+  describe('compareDataPosting', () => {
+    it('should report the gas and history blobs freed', () => {
+      const comparison = compareDataPosting({ resources, transactionTypes });
+
+      expect(comparison.gasFreedByType[rollupBatch.id]).toBe(100_000 * 16);
+      expect(Object.keys(comparison.gasFreedByType)).toEqual([rollupBatch.id]);
+      expect(comparison.gasFreedShare).toBeGreaterThan(0.05);
+      expect(comparison.blobs.tpsByResource['history-growth']).toBeGreaterThan(
+        comparison.calldata.tpsByResource['history-growth']
+      );
+      expect(comparison.blobs.bottleneck).not.toBe('blob-data');
+      expect(comparison.tpsRatio).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe('simulateBlobMarket', () => {
+    it('should keep the fee at its floor while demand stays at target', () => {
+      const result = simulateBlobMarket({ rollup: rollupBatch, demand: Array(200).fill(6) });
+
+      expect(result.peakBlobBaseFee).toBe(calculateBlobBaseFee(0));
+      expect(result.blobShare).toBe(1);
+      expect(result.averageCostPerBatch).toBeCloseTo(result.blobFloorCostPerBatch, 6);
+    });
+
+    it('should price batches up to calldata when demand exceeds target', () => {
+      const result = simulateBlobMarket({ rollup: rollupBatch, demand: Array(1000).fill(8) });
+      const late = result.blocks.slice(-100);
+      const lateCost = late.reduce((sum, b) => sum + b.costPerBatch, 0) / late.length;
+
+      expect(result.peakBlobBaseFee).toBeGreaterThan(10);
+      expect(result.blobShare).toBeLessThan(1);
+      expect(lateCost).toBeGreaterThan(0.8 * result.calldataCostPerBatch);
+      expect(lateCost).toBeLessThanOrEqual(result.calldataCostPerBatch + 1e-6);
+      expect(late.some((b) => b.batchesViaCalldata > 0)).toBe(true);
+    });
+
+    it('should send batches beyond the block maximum to calldata', () => {
+      const result = simulateBlobMarket({ rollup: rollupBatch, demand: [12] });
+      expect(result.blocks[0].batchesViaBlobs).toBe(PRAGUE_BLOB_CONFIG.maxBlobsPerBlock);
+      expect(result.blocks[0].batchesViaCalldata).toBe(3);
+    });
+  });
+
+  describe('engine', () => {
+    const config: EngineConfig = {
+      resources,
+      transactionMix: [
+        ...defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+        { txType: rollupBatch, weight: 5 },
+      ],
+      scalingSolutions: [],
+      feeMarketModel: 'eip1559',
+      duration: 1200,
+      timestep: 12,
+      eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+      blobMarket: PRAGUE_BLOB_CONFIG,
+    };
+
+    it('should raise the blob fee while rollups fill blobs past target', () => {
+      const { snapshots } = runEngine(config);
+      const last = snapshots[snapshots.length - 1];
+
+      expect(snapshots[0].blobBaseFee).toBe(calculateBlobBaseFee(0));
+      expect(last.blobBaseFee!).toBeGreaterThan(snapshots[0].blobBaseFee!);
+      expect(last.excessBlobGas!).toBeGreaterThan(0);
+      expect(last.resourceStates['blob-data'].utilization).toBeGreaterThan(0);
+    });
+
+    it('should keep blobs out of the execution base fee', () => {
+      const { snapshots } = runEngine(config);
+      // Steps where only blob space is full
+      const full = snapshots.filter(
+        (s, i) =>
+          i > 0 &&
+          Object.values(s.resourceStates).every(
+            (state) => state.utilization < 0.9 || state.resourceId === 'blob-data'
+          ) &&
+          s.resourceStates['blob-data'].utilization === 1
+      );
+      expect(full.length).toBeGreaterThan(0);
+
+      // Counting blobs, these steps would raise the base fee by the maximum 12.5%
+      for (const snapshot of full) {
+        const previous = snapshots[snapshots.indexOf(snapshot) - 1];
+        expect(snapshot.baseFee / previous.baseFee).toBeLessThan(1.1);
+      }
+    });
+
+    it('should leave snapshots without a blob market unchanged', () => {
+      const { snapshots } = runEngine({ ...config, blobMarket: undefined });
+      expect(snapshots[1].blobBaseFee).toBeUndefined();
+      expect(snapshots[1].resourceStates['blob-data'].utilization).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findBottleneck,
+  findExceededResource,
+  getBaseBlockLimits,
+  getBlockFullness,
+  getBlockUsage,
+  packBlock,
+  runBlockSimulation,
+  DEFAULT_BLOCK_PARAMS,
+  type BlockEntry,
+  type BlockSimulationConfig,
+} from '../blocks';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import type { TransactionType } from '@/data/transactions/types';
+import { ethTransfer } from '@/data/transactions/eth-transfer';
+import { uniswapSwapEthUsdc } from '@/data/transactions/uniswap-swap';
+import { nftMint } from '@/data/transactions/nft-mint';
+
+/** Two synthetic types that lean on different resources */
+const computeHeavy = {
+  ...ethTransfer,
+  id: 'compute-heavy',
+  resourceConsumption: { 'evm-compute': 2, 'state-access': 1 },
+} as TransactionType;
+const stateHeavy = {
+  ...ethTransfer,
+  id: 'state-heavy',
+  resourceConsumption: { 'evm-compute': 1, 'state-access': 2 },
+} as TransactionType;
+const twoLimits = { 'evm-compute': 12, 'state-access': 12 };
+
+function totalIncluded(included: Record<string, number>): number {
+  return Object.values(included).reduce((a, b) => a + b, 0);
+}
+
+function withinLimits(entries: BlockEntry[], included: Record<string, number>, limits: Record<string, number>) {
+  const usage = getBlockUsage(
+    entries.map(({ txType }) => ({ txType, count: included[txType.id] ?? 0 })),
+    resources
+  );
+  return Object.entries(limits).every(([id, limit]) => usage[id] <= limit + 1e-9);
+}
+
+const baseConfig: BlockSimulationConfig = {
+  resources,
+  transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+  scalingSolutions: [],
+  duration: 120,
+  eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+  blockParams: DEFAULT_BLOCK_PARAMS,
+};
+
+describe('Block Simulation', () => {
+  describe('packing helpers', () => {
+    it('should sum usage across entries', () => {
+      const usage = getBlockUsage(
+        [
+          { txType: ethTransfer, count: 10 },
+          { txType: uniswapSwapEthUsdc, count: 2 },
+        ],
+        resources
+      );
+      expect(usage['evm-compute']).toBeCloseTo(
+        10 * ethTransfer.resourceConsumption['evm-compute'] +
+          2 * uniswapSwapEthUsdc.resourceConsumption['evm-compute'],
+        9
+      );
+    });
+
+    it('should find the fullest resource', () => {
+      const limits = getBaseBlockLimits(resources);
+      const usage = getBlockUsage([{ txType: nftMint, count: 10 }], resources);
+      const fullness = getBlockFullness(usage, limits);
+      const { resourceId } = findBottleneck(fullness);
+      expect(fullness[resourceId!]).toBe(Math.max(...Object.values(fullness)));
+    });
+
+    it('should report the resource a transaction would overflow', () => {
+      const usage = { 'evm-compute': 11, 'state-access': 0 };
+      expect(findExceededResource(usage, computeHeavy, 1, twoLimits)).toBe('evm-compute');
+      expect(findExceededResource(usage, computeHeavy, 0, twoLimits)).toBeNull();
+    });
+
+    it('should scale base limits by slot time', () => {
+      const limits = getBaseBlockLimits(resources, 12);
+      expect(limits['evm-compute']).toBe(resources[0].maxThroughput * 12);
+    });
+  });
+
+  describe('packBlock', () => {
+    const pending: BlockEntry[] = [
+      { txType: computeHeavy, count: 10 },
+      { txType: stateHeavy, count: 10 },
+    ];
+
+    it('should include everything when it fits', () => {
+      const included = packBlock(pending, { 'evm-compute': 100, 'state-access': 100 }, {
+        builder: 'greedy',
+        objective: 'transactions',
+        baseFee: 20,
+      });
+      expect(included).toEqual({ 'compute-heavy': 10, 'state-heavy': 10 });
+    });
+
+    it('should fill greedily in proportion to pending counts', () => {
+      const included = packBlock(pending, twoLimits, {
+        builder: 'greedy',
+        objective: 'transactions',
+        baseFee: 20,
+      });
+      expect(withinLimits(pending, included, twoLimits)).toBe(true);
+      expect(included['compute-heavy']).toBe(included['state-heavy']);
+      expect(totalIncluded(included)).toBe(8);
+    });
+
+    it('should pack more transactions as a knapsack than greedily', () => {
+      const skewed: BlockEntry[] = [
+        { txType: computeHeavy, count: 30 },
+        { txType: { ...stateHeavy, resourceConsumption: { 'state-access': 0.5 } }, count: 30 },
+      ];
+      const options = { objective: 'transactions' as const, baseFee: 20 };
+      const greedy = packBlock(skewed, twoLimits, { ...options, builder: 'greedy' });
+      const knapsack = packBlock(skewed, twoLimits, { ...options, builder: 'knapsack' });
+
+      expect(withinLimits(skewed, knapsack, twoLimits)).toBe(true);
+      expect(totalIncluded(knapsack)).toBeGreaterThan(totalIncluded(greedy));
+    });
+
+    it('should favor gas-heavy transactions under the fees objective', () => {
+      const heavy = { ...computeHeavy, averageGas: 1_000_000 };
+      const entries: BlockEntry[] = [
+        { txType: heavy, count: 10 },
+        { txType: stateHeavy, count: 10 },
+      ];
+      const included = packBlock(entries, twoLimits, {
+        builder: 'knapsack',
+        objective: 'fees',
+        baseFee: 20,
+      });
+      expect(included['compute-heavy']).toBe(6);
+    });
+  });
+
+  describe('runBlockSimulation', () => {
+    const result = runBlockSimulation(baseConfig);
+
+    it('should produce one block per slot', () => {
+      expect(result.blocks).toHaveLength(10);
+      expect(result.blocks[0].timestamp).toBe(12);
+      expect(result.blocks.map((b) => b.number)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it('should keep every block within its limits', () => {
+      for (const block of result.blocks) {
+        for (const [resourceId, limit] of Object.entries(block.limits)) {
+          expect(block.usage[resourceId]).toBeLessThanOrEqual(limit + 1e-9);
+        }
+        expect(block.utilization).toBe(block.fullness[block.bottleneckResource]);
+      }
+    });
+
+    it('should update the base fee once per block with EIP-1559', () => {
+      for (let i = 1; i < result.blocks.length; i++) {
+        const prev = result.blocks[i - 1];
+        const expected = prev.baseFee * (1 + 0.125 * ((prev.utilization - 0.5) / 0.5));
+        expect(result.blocks[i].baseFee).toBeCloseTo(Math.max(1, expected), 9);
+      }
+    });
+
+    it('should honor explicit block limits', () => {
+      const limited = runBlockSimulation({
+        ...baseConfig,
+        blockParams: { ...DEFAULT_BLOCK_PARAMS, blockLimits: { 'evm-compute': 1 } },
+      });
+      for (const block of limited.blocks) {
+        expect(block.limits['evm-compute']).toBe(1);
+        expect(block.usage['evm-compute']).toBeLessThanOrEqual(1 + 1e-9);
+      }
+      expect(limited.summary.bottleneckResource).toBe('evm-compute');
+    });
+
+    it('should carry unincluded transactions over when queueing', () => {
+      const congested = {
+        ...baseConfig,
+        blockParams: { ...DEFAULT_BLOCK_PARAMS, blockLimits: { 'evm-compute': 1 } },
+      };
+      const queued = runBlockSimulation({
+        ...congested,
+        queueParams: { rationing: 'fifo', mempoolCap: 500 },
+      });
+      const unqueued = runBlockSimulation(congested);
+
+      expect(Math.max(...queued.blocks.map((b) => b.pending))).toBeGreaterThan(1);
+      expect(Math.max(...queued.blocks.map((b) => b.pending))).toBeLessThanOrEqual(500 + 1e-6);
+      for (const block of unqueued.blocks) {
+        expect(block.pending).toBeLessThan(defaultTransactionTypes.length);
+      }
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import {
+  composeMultiplier,
+  getTransactionMultiplier,
+  resolveSolutions,
+} from '../composition';
+import {
+  estimateTPS,
+  explainCapacity,
+  getEffectiveMaxThroughput,
+  runEngine,
+  type EngineConfig,
+} from '../engine';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes, transactionTypes } from '@/data/transactions';
+import { ethTransfer } from '@/data/transactions/eth-transfer';
+import { uniswapSwapEthUsdc } from '@/data/transactions/uniswap-swap';
+import { zkProofVerify } from '@/data/transactions/rollup-batch';
+import {
+  blockAccessLists,
+  customPrecompiles,
+  jitNativeContracts,
+  parallelExecution,
+  riscvVm,
+  speculativeMempoolExec,
+  stateWarming,
+  type ScalingSolution,
+} from '@/data/scaling-solutions';
+
+const evm = resources.find((r) => r.id === 'evm-compute')!;
+
+describe('Solution Composition', () => {
+  describe('resolveSolutions', () => {
+    it('should deactivate solutions missing a prerequisite', () => {
+      const alone = resolveSolutions([parallelExecution]);
+      expect(alone.active).toEqual([]);
+      expect(alone.issues).toEqual([
+        {
+          solutionId: parallelExecution.id,
+          reason: 'missing-prerequisite',
+          relatedIds: [blockAccessLists.id],
+        },
+      ]);
+
+      const both = resolveSolutions([parallelExecution, blockAccessLists]);
+      expect(both.active).toHaveLength(2);
+      expect(both.issues).toEqual([]);
+    });
+
+    it('should keep the earlier of two exclusive solutions', () => {
+      const first = resolveSolutions([jitNativeContracts, riscvVm]);
+      expect(first.active.map((s) => s.id)).toEqual([jitNativeContracts.id]);
+      expect(first.issues[0]).toMatchObject({ solutionId: riscvVm.id, reason: 'excluded' });
+
+      // Exclusions hold whichever side declares them
+      const second = resolveSolutions([riscvVm, jitNativeContracts]);
+      expect(second.active.map((s) => s.id)).toEqual([riscvVm.id]);
+    });
+
+    it('should drop solutions stranded by a dropped prerequisite', () => {
+      const a: ScalingSolution = { ...stateWarming, id: 'a', requires: ['missing'] };
+      const b: ScalingSolution = { ...stateWarming, id: 'b', requires: ['a'] };
+      const { active, issues } = resolveSolutions([b, a]);
+      expect(active).toEqual([]);
+      expect(issues.map((i) => i.solutionId).sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('composeMultiplier', () => {
+    it('should apply the largest multiplier in full and discount the rest', () => {
+      const rules = { 'evm-compute': { diminishingFactor: 0.5 } };
+      const breakdown = composeMultiplier('evm-compute', [stateWarming, speculativeMempoolExec], {
+        rules,
+      });
+
+      expect(breakdown.terms.map((t) => t.solutionIds[0])).toEqual([
+        speculativeMempoolExec.id,
+        stateWarming.id,
+      ]);
+      expect(breakdown.terms[0].applied).toBe(3);
+      expect(breakdown.terms[1].applied).toBeCloseTo(Math.sqrt(1.5), 12);
+      expect(breakdown.multiplier).toBeCloseTo(3 * Math.sqrt(1.5), 12);
+    });
+
+    it('should multiply fully without rules', () => {
+      const breakdown = composeMultiplier('evm-compute', [stateWarming, speculativeMempoolExec], {
+        rules: {},
+      });
+      expect(breakdown.multiplier).toBeCloseTo(4.5, 12);
+    });
+
+    it('should cap the combined multiplier and record the reduction', () => {
+      const rules = { 'evm-compute': { cap: 5 } };
+      const breakdown = composeMultiplier(
+        'evm-compute',
+        [riscvVm, speculativeMempoolExec],
+        { rules }
+      );
+      expect(breakdown.uncapped).toBeCloseTo(30, 12);
+      expect(breakdown.multiplier).toBe(5);
+      expect(breakdown.terms[breakdown.terms.length - 1]).toMatchObject({
+        kind: 'cap',
+        declared: 5,
+      });
+      const product = breakdown.terms.reduce((p, t) => p * t.applied, 1);
+      expect(product).toBeCloseTo(5, 12);
+    });
+
+    it('should add synergies only when both solutions are active', () => {
+      const rules = {};
+      const warming = composeMultiplier('state-access', [stateWarming], { rules });
+      const together = composeMultiplier('state-access', [stateWarming, blockAccessLists], { rules });
+
+      expect(together.multiplier).toBeCloseTo(warming.multiplier * 1.5, 12);
+      expect(together.terms.find((t) => t.kind === 'synergy')?.solutionIds).toEqual([
+        blockAccessLists.id,
+        stateWarming.id,
+      ]);
+    });
+
+    it('should use the scheduled speedup only for an active lane solution', () => {
+      const options = { parallelSpeedup: 8, rules: {} };
+      expect(composeMultiplier('evm-compute', [parallelExecution], options).multiplier).toBe(1);
+      expect(
+        composeMultiplier('evm-compute', [blockAccessLists, parallelExecution], options).multiplier
+      ).toBe(8);
+    });
+  });
+
+  describe('engine', () => {
+    const config: EngineConfig = {
+      resources,
+      transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+      scalingSolutions: [jitNativeContracts, riscvVm, speculativeMempoolExec, stateWarming],
+      feeMarketModel: 'eip1559',
+      duration: 1,
+      timestep: 0.1,
+      eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+      resourceMultipliers: { 'evm-compute': 2 },
+    };
+
+    it('should explain each resource capacity', () => {
+      const explanation = explainCapacity(config);
+      expect(explanation.activeSolutionIds).toEqual([
+        jitNativeContracts.id,
+        speculativeMempoolExec.id,
+        stateWarming.id,
+      ]);
+      expect(explanation.issues.map((i) => i.solutionId)).toEqual([riscvVm.id]);
+
+      const { breakdown, effectiveMaxThroughput } = explanation.resources['evm-compute'];
+      expect(breakdown.terms).toHaveLength(2);
+      expect(effectiveMaxThroughput).toBeCloseTo(
+        getEffectiveMaxThroughput(evm, config.scalingSolutions, config.resourceMultipliers),
+        12
+      );
+      expect(effectiveMaxThroughput).toBeCloseTo(evm.maxThroughput * 2 * breakdown.multiplier, 12);
+    });
+
+    it('should honor composition rule overrides', () => {
+      const full = explainCapacity({ ...config, compositionRules: {} });
+      expect(full.resources['evm-compute'].breakdown.multiplier).toBeCloseTo(4.5, 12);
+      expect(explainCapacity(config).resources['evm-compute'].breakdown.multiplier).toBeLessThan(4.5);
+    });
+  });
+
+  describe('transaction effects', () => {
+    it('should only scale matching transaction types and categories', () => {
+      expect(getTransactionMultiplier(zkProofVerify, 'evm-compute', [customPrecompiles])).toBe(3);
+      expect(getTransactionMultiplier(ethTransfer, 'evm-compute', [customPrecompiles])).toBe(1);
+      expect(getTransactionMultiplier(uniswapSwapEthUsdc, 'evm-compute', [jitNativeContracts])).toBe(3);
+      expect(getTransactionMultiplier(ethTransfer, 'evm-compute', [jitNativeContracts])).toBe(1);
+      // Inactive solutions have no effect
+      expect(
+        getTransactionMultiplier(uniswapSwapEthUsdc, 'evm-compute', [riscvVm, jitNativeContracts])
+      ).toBe(1);
+    });
+
+    it('should only credit precompiles to types that call them', () => {
+      for (const txType of transactionTypes) {
+        const callsPrecompiles = (txType.operations?.precompile ?? 0) > 0;
+        expect(getTransactionMultiplier(txType, 'evm-compute', [customPrecompiles]) > 1).toBe(
+          callsPrecompiles
+        );
+      }
+    });
+
+    it('should barely help a transfer-heavy chain', () => {
+      const transfers = [ethTransfer];
+      const proofs = [zkProofVerify];
+      expect(estimateTPS(resources, transfers, [customPrecompiles])).toBeCloseTo(
+        estimateTPS(resources, transfers, []),
+        9
+      );
+      expect(estimateTPS(resources, proofs, [customPrecompiles])).toBeGreaterThan(
+        estimateTPS(resources, proofs, [])
+      );
+    });
+
+    it('should shrink consumption in the engine without changing capacity', () => {
+      const config: EngineConfig = {
+        resources,
+        transactionMix: [{ txType: zkProofVerify, weight: 1 }],
+        scalingSolutions: [customPrecompiles],
+        feeMarketModel: 'eip1559',
+        duration: 1,
+        timestep: 0.1,
+        eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+      };
+      const plain = runEngine({ ...config, scalingSolutions: [] });
+      const precompiled = runEngine(config);
+      const last = (result: ReturnType<typeof runEngine>) =>
+        result.snapshots[result.snapshots.length - 1].resourceStates['evm-compute'];
+
+      expect(last(precompiled).effectiveMaxThroughput).toBe(last(plain).effectiveMaxThroughput);
+      expect(last(precompiled).utilization).toBeLessThan(last(plain).utilization);
+    });
+  });
+});
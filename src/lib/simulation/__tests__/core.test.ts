@@ -8,11 +8,18 @@ import {
   simulateStep,
   runFullSimulation,
   calculateSimulationStats,
+  toEngineConfig,
   type SimulationConfig,
   type TransactionMixEntry,
   type DemandScenario,
 } from '../core';
-import { normalDay, nftDrop, gradualGrowth } from '../scenarios';
+import { getScenarioTypeMultipliers } from '../engine';
+import { windowedRule } from '../fee-rules';
+import { normalDay, nftDrop, gradualGrowth, stressTest } from '../scenarios';
+import { compileScenario } from '../scenario-dsl';
+import { resources } from '@/data/resources';
+import { ethTransfer } from '@/data/transactions/eth-transfer';
+import { uniswapSwapEthUsdc } from '@/data/transactions/uniswap-swap';
 import type { TransactionType } from '@/data/transactions/types';
 
 // Mock transaction types for testing
@@ -163,6 +170,28 @@ describe('Core Simulation', () => {
 
       expect(spike.total).toBeCloseTo(normal.total * 3, 1);
     });
+
+    it('should apply scenario shocks only to the types they target', () => {
+      const mix: TransactionMixEntry[] = [
+        { txType: mockTransfer, weight: 1 },
+        { txType: mockSwap, weight: 1 },
+      ];
+      const crash = compileScenario({
+        id: 'defi-crash',
+        name: 'DeFi Crash',
+        description: '',
+        duration: 100,
+        components: [{ type: 'piecewise', points: [{ t: 0, value: 1 }] }],
+        shocks: [{ categories: ['defi'], components: [{ type: 'step', at: 0.5, height: 4 }] }],
+      });
+      const typeMultipliers = getScenarioTypeMultipliers(crash, [mockTransfer, mockSwap], 60);
+      expect(typeMultipliers).toEqual({ [mockTransfer.id]: 1, [mockSwap.id]: 4 });
+
+      const normal = calculateDemand(mix, 20, 1);
+      const shocked = calculateDemand(mix, 20, 1, 20, typeMultipliers);
+      expect(shocked.byType[mockTransfer.id]).toBe(normal.byType[mockTransfer.id]);
+      expect(shocked.byType[mockSwap.id]).toBeCloseTo(normal.byType[mockSwap.id] * 4, 9);
+    });
   });
 
   describe('createInitialState', () => {
@@ -252,6 +281,51 @@ describe('Core Simulation', () => {
       expect(nextState.utilization).toBeGreaterThan(0.5);
       expect(nextState.baseFee).toBeGreaterThan(state.baseFee);
     });
+
+    it('should match a full run for rules that look back several steps', () => {
+      const config: SimulationConfig = {
+        ...baseConfig,
+        transactionMix: [
+          { txType: ethTransfer, weight: 1 },
+          { txType: uniswapSwapEthUsdc, weight: 1 },
+        ],
+        scenario: stressTest,
+        baseFeeRule: windowedRule,
+      };
+
+      const full = runFullSimulation(config, 1).states;
+      let state = createInitialState(config);
+      for (let i = 1; i < full.length - 1; i++) {
+        state = simulateStep(state, config, 1);
+        expect(state.baseFee).toBeCloseTo(full[i].baseFee, 6);
+      }
+    });
+
+    it('should keep queued transactions in arrival order across steps', () => {
+      const config: SimulationConfig = {
+        ...baseConfig,
+        // Enough transfer demand that transactions wait several steps
+        transactionMix: [
+          { txType: { ...ethTransfer, baseDemand: 200 }, weight: 1 },
+          { txType: uniswapSwapEthUsdc, weight: 1 },
+        ],
+        scenario: stressTest,
+      };
+
+      const full = runFullSimulation(config, 1).states;
+      let state = createInitialState(config);
+      let carriedOlderCohorts = false;
+      for (let i = 1; i < full.length - 1; i++) {
+        state = simulateStep(state, config, 1);
+        carriedOlderCohorts ||= (state.queue ?? []).some((c) => c.arrivedAt < state.timestamp);
+        expect(state.pendingTxs).toBe(full[i].pendingTxs);
+        for (const [typeId, tps] of Object.entries(full[i].tpsByType)) {
+          expect(state.tpsByType[typeId]).toBeCloseTo(tps, 6);
+        }
+      }
+
+      expect(carriedOlderCohorts).toBe(true);
+    });
   });
 
   describe('runFullSimulation', () => {
@@ -274,7 +348,11 @@ describe('Core Simulation', () => {
       const config: SimulationConfig = {
         gasPerSecond: 2.5,
         techMultiplier: 1,
-        transactionMix: [{ txType: mockTransfer, weight: 1 }],
+        // The drop only shocks mint demand
+        transactionMix: [
+          { txType: mockTransfer, weight: 1 },
+          { txType: { ...mockTransfer, id: 'nft-mint', category: 'nft' }, weight: 1 },
+        ],
         scenario: nftDrop,
         simulationSpeed: 1,
       };
@@ -354,4 +432,36 @@ describe('Core Simulation', () => {
       expect(stats.peakTPS).toBe(0);
     });
   });
+
+  describe('resource-constrained runs', () => {
+    const config: SimulationConfig = {
+      gasPerSecond: 2.5,
+      techMultiplier: 4,
+      transactionMix: [{ txType: ethTransfer, weight: 1 }, { txType: uniswapSwapEthUsdc, weight: 1 }],
+      scenario: stressTest,
+      simulationSpeed: 1,
+      resources,
+    };
+
+    it('should report utilization for every resource', () => {
+      const state = simulateStep(createInitialState(config), config, 1);
+
+      expect(Object.keys(state.resourceUtilization)).toHaveLength(resources.length);
+      expect(state.utilization).toBe(state.resourceUtilization[state.bottleneckResource]);
+    });
+
+    it('should scale every gas-denominated resource with the tech multiplier', () => {
+      const engineConfig = toEngineConfig(config);
+
+      expect(engineConfig.resourceMultipliers?.['evm-compute']).toBe(4);
+      expect(engineConfig.resourceMultipliers?.['block-verification']).toBe(4);
+      expect(engineConfig.resourceMultipliers?.['state-access']).toBeUndefined();
+    });
+
+    it('should default to a gas-only run', () => {
+      const state = createInitialState({ ...config, resources: undefined });
+
+      expect(Object.keys(state.resourceUtilization)).toEqual(['evm-compute']);
+    });
+  });
 });
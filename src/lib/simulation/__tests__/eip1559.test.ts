@@ -328,6 +328,15 @@ describe('EIP-1559 Simulation', () => {
       expect(state1.blocks).toEqual(state2.blocks);
       expect(state1.currentBaseFee).toBe(state2.currentBaseFee);
     });
+
+    it('should be reproducible with a PRNG seed', () => {
+      const state1 = runSimulation(20, 0.5, {}, { noiseLevel: 0.1, seed: 42 });
+      const state2 = runSimulation(20, 0.5, {}, { noiseLevel: 0.1, seed: 42 });
+      const state3 = runSimulation(20, 0.5, {}, { noiseLevel: 0.1, seed: 43 });
+
+      expect(state1.blocks).toEqual(state2.blocks);
+      expect(state3.blocks).not.toEqual(state1.blocks);
+    });
   });
 
   describe('calculateStats', () => {
@@ -391,7 +400,7 @@ describe('EIP-1559 Simulation', () => {
 
       for (let i = 0; i < 50; i++) {
         const demand = calculateDemandResponse(demandLevel, state.currentBaseFee);
-        const utilization = generateUtilization(demand, 0); // No noise for determinism
+        const utilization = generateUtilization(demand, 0, 0.5); // No noise for determinism
         state = processBlock(state, utilization);
       }
 
@@ -411,7 +420,7 @@ describe('EIP-1559 Simulation', () => {
       // Spike to high demand for 10 blocks
       for (let i = 0; i < 10; i++) {
         const demand = calculateDemandResponse(1.0, state.currentBaseFee);
-        const utilization = generateUtilization(demand, 0);
+        const utilization = generateUtilization(demand, 0, 0.5);
         state = processBlock(state, utilization);
       }
 
@@ -427,7 +436,7 @@ describe('EIP-1559 Simulation', () => {
       // Crash to no demand for 30 blocks
       for (let i = 0; i < 30; i++) {
         const demand = calculateDemandResponse(0.1, state.currentBaseFee);
-        const utilization = generateUtilization(demand, 0);
+        const utilization = generateUtilization(demand, 0, 0.5);
         state = processBlock(state, utilization);
       }
 
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runSimulation,
+  runEngine,
+  createEngineState,
+  stepEngine,
+  type SimulationConfig,
+  type EngineConfig,
+} from '../engine';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import { oscillating, stressTest } from '../scenarios';
+import { pidController, lookAheadController } from '../fee-controllers';
+
+const baseConfig: SimulationConfig = {
+  resources,
+  transactionTypes: defaultTransactionTypes,
+  scalingSolutions: [],
+  feeMarketModel: 'eip1559',
+  duration: 30,
+  timestep: 0.1,
+  eip1559Params: {
+    targetUtilization: 0.5,
+    maxChangeRate: 0.125,
+    minBaseFee: 1,
+  },
+};
+
+describe('Engine Simulation', () => {
+  describe('multidim-1559 fee market', () => {
+    const eip1559 = runSimulation(baseConfig);
+    const multidim = runSimulation({ ...baseConfig, feeMarketModel: 'multidim-1559' });
+
+    it('should start at the same price as the single base fee', () => {
+      expect(multidim.snapshots[0].baseFee).toBeCloseTo(eip1559.snapshots[0].baseFee, 6);
+    });
+
+    it('should track one fee per consumed resource', () => {
+      const fees = multidim.snapshots[multidim.snapshots.length - 1].resourceFees;
+      for (const resource of resources) {
+        expect(fees[resource.id]).toBeGreaterThanOrEqual(0);
+      }
+      expect(eip1559.snapshots[1].resourceFees).toEqual({});
+    });
+
+    it('should raise the fee of the bottleneck and lower idle resources', () => {
+      const first = multidim.snapshots[0].resourceFees;
+      const last = multidim.snapshots[multidim.snapshots.length - 1].resourceFees;
+      const bottleneck = multidim.summary.bottleneckResource;
+
+      expect(last[bottleneck]).toBeGreaterThan(first[bottleneck]);
+      expect(last['state-growth']).toBeLessThan(first['state-growth']);
+    });
+
+    it('should report per-resource fee averages and volatility', () => {
+      expect(Object.keys(multidim.summary.averageResourceFees)).toHaveLength(resources.length);
+      expect(Object.keys(multidim.summary.resourceFeeVolatility)).toHaveLength(resources.length);
+      expect(eip1559.summary.averageResourceFees).toEqual({});
+    });
+
+    it('should not reduce throughput compared with a single base fee', () => {
+      expect(multidim.summary.averageTPS).toBeGreaterThanOrEqual(eip1559.summary.averageTPS);
+    });
+  });
+});
+
+describe('ai-oracle fee market', () => {
+  const config: SimulationConfig = { ...baseConfig, duration: 60, scenario: oscillating };
+  const eip1559 = runSimulation(config);
+  const pid = runSimulation({ ...config, feeMarketModel: 'ai-oracle', feeController: pidController });
+  const lookAhead = runSimulation({ ...config, feeMarketModel: 'ai-oracle', feeController: lookAheadController });
+
+  it('should default to the PID controller', () => {
+    const defaulted = runSimulation({ ...config, feeMarketModel: 'ai-oracle' });
+    expect(defaulted.summary.averageBaseFee).toBeCloseTo(pid.summary.averageBaseFee, 6);
+  });
+
+  it('should move the base fee away from its starting value', () => {
+    expect(pid.summary.feeVolatility).toBeGreaterThan(0);
+    expect(lookAhead.summary.feeVolatility).toBeGreaterThan(0);
+  });
+
+  it('should never go below the minimum base fee', () => {
+    for (const result of [pid, lookAhead]) {
+      for (const snapshot of result.snapshots) {
+        expect(snapshot.baseFee).toBeGreaterThanOrEqual(config.eip1559Params.minBaseFee);
+      }
+    }
+  });
+
+  it('should report the same summaries as EIP-1559 for comparison', () => {
+    for (const result of [eip1559, pid, lookAhead]) {
+      expect(Number.isFinite(result.summary.feeVolatility)).toBe(true);
+      expect(result.summary.peakBackpressure['evm-compute']).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should hand the controller a forecast covering its horizon', () => {
+    const seen: number[] = [];
+    runSimulation({
+      ...config,
+      duration: 1,
+      feeMarketModel: 'ai-oracle',
+      feeController: {
+        id: 'probe',
+        name: 'Probe',
+        description: 'Records forecast length',
+        forecastHorizon: 2,
+        nextBaseFee: ({ history, forecast }) => {
+          seen.push(forecast.length);
+          return history[history.length - 1].baseFee;
+        },
+      },
+    });
+    expect(seen.every((n) => n === 20)).toBe(true);
+  });
+});
+
+describe('fixed fee market', () => {
+  const config: SimulationConfig = {
+    ...baseConfig,
+    feeMarketModel: 'fixed',
+    fixedFeeParams: { fee: 20, rationing: 'fifo', mempoolCap: 5_000 },
+  };
+  const fifo = runSimulation(config);
+  const random = runSimulation({
+    ...config,
+    fixedFeeParams: { ...config.fixedFeeParams!, rationing: 'random' },
+  });
+
+  it('should hold the base fee constant', () => {
+    for (const snapshot of fifo.snapshots) {
+      expect(snapshot.baseFee).toBe(20);
+    }
+  });
+
+  it('should queue excess demand instead of pricing it out', () => {
+    expect(fifo.summary.peakTransactionsPending).toBeGreaterThan(0);
+    expect(fifo.summary.averageWaitTime).toBeGreaterThan(0);
+  });
+
+  it('should never exceed the mempool cap', () => {
+    for (const snapshot of [...fifo.snapshots, ...random.snapshots]) {
+      expect(snapshot.transactionsPending).toBeLessThanOrEqual(5_000);
+    }
+  });
+
+  it('should drop arrivals once the mempool is full', () => {
+    const small = runSimulation({
+      ...config,
+      fixedFeeParams: { ...config.fixedFeeParams!, mempoolCap: 100 },
+    });
+    expect(small.summary.peakTransactionsPending).toBeLessThanOrEqual(100);
+    expect(small.summary.totalTransactionsDropped).toBeGreaterThan(0);
+  });
+
+  it('should leave the queue empty under EIP-1559', () => {
+    const eip1559 = runSimulation(baseConfig);
+    expect(eip1559.summary.peakTransactionsPending).toBe(0);
+    expect(eip1559.summary.averageWaitTime).toBe(0);
+  });
+});
+
+describe('unified engine', () => {
+  const engineConfig: EngineConfig = {
+    ...baseConfig,
+    transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+    duration: 5,
+  };
+
+  it('should produce the same snapshots stepwise as in one run', () => {
+    const { snapshots } = runEngine(engineConfig);
+
+    let state = createEngineState(engineConfig);
+    while (!state.isComplete) {
+      state = stepEngine(state, engineConfig);
+    }
+
+    expect(state.history).toHaveLength(snapshots.length);
+    expect(state.history[state.history.length - 1].baseFee).toBeCloseTo(
+      snapshots[snapshots.length - 1].baseFee,
+      9
+    );
+  });
+
+  it('should match the legacy runSimulation adapter for an equally weighted mix', () => {
+    const legacy = runSimulation({ ...baseConfig, duration: 5 });
+    const unified = runEngine(engineConfig);
+
+    expect(legacy.summary.averageTPS).toBeCloseTo(unified.summary.averageTPS, 9);
+  });
+
+  it('should report demand, throughput and bottleneck per step', () => {
+    const { snapshots } = runEngine(engineConfig);
+    const last = snapshots[snapshots.length - 1];
+
+    const tpsSum = Object.values(last.tpsByType).reduce((a, b) => a + b, 0);
+    expect(tpsSum).toBeCloseTo(last.tps, 6);
+    expect(last.totalDemand).toBeGreaterThanOrEqual(last.tps);
+    expect(last.utilization).toBe(last.resourceStates[last.bottleneckResource].utilization);
+  });
+
+  it('should scale capacity by resource multipliers', () => {
+    const state = createEngineState({
+      ...engineConfig,
+      resourceMultipliers: { 'evm-compute': 4 },
+    });
+
+    expect(state.history[0].resourceStates['evm-compute'].effectiveMaxThroughput).toBe(10);
+  });
+
+  it('should queue unmet demand under EIP-1559 when asked to', () => {
+    const queued = runEngine({
+      ...engineConfig,
+      scenario: stressTest,
+      queueParams: { rationing: 'fifo', mempoolCap: Infinity },
+    });
+
+    expect(queued.summary.peakTransactionsPending).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateMarket,
+  solveMultidimensionalEquilibrium,
+  solveSinglePriceEquilibrium,
+  type EquilibriumConfig,
+} from '../equilibrium';
+import { calculateDemand } from '../engine';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes, getDemandAtPrice, integrateDemand } from '@/data/transactions';
+
+const config: EquilibriumConfig = { resources, transactionTypes: defaultTransactionTypes };
+
+describe('Market Equilibrium', () => {
+  describe('demand', () => {
+    it('should price demand on the same curve as the engine', () => {
+      const mix = defaultTransactionTypes.map((txType) => ({ txType, weight: 1 }));
+      for (const price of [5, 12, 44, 250, 800]) {
+        const { byType } = calculateDemand(mix, price, 1, { timestamp: 7 });
+        for (const txType of defaultTransactionTypes) {
+          expect(byType[txType.id]).toBe(getDemandAtPrice(txType, 7, price));
+        }
+      }
+    });
+  });
+
+  describe('single price', () => {
+    const result = solveSinglePriceEquilibrium(config);
+
+    it('should fill the tightest resource exactly', () => {
+      expect(result.cleared).toBe(true);
+      expect(result.bindingResources).toContain('evm-compute');
+      expect(Math.max(...Object.values(result.utilization))).toBeCloseTo(1, 6);
+      expect(evaluateMarket(config, result.price * 0.99).excessDemand).toBeGreaterThan(0);
+      expect(evaluateMarket(config, result.price).excessDemand).toBeCloseTo(0, 6);
+    });
+
+    it('should accept each type’s demand at the clearing price', () => {
+      for (const txType of defaultTransactionTypes) {
+        expect(result.priceByType[txType.id]).toBe(result.price);
+        expect(result.quantities[txType.id]).toBeCloseTo(
+          getDemandAtPrice(txType, 0, result.price),
+          9
+        );
+      }
+    });
+
+    it('should report revenue and consumer surplus', () => {
+      const gas = defaultTransactionTypes.reduce(
+        (sum, t) => sum + result.quantities[t.id] * t.averageGas,
+        0
+      );
+      expect(result.revenue).toBeCloseTo(gas * result.price, 0);
+
+      const surplus = defaultTransactionTypes.reduce(
+        (sum, t) => sum + integrateDemand(t, 0, result.price) * t.averageGas,
+        0
+      );
+      expect(result.consumerSurplus).toBeCloseTo(surplus, 0);
+    });
+
+    it('should raise the price with demand', () => {
+      const doubled = solveSinglePriceEquilibrium({ ...config, demandMultiplier: 2 });
+      expect(doubled.price).toBeGreaterThan(result.price);
+      expect(doubled.revenue).toBeGreaterThan(result.revenue);
+    });
+
+    it('should price spare capacity at zero', () => {
+      const abundant = solveSinglePriceEquilibrium({
+        ...config,
+        capacities: Object.fromEntries(resources.map((r) => [r.id, r.maxThroughput * 100])),
+      });
+      expect(abundant.price).toBe(0);
+      expect(abundant.revenue).toBe(0);
+      expect(abundant.bindingResources).toEqual([]);
+    });
+
+    it('should ration demand that never clears', () => {
+      const scarce = solveSinglePriceEquilibrium({
+        ...config,
+        capacities: { 'evm-compute': 0.01 },
+      });
+      expect(scarce.cleared).toBe(false);
+      expect(scarce.utilization['evm-compute']).toBeCloseTo(1, 9);
+    });
+  });
+
+  describe('multidimensional', () => {
+    const result = solveMultidimensionalEquilibrium(config);
+
+    it('should leave every priced resource at capacity and none over', () => {
+      expect(result.cleared).toBe(true);
+      for (const resource of resources) {
+        expect(result.utilization[resource.id]).toBeLessThanOrEqual(1 + 1e-6);
+        if (result.resourcePrices[resource.id] > 0) {
+          expect(result.utilization[resource.id]).toBeCloseTo(1, 4);
+        }
+      }
+      expect(result.resourcePrices['evm-compute']).toBeGreaterThan(0);
+    });
+
+    it('should charge each type for what it consumes', () => {
+      for (const txType of defaultTransactionTypes) {
+        const price = resources.reduce(
+          (sum, r) =>
+            sum + (txType.resourceConsumption[r.id] || 0) * result.resourcePrices[r.id],
+          0
+        );
+        expect(result.priceByType[txType.id]).toBeCloseTo(price, 9);
+      }
+    });
+
+    it('should raise the price of a resource that binds on its own', () => {
+      const tight = solveMultidimensionalEquilibrium({
+        ...config,
+        capacities: { 'state-access': 100 },
+      });
+      expect(tight.resourcePrices['state-access']).toBeGreaterThan(0);
+      expect(tight.utilization['state-access']).toBeCloseTo(1, 4);
+      expect(tight.bindingResources).toContain('state-access');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  additiveRule,
+  baseFeeRules,
+  createLinearRule,
+  createWindowedRule,
+  eip1559Rule,
+  elasticEip1559Rule,
+  exponentialRule,
+  getBaseFeeRule,
+  windowedRule,
+  type BaseFeeRule,
+} from '../fee-rules';
+import { compareBaseFeeRules } from '../fee-rule-comparison';
+import { calculateNewBaseFee, createInitialState, processBlock } from '../eip1559';
+import { runEngine, type EngineConfig } from '../engine';
+import { runBlockSimulation, DEFAULT_BLOCK_PARAMS } from '../blocks';
+import { oscillating } from '../scenarios';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+
+const params = { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 };
+
+function next(rule: BaseFeeRule, baseFee: number, ...recentUtilization: number[]): number {
+  return rule.nextBaseFee({ baseFee, recentUtilization, params });
+}
+
+const engineConfig: EngineConfig = {
+  resources,
+  transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+  scalingSolutions: [],
+  feeMarketModel: 'eip1559',
+  duration: oscillating.duration,
+  timestep: 1,
+  scenario: oscillating,
+  eip1559Params: params,
+};
+
+describe('Base Fee Rules', () => {
+  describe('linear', () => {
+    it('should move up to maxChangeRate at full and empty blocks', () => {
+      expect(next(eip1559Rule, 100, 1)).toBeCloseTo(112.5, 9);
+      expect(next(eip1559Rule, 100, 0)).toBeCloseTo(87.5, 9);
+      expect(next(eip1559Rule, 100, 0.5)).toBe(100);
+      expect(next(eip1559Rule, 100, 2)).toBeCloseTo(112.5, 9);
+    });
+
+    it('should be the default rule of calculateNewBaseFee', () => {
+      for (const utilization of [0, 0.3, 0.5, 0.8, 1]) {
+        expect(calculateNewBaseFee(40, utilization)).toBe(next(eip1559Rule, 40, utilization));
+      }
+    });
+
+    it('should set the target from an elasticity multiplier', () => {
+      expect(next(elasticEip1559Rule, 100, 0.25)).toBe(100);
+      expect(next(elasticEip1559Rule, 100, 1)).toBeCloseTo(137.5, 9);
+      expect(elasticEip1559Rule.targetUtilization).toBe(0.25);
+      expect(next(createLinearRule({ elasticity: 2 }), 30, 0.9)).toBeCloseTo(
+        next(eip1559Rule, 30, 0.9),
+        9
+      );
+    });
+  });
+
+  describe('exponential', () => {
+    it('should multiply by e^maxChangeRate after a full block', () => {
+      expect(next(exponentialRule, 100, 1)).toBeCloseTo(100 * Math.exp(0.125), 9);
+    });
+
+    it('should depend only on the excess gas, not the order of blocks', () => {
+      const up = next(exponentialRule, next(exponentialRule, 100, 1), 0);
+      const down = next(exponentialRule, next(exponentialRule, 100, 0), 1);
+      expect(up).toBeCloseTo(100, 9);
+      expect(down).toBeCloseTo(100, 9);
+      // The linear rule drifts down over the same blocks
+      expect(next(eip1559Rule, next(eip1559Rule, 100, 1), 0)).toBeLessThan(100);
+    });
+  });
+
+  describe('additive', () => {
+    it('should move by the same gwei at any fee level', () => {
+      expect(next(additiveRule, 10, 1) - 10).toBeCloseTo(2.5, 9);
+      expect(next(additiveRule, 1000, 1) - 1000).toBeCloseTo(2.5, 9);
+      expect(next(additiveRule, 2, 0)).toBe(params.minBaseFee);
+    });
+  });
+
+  describe('windowed', () => {
+    it('should react to the average over its window', () => {
+      const history = [...Array(7).fill(0.5), 1];
+      expect(next(windowedRule, 100, ...history)).toBeCloseTo(100 * (1 + 0.125 / 8), 9);
+      expect(next(windowedRule, 100, 0.2, ...history)).toBeCloseTo(100 * (1 + 0.125 / 8), 9);
+    });
+
+    it('should see previous blocks through processBlock', () => {
+      const rule = createWindowedRule({ window: 2 });
+      let state = createInitialState();
+      state = processBlock(state, 1, { rule });
+      const afterFirst = state.currentBaseFee;
+      state = processBlock(state, 0.5, { rule });
+
+      // The full block still counts in the second average
+      expect(afterFirst).toBeCloseTo(22.5, 9);
+      expect(state.currentBaseFee).toBeCloseTo(afterFirst * (1 + 0.125 / 2), 9);
+    });
+  });
+
+  it('should register every built-in rule by ID', () => {
+    expect(baseFeeRules.map((r) => r.id)).toEqual([
+      'eip1559',
+      'eip1559-x4',
+      'exponential',
+      'additive',
+      'windowed',
+    ]);
+    expect(getBaseFeeRule('windowed')).toBe(windowedRule);
+    expect(getBaseFeeRule('missing')).toBeUndefined();
+  });
+
+  describe('engines', () => {
+    it('should default the engine to the linear rule', () => {
+      const defaulted = runEngine({ ...engineConfig, duration: 60 });
+      const linear = runEngine({ ...engineConfig, duration: 60, baseFeeRule: eip1559Rule });
+      expect(defaulted.summary.averageBaseFee).toBe(linear.summary.averageBaseFee);
+    });
+
+    it('should price every per-resource fee with the rule', () => {
+      const config = { ...engineConfig, duration: 60, feeMarketModel: 'multidim-1559' as const };
+      const linear = runEngine(config);
+      const windowed = runEngine({ ...config, baseFeeRule: windowedRule });
+      expect(windowed.summary.averageBaseFee).not.toBeCloseTo(linear.summary.averageBaseFee, 3);
+    });
+
+    it('should price blocks with the rule', () => {
+      const config = {
+        ...engineConfig,
+        duration: 120,
+        blockParams: DEFAULT_BLOCK_PARAMS,
+      };
+      const linear = runBlockSimulation(config);
+      const additive = runBlockSimulation({ ...config, baseFeeRule: additiveRule });
+      expect(additive.blocks[5].baseFee).not.toBe(linear.blocks[5].baseFee);
+    });
+  });
+
+  describe('compareBaseFeeRules', () => {
+    const runs = compareBaseFeeRules(engineConfig);
+    const byId = Object.fromEntries(runs.map((run) => [run.ruleId, run]));
+
+    it('should run every rule under the same scenario', () => {
+      expect(runs.map((run) => run.ruleId)).toEqual(baseFeeRules.map((r) => r.id));
+      for (const run of runs) {
+        expect(run.snapshots).toHaveLength(oscillating.duration + 1);
+        expect(run.convergenceTime).not.toBeNull();
+        expect(run.targetCrossings).toBeGreaterThan(0);
+      }
+    });
+
+    it('should show the additive rule lagging the oscillation', () => {
+      expect(byId.additive.feeVolatility).toBeLessThan(byId.eip1559.feeVolatility);
+      expect(byId.additive.trackingError).toBeGreaterThan(byId.eip1559.trackingError);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getGrowthPerTransaction,
+  getStateStorageFactor,
+  projectGrowth,
+  type GrowthConfig,
+} from '../growth';
+import { getAnnualStorage, formatStorage, stateGrowth } from '@/data/resources';
+import { nftMint } from '@/data/transactions/nft-mint';
+import { erc20Transfer } from '@/data/transactions/erc20-transfer';
+import { historicalStateIndexing, stateExpiry, triedb } from '@/data/scaling-solutions';
+
+const baseConfig: GrowthConfig = {
+  transactionMix: [
+    { txType: nftMint, weight: 1 },
+    { txType: erc20Transfer, weight: 3 },
+  ],
+  scalingSolutions: [],
+  tps: 20,
+  months: 24,
+};
+
+describe('Growth Projection', () => {
+  it('should compute the state growth note from the resource limit', () => {
+    expect(getAnnualStorage(50)).toBeCloseTo(1577.88, 2);
+    expect(stateGrowth.notes).toContain(`~${formatStorage(getAnnualStorage(50))}/year`);
+  });
+
+  it('should weight per-transaction growth by the mix', () => {
+    const perTx = getGrowthPerTransaction(baseConfig.transactionMix);
+    expect(perTx.state).toBeCloseTo(nftMint.resourceConsumption['state-growth'] / 4, 12);
+    expect(perTx.history).toBeCloseTo(
+      (nftMint.resourceConsumption['history-growth'] +
+        3 * erc20Transfer.resourceConsumption['history-growth']) / 4,
+      12
+    );
+  });
+
+  it('should accumulate linearly at constant TPS', () => {
+    const projection = projectGrowth(baseConfig);
+    const year = projection.points[12];
+
+    expect(projection.points).toHaveLength(25);
+    expect(year.stateSize).toBeCloseTo(projection.annualStateGrowth, 9);
+    expect(year.historySize).toBeCloseTo(projection.annualHistoryGrowth, 9);
+    expect(projection.finalSize).toBeCloseTo(
+      2 * (projection.annualStateGrowth + projection.annualHistoryGrowth),
+      9
+    );
+  });
+
+  it('should start from the initial disk size', () => {
+    const projection = projectGrowth({
+      ...baseConfig,
+      initialStateSize: 250,
+      initialHistorySize: 1000,
+    });
+    expect(projection.points[0].totalSize).toBe(1250);
+  });
+
+  it('should compound TPS growth', () => {
+    const flat = projectGrowth(baseConfig);
+    const growing = projectGrowth({ ...baseConfig, tpsGrowthRate: 1 });
+    expect(growing.points[12].tps).toBeCloseTo(40, 9);
+    expect(growing.finalSize).toBeGreaterThan(flat.finalSize);
+  });
+
+  it('should prune state only after the expiry period', () => {
+    const plain = projectGrowth(baseConfig);
+    const expiring = projectGrowth({ ...baseConfig, scalingSolutions: [stateExpiry] });
+
+    expect(expiring.points[11].stateSize).toBeCloseTo(plain.points[11].stateSize, 9);
+    expect(expiring.points[24].stateSize).toBeLessThan(plain.points[24].stateSize);
+    expect(expiring.points[24].expiredState).toBeCloseTo(
+      plain.points[24].stateSize - expiring.points[24].stateSize,
+      9
+    );
+    // Second-year growth is mostly unexpired, the first year is 1/10 retained
+    const monthly = plain.annualStateGrowth / 12;
+    expect(expiring.points[24].stateSize).toBeCloseTo(monthly * 12 + (monthly * 12) / 10, 9);
+  });
+
+  it('should store less with storage-efficiency solutions', () => {
+    const plain = projectGrowth(baseConfig);
+    const optimized = projectGrowth({
+      ...baseConfig,
+      scalingSolutions: [triedb, historicalStateIndexing],
+    });
+    expect(optimized.annualStateGrowth).toBeCloseTo(plain.annualStateGrowth / 1.5, 9);
+    expect(optimized.annualHistoryGrowth).toBeCloseTo(plain.annualHistoryGrowth / 1.5, 9);
+  });
+
+  it('should compose storage multipliers like capacity multipliers', () => {
+    // Stacked solutions diminish; one missing its prerequisite stores as much
+    const compact = { ...triedb, id: 'compact-trie' };
+    expect(getStateStorageFactor([triedb, compact])).toBeCloseTo(1.5 * Math.pow(1.5, 0.8), 9);
+    expect(getStateStorageFactor([{ ...triedb, requires: ['block-access-lists'] }])).toBe(1);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  backtestBaseFee,
+  createHistoricalScenario,
+  importBlocks,
+  parseBlocksCSV,
+  type HistoricalBlock,
+} from '../history';
+import { runEngine, type EngineConfig } from '../engine';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+
+const GAS_LIMIT = 36_000_000;
+
+/**
+ * Mainnet's integer base fee update in wei (EIP-1559 as specified)
+ */
+function nextBaseFeeWei(parent: bigint, gasUsed: number): bigint {
+  const target = BigInt(GAS_LIMIT / 2);
+  const used = BigInt(gasUsed);
+  if (used === target) return parent;
+  if (used > target) {
+    const delta = (parent * (used - target)) / target / BigInt(8);
+    return parent + (delta > BigInt(1) ? delta : BigInt(1));
+  }
+  return parent - (parent * (target - used)) / target / BigInt(8);
+}
+
+// Deterministic usage swinging above and below target
+const chain = (() => {
+  const rows: { number: number; timestamp: number; gasUsed: number; baseFeeWei: bigint }[] = [];
+  let baseFeeWei = BigInt(3_123_456_789);
+  for (let i = 0; i < 60; i++) {
+    const gasUsed = Math.round(GAS_LIMIT * (0.5 + 0.45 * Math.sin(i / 4)));
+    rows.push({ number: 21_000_000 + i, timestamp: 1_730_000_000 + i * 12, gasUsed, baseFeeWei });
+    baseFeeWei = nextBaseFeeWei(baseFeeWei, gasUsed);
+  }
+  return rows;
+})();
+
+const csv = [
+  'number,timestamp,gas_used,gas_limit,base_fee_per_gas,blob_gas_used',
+  ...chain.map(
+    (b) => `${b.number},${b.timestamp},${b.gasUsed},${GAS_LIMIT},${b.baseFeeWei},${393216}`
+  ),
+].join('\n');
+
+const rpcJson = JSON.stringify(
+  chain.map((b) => ({
+    number: `0x${b.number.toString(16)}`,
+    timestamp: `0x${b.timestamp.toString(16)}`,
+    gasUsed: `0x${b.gasUsed.toString(16)}`,
+    gasLimit: `0x${GAS_LIMIT.toString(16)}`,
+    baseFeePerGas: `0x${b.baseFeeWei.toString(16)}`,
+  }))
+);
+
+describe('Historical Blocks', () => {
+  describe('import', () => {
+    it('should read CSV exports with wei base fees', () => {
+      const blocks = importBlocks(csv);
+      expect(blocks).toHaveLength(60);
+      expect(blocks[0]).toEqual({
+        number: 21_000_000,
+        timestamp: 1_730_000_000,
+        gasUsed: chain[0].gasUsed,
+        gasLimit: GAS_LIMIT,
+        baseFee: 3.123456789,
+        blobGasUsed: 393216,
+      });
+    });
+
+    it('should read hex-encoded JSON-RPC blocks', () => {
+      const fromJson = importBlocks(rpcJson);
+      const fromCsv = importBlocks(csv);
+      expect(fromJson.map((b) => b.baseFee)).toEqual(fromCsv.map((b) => b.baseFee));
+      expect(importBlocks(JSON.stringify({ blocks: JSON.parse(rpcJson) }))).toHaveLength(60);
+    });
+
+    it('should sort blocks and take gwei base fees as they are', () => {
+      const blocks = parseBlocksCSV(
+        'number,timestamp,gasUsed,gasLimit,baseFee\n2,24,10,30,1.5\n1,12,20,30,1.25'
+      );
+      expect(blocks.map((b) => b.number)).toEqual([1, 2]);
+      expect(blocks[1].baseFee).toBe(1.5);
+    });
+
+    it('should name the row with a missing field', () => {
+      expect(() => parseBlocksCSV('number,timestamp,gasUsed,baseFee\n1,12,10,1')).toThrow(
+        'Block 1: missing or invalid gasLimit'
+      );
+    });
+
+    it('should keep commas inside quoted cells', () => {
+      const blocks = parseBlocksCSV(
+        'number,"builder, name",timestamp,gasUsed,gasLimit,baseFee\n' +
+          '1,"Titan ""Builder"", Inc.",12,10,30,"1.5"'
+      );
+      expect(blocks).toEqual([
+        { number: 1, timestamp: 12, gasUsed: 10, gasLimit: 30, baseFee: 1.5 },
+      ]);
+    });
+
+    it('should reject rows whose cells do not match the header', () => {
+      expect(() =>
+        parseBlocksCSV('number,timestamp,gasUsed,gasLimit,baseFee\n1,12,10,30,1.5,Titan, Inc.')
+      ).toThrow('Row 1: expected 5 cells, found 7');
+      expect(() =>
+        parseBlocksCSV('number,timestamp,gasUsed,gasLimit,baseFee\n1,12,10,30,"1.5')
+      ).toThrow('Row 1: unterminated quoted field');
+    });
+  });
+
+  describe('backtest', () => {
+    const blocks = importBlocks(csv);
+
+    it('should reproduce mainnet base fees up to wei rounding', () => {
+      const result = backtestBaseFee(blocks);
+      expect(result.predictions).toHaveLength(59);
+      expect(result.errors.maxAbsoluteError).toBeLessThan(1e-8);
+      expect(result.skipped).toBe(0);
+
+      const recursive = backtestBaseFee(blocks, {}, 'recursive');
+      expect(recursive.errors.meanAbsolutePercentageError).toBeLessThan(1e-6);
+    });
+
+    it('should expose a mis-specified update rule', () => {
+      const fast = backtestBaseFee(blocks, { maxChangeRate: 0.25 });
+      expect(fast.errors.meanAbsolutePercentageError).toBeGreaterThan(0.01);
+
+      // Errors compound when the model feeds on its own predictions
+      const drift = backtestBaseFee(blocks, { maxChangeRate: 0.25 }, 'recursive');
+      expect(drift.errors.meanAbsoluteError).toBeGreaterThan(fast.errors.meanAbsoluteError);
+    });
+
+    it('should skip transitions across gaps', () => {
+      const gapped = blocks.filter((b) => b.number !== 21_000_010);
+      const result = backtestBaseFee(gapped, {}, 'recursive');
+      expect(result.skipped).toBe(1);
+      expect(result.predictions).toHaveLength(57);
+      expect(result.errors.maxAbsoluteError).toBeLessThan(1e-8);
+    });
+  });
+
+  describe('replay', () => {
+    const blocks: HistoricalBlock[] = importBlocks(csv);
+    const scenario = createHistoricalScenario(blocks);
+
+    it('should turn utilization into a demand multiplier', () => {
+      expect(scenario.duration).toBe(59 * 12);
+      expect(scenario.getDemandMultiplier(0)).toBeCloseTo(chain[0].gasUsed / GAS_LIMIT / 0.5, 12);
+      expect(scenario.getDemandMultiplier(10 / 59)).toBeCloseTo(
+        chain[10].gasUsed / GAS_LIMIT / 0.5,
+        9
+      );
+      expect(scenario.definition?.components[0]).toMatchObject({ type: 'piecewise' });
+    });
+
+    it('should drive the engine', () => {
+      const config: EngineConfig = {
+        resources,
+        transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+        scalingSolutions: [],
+        feeMarketModel: 'eip1559',
+        duration: scenario.duration,
+        timestep: 12,
+        eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+        scenario,
+      };
+      const { snapshots } = runEngine(config);
+      const peak = Math.max(...snapshots.map((s) => s.totalDemand));
+      const trough = Math.min(...snapshots.slice(1).map((s) => s.totalDemand));
+      expect(peak).toBeGreaterThan(trough * 3);
+    });
+
+    it('should refuse an empty series', () => {
+      expect(() => createHistoricalScenario([])).toThrow('empty');
+    });
+  });
+});
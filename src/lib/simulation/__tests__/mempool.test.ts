@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildBlock,
+  calculateInclusionDelays,
+  createMempoolState,
+  getEffectiveTip,
+  samplePoisson,
+  sampleWillingnessToPay,
+  stepMempool,
+  DEFAULT_MEMPOOL_CONFIG,
+  type MempoolConfig,
+} from '../mempool';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import { ethTransfer } from '@/data/transactions/eth-transfer';
+import { rollupBatch } from '@/data/transactions/rollup-batch';
+import { uniswapSwapEthUsdc } from '@/data/transactions/uniswap-swap';
+import type { Transaction } from '@/data/transactions/types';
+
+/** Deterministic uniform generator so sampled runs are reproducible */
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function makeTx(id: string, gasPrice: number, priorityFee: number, timestamp = 0): Transaction {
+  return { id, typeId: ethTransfer.id, timestamp, gasPrice, priorityFee, status: 'pending' };
+}
+
+const mix = defaultTransactionTypes.map((txType) => ({ txType, weight: 1 }));
+const capacity = Object.fromEntries(resources.map((r) => [r.id, r.maxThroughput]));
+
+describe('Mempool Simulation', () => {
+  describe('sampling', () => {
+    it('should sample Poisson counts around the mean', () => {
+      const random = lcg(1);
+      for (const mean of [3, 80]) {
+        let total = 0;
+        for (let i = 0; i < 2000; i++) total += samplePoisson(mean, random);
+        expect(total / 2000).toBeCloseTo(mean, 0);
+      }
+    });
+
+    it('should never sample a max fee below the base fee', () => {
+      const random = lcg(2);
+      for (let i = 0; i < 500; i++) {
+        expect(sampleWillingnessToPay(ethTransfer, 0, 40, random)).toBeGreaterThanOrEqual(40);
+      }
+    });
+
+    it('should give inelastic types higher willingness to pay', () => {
+      const inelastic = { ...ethTransfer, priceElasticity: 0.1 };
+      const elastic = { ...ethTransfer, priceElasticity: 0.9 };
+      const mean = (txType: typeof ethTransfer) => {
+        const random = lcg(3);
+        let total = 0;
+        for (let i = 0; i < 1000; i++) total += sampleWillingnessToPay(txType, 0, 20, random);
+        return total / 1000;
+      };
+      expect(mean(inelastic)).toBeGreaterThan(mean(elastic));
+    });
+  });
+
+  describe('buildBlock', () => {
+    const types = { [ethTransfer.id]: ethTransfer };
+
+    it('should include transactions in order of effective tip', () => {
+      const pending = [makeTx('low', 100, 1), makeTx('high', 100, 5), makeTx('mid', 100, 3)];
+      const { included } = buildBlock(pending, 20, resources, capacity, types);
+      expect(included.map((tx) => tx.id)).toEqual(['high', 'mid', 'low']);
+    });
+
+    it('should cap tips at the max fee headroom', () => {
+      // 'capped' offers a 10 gwei tip but only has 1 gwei above the base fee
+      const pending = [makeTx('capped', 21, 10), makeTx('open', 100, 2)];
+      const { included } = buildBlock(pending, 20, resources, capacity, types);
+      expect(included.map((tx) => tx.id)).toEqual(['open', 'capped']);
+    });
+
+    it('should leave priced-out transactions pending', () => {
+      const pending = [makeTx('priced-out', 10, 5), makeTx('ok', 30, 1)];
+      const { included, remaining } = buildBlock(pending, 20, resources, capacity, types);
+      expect(included.map((tx) => tx.id)).toEqual(['ok']);
+      expect(remaining.map((tx) => tx.id)).toEqual(['priced-out']);
+    });
+
+    it('should stop at resource capacity', () => {
+      const pending = Array.from({ length: 10 }, (_, i) => makeTx(`tx-${i}`, 100, i));
+      const evmPerTx = ethTransfer.resourceConsumption['evm-compute'];
+      const limited = { ...capacity, 'evm-compute': evmPerTx * 3 };
+      const { included, remaining } = buildBlock(pending, 20, resources, limited, types);
+      expect(included.map((tx) => tx.id)).toEqual(['tx-9', 'tx-8', 'tx-7']);
+      expect(remaining).toHaveLength(7);
+    });
+  });
+
+  describe('stepMempool', () => {
+    function run(
+      steps: number,
+      params: { baseFee: number; capacity: Record<string, number> },
+      config: MempoolConfig = DEFAULT_MEMPOOL_CONFIG
+    ) {
+      const random = lcg(4);
+      let state = createMempoolState();
+      for (let i = 1; i <= steps; i++) {
+        state = stepMempool(
+          state,
+          { transactionMix: mix, resources, timestamp: i * 0.1, dt: 0.1, ...params },
+          config,
+          random
+        );
+      }
+      return state;
+    }
+
+    it('should be reproducible with the same random source', () => {
+      const a = run(20, { baseFee: 20, capacity });
+      const b = run(20, { baseFee: 20, capacity });
+      expect(a.recent).toEqual(b.recent);
+      expect(a.nextId).toBe(b.nextId);
+    });
+
+    it('should execute everything quickly with ample capacity', () => {
+      const ample = Object.fromEntries(resources.map((r) => [r.id, r.maxThroughput * 100]));
+      const state = run(50, { baseFee: 20, capacity: ample });
+      expect(state.recent.length).toBeGreaterThan(0);
+      expect(state.recent.every((tx) => tx.status === 'executed')).toBe(true);
+
+      const delays = calculateInclusionDelays(state);
+      expect(delays[ethTransfer.id].count).toBeGreaterThan(0);
+      expect(delays[ethTransfer.id].p99).toBeLessThanOrEqual(0.1 + 1e-9);
+    });
+
+    it('should drop transactions that outlive the TTL', () => {
+      const config = { ...DEFAULT_MEMPOOL_CONFIG, ttl: 2 };
+      const noCapacity = Object.fromEntries(resources.map((r) => [r.id, 0]));
+      const steps = 30;
+      const state = run(steps, { baseFee: 20, capacity: noCapacity }, config);
+
+      const dropped = state.recent.filter((tx) => tx.status === 'dropped');
+      expect(dropped.length).toBeGreaterThan(0);
+      for (const tx of dropped) {
+        expect(tx.resolvedAt! - tx.timestamp).toBeGreaterThanOrEqual(config.ttl - 1e-9);
+      }
+      expect(state.pending.every((tx) => steps * 0.1 - tx.timestamp < config.ttl)).toBe(true);
+    });
+
+    it('should include types larger than one step of capacity', () => {
+      const batchMix = [...mix, { txType: rollupBatch, weight: 1 }];
+      const oversized = resources.some(
+        (r) => rollupBatch.resourceConsumption[r.id] > r.maxThroughput * 0.1
+      );
+      expect(oversized).toBe(true);
+
+      const random = lcg(4);
+      let state = createMempoolState();
+      for (let i = 1; i <= 600; i++) {
+        state = stepMempool(
+          state,
+          {
+            transactionMix: batchMix,
+            resources,
+            capacity,
+            baseFee: 20,
+            timestamp: i * 0.1,
+            dt: 0.1,
+          },
+          DEFAULT_MEMPOOL_CONFIG,
+          random
+        );
+      }
+
+      expect(calculateInclusionDelays(state)[rollupBatch.id]?.count).toBeGreaterThan(0);
+    });
+
+    it('should favor high-tip transactions under congestion', () => {
+      const evmPerSwap = uniswapSwapEthUsdc.resourceConsumption['evm-compute'];
+      const tight = { ...capacity, 'evm-compute': evmPerSwap * 200 };
+      const state = run(100, { baseFee: 20, capacity: tight });
+      expect(state.pending.length).toBeGreaterThan(0);
+
+      const meanTip = (txs: Transaction[]) =>
+        txs.reduce((sum, tx) => sum + getEffectiveTip(tx, 20), 0) / txs.length;
+      expect(meanTip(state.recent)).toBeGreaterThan(meanTip(state.pending));
+
+      for (const stats of Object.values(calculateInclusionDelays(state))) {
+        expect(stats.p50).toBeLessThanOrEqual(stats.p90);
+        expect(stats.p90).toBeLessThanOrEqual(stats.p99);
+      }
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo, summarizeSamples } from '../monte-carlo';
+import { createEngineState, runEngine, stepEngine, type EngineConfig } from '../engine';
+import { createRandom, deriveSeed, nextRandom } from '../random';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import { stressTest } from '../scenarios';
+
+const config: EngineConfig = {
+  resources,
+  transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+  scalingSolutions: [],
+  feeMarketModel: 'eip1559',
+  duration: 5,
+  timestep: 0.1,
+  eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+  scenario: stressTest,
+  queueParams: { rationing: 'fifo', mempoolCap: Infinity },
+  demandNoise: 0.3,
+};
+
+describe('Seeded Randomness', () => {
+  it('should replay the same stream from a seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const draws = Array.from({ length: 100 }, () => a());
+    expect(Array.from({ length: 100 }, () => b())).toEqual(draws);
+    expect(draws.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+
+  it('should resume from a saved state', () => {
+    const random = createRandom(7);
+    random();
+    const resumed = createRandom(random.getState());
+    expect(resumed()).toBe(random());
+    expect(nextRandom(7).state).toBe(createRandom(nextRandom(7).state).getState());
+  });
+
+  it('should derive distinct streams', () => {
+    expect(deriveSeed(1, 0)).not.toBe(deriveSeed(1, 1));
+    expect(createRandom(deriveSeed(1, 0))()).not.toBe(createRandom(deriveSeed(1, 1))());
+  });
+});
+
+describe('Engine Noise', () => {
+  it('should be reproducible for a seed and differ across seeds', () => {
+    const a = runEngine({ ...config, seed: 3 });
+    const b = runEngine({ ...config, seed: 3 });
+    const c = runEngine({ ...config, seed: 4 });
+    expect(b.summary).toEqual(a.summary);
+    expect(c.summary.averageBaseFee).not.toBe(a.summary.averageBaseFee);
+  });
+
+  it('should thread the PRNG through stepwise runs', () => {
+    const { snapshots } = runEngine({ ...config, seed: 3 });
+
+    let state = createEngineState({ ...config, seed: 3 });
+    while (!state.isComplete) {
+      state = stepEngine(state, { ...config, seed: 3 });
+    }
+    expect(state.history.map((s) => s.baseFee)).toEqual(snapshots.map((s) => s.baseFee));
+  });
+
+  it('should not draw without noise', () => {
+    const quiet = { ...config, demandNoise: 0 };
+    const state = stepEngine(createEngineState(quiet), quiet);
+    expect(state.rngState).toBe(createEngineState(quiet).rngState);
+  });
+});
+
+describe('Monte Carlo', () => {
+  const result = runMonteCarlo(config, { runs: 20, seed: 11 });
+
+  it('should report ordered percentile bands per timestep', () => {
+    expect(result.runs).toBe(20);
+    expect(result.summaries).toHaveLength(20);
+    for (const band of [...result.bands.baseFee, ...result.bands.tps]) {
+      expect(band.p5).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p95);
+    }
+    expect(result.bands.transactionsPending).toHaveLength(runEngine(config).snapshots.length);
+  });
+
+  it('should spread the peak base fee across runs', () => {
+    expect(result.peaks.baseFee.stdDev).toBeGreaterThan(0);
+    expect(result.peaks.baseFee.p95).toBeGreaterThan(result.peaks.baseFee.p5);
+  });
+
+  it('should be reproducible for a base seed', () => {
+    const again = runMonteCarlo(config, { runs: 20, seed: 11 });
+    expect(again.peaks).toEqual(result.peaks);
+  });
+
+  it('should collapse the bands without noise', () => {
+    const deterministic = runMonteCarlo({ ...config, demandNoise: 0 }, { runs: 3 });
+    expect(deterministic.peaks.baseFee.p95).toBe(deterministic.peaks.baseFee.p5);
+    expect(deterministic.peaks.baseFee.stdDev).toBeCloseTo(0, 9);
+  });
+
+  it('should summarize samples', () => {
+    const samples = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(summarizeSamples(samples)).toMatchObject({ p5: 5, p50: 50, p95: 95, mean: 50.5 });
+  });
+});
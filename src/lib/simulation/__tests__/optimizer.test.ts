@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { solveLP } from '../lp';
+import { optimizeThroughput, type OptimizerConfig } from '../optimizer';
+import { calculateDemand, estimateTPS } from '../engine';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import { ethTransfer } from '@/data/transactions/eth-transfer';
+
+const base: OptimizerConfig = {
+  resources,
+  transactionMix: defaultTransactionTypes.map((txType) => ({
+    txType,
+    weight: txType.percentOfMainnetTxs,
+  })),
+  objective: 'tps',
+};
+
+describe('Linear Programming', () => {
+  it('should solve a textbook problem with its duals', () => {
+    // max 3x + 5y  s.t.  x ≤ 4,  2y ≤ 12,  3x + 2y ≤ 18
+    const solution = solveLP({
+      objective: [3, 5],
+      constraints: [
+        [1, 0],
+        [0, 2],
+        [3, 2],
+      ],
+      bounds: [4, 12, 18],
+    });
+
+    expect(solution.status).toBe('optimal');
+    expect(solution.value).toBeCloseTo(36, 9);
+    expect(solution.x[0]).toBeCloseTo(2, 9);
+    expect(solution.x[1]).toBeCloseTo(6, 9);
+    expect(solution.duals[0]).toBeCloseTo(0, 9);
+    expect(solution.duals[1]).toBeCloseTo(1.5, 9);
+    expect(solution.duals[2]).toBeCloseTo(1, 9);
+  });
+
+  it('should detect unbounded problems', () => {
+    const solution = solveLP({ objective: [1, 1], constraints: [[1, -1]], bounds: [1] });
+    expect(solution.status).toBe('unbounded');
+  });
+
+  it('should handle degenerate zero bounds', () => {
+    // x = y forced by x - y ≤ 0 and y - x ≤ 0
+    const solution = solveLP({
+      objective: [1, 2],
+      constraints: [
+        [1, -1],
+        [-1, 1],
+        [1, 1],
+      ],
+      bounds: [0, 0, 10],
+    });
+    expect(solution.x[0]).toBeCloseTo(5, 9);
+    expect(solution.x[1]).toBeCloseTo(5, 9);
+  });
+
+  it('should reject negative bounds', () => {
+    expect(() => solveLP({ objective: [1], constraints: [[1]], bounds: [-1] })).toThrow();
+  });
+});
+
+describe('Throughput Optimizer', () => {
+  it('should match estimateTPS when the mix is fixed', () => {
+    const fixed = optimizeThroughput({ ...base, mixTolerance: 0 });
+    expect(fixed.tps).toBeCloseTo(estimateTPS(resources, defaultTransactionTypes, []), 6);
+
+    const totalWeight = defaultTransactionTypes.reduce((s, t) => s + t.percentOfMainnetTxs, 0);
+    for (const txType of defaultTransactionTypes) {
+      expect(fixed.allocation[txType.id] / fixed.tps).toBeCloseTo(
+        txType.percentOfMainnetTxs / totalWeight,
+        6
+      );
+    }
+  });
+
+  it('should find more TPS when the mix can shift', () => {
+    const free = optimizeThroughput(base);
+    const loose = optimizeThroughput({ ...base, mixTolerance: 0.5 });
+    const fixed = optimizeThroughput({ ...base, mixTolerance: 0 });
+
+    expect(free.tps).toBeGreaterThan(loose.tps);
+    expect(loose.tps).toBeGreaterThan(fixed.tps);
+  });
+
+  it('should price only binding resources and satisfy strong duality', () => {
+    const result = optimizeThroughput(base);
+    let dualValue = 0;
+    for (const resource of resources) {
+      const price = result.shadowPrices[resource.id];
+      expect(price).toBeGreaterThanOrEqual(-1e-9);
+      if (price > 1e-9) {
+        expect(result.utilization[resource.id]).toBeCloseTo(1, 6);
+        expect(result.bindingResources).toContain(resource.id);
+      }
+      dualValue += price * resource.maxThroughput;
+    }
+    expect(dualValue).toBeCloseTo(result.objectiveValue, 6);
+  });
+
+  it('should never exceed demand at the base fee', () => {
+    const result = optimizeThroughput({ ...base, baseFee: 200 });
+    const demand = calculateDemand(base.transactionMix, 200, 1).byType;
+    for (const txType of defaultTransactionTypes) {
+      expect(result.allocation[txType.id]).toBeLessThanOrEqual(demand[txType.id] + 1e-9);
+    }
+  });
+
+  it('should price gas at the base fee when maximizing revenue', () => {
+    // Without calldata every unit of gas is execution, so gas and evm-compute coincide
+    const result = optimizeThroughput({
+      ...base,
+      transactionMix: [{ txType: { ...ethTransfer, baseDemand: 1000 }, weight: 1 }],
+      objective: 'revenue',
+      baseFee: 20,
+    });
+    expect(result.bindingResources).toEqual(['evm-compute']);
+    expect(result.shadowPrices['evm-compute']).toBeCloseTo(20 * 1e6, 3);
+  });
+
+  it('should clear the market at the surplus shadow prices', () => {
+    const result = optimizeThroughput({ ...base, objective: 'surplus' });
+    expect(result.status).toBe('optimal');
+    expect(result.bindingResources).toContain('evm-compute');
+
+    // Shadow price per gas is the clearing base fee: demand there fills capacity
+    const clearingFee = result.shadowPrices['evm-compute'] / 1e6;
+    const demand = calculateDemand(base.transactionMix, clearingFee, 1).total;
+    expect(demand).toBeGreaterThan(result.tps * 0.85);
+    expect(demand).toBeLessThan(result.tps * 1.15);
+
+    for (const txType of defaultTransactionTypes) {
+      expect(result.feePerTransaction[txType.id]).toBeCloseTo(
+        (txType.resourceConsumption['evm-compute'] || 0) * result.shadowPrices['evm-compute'],
+        3
+      );
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getConflictGroups,
+  getParallelSpeedup,
+  scheduleBlock,
+} from '../parallel';
+import { runEngine, type EngineConfig } from '../engine';
+import { resources } from '@/data/resources';
+import { transactionTypes } from '@/data/transactions';
+import type { TransactionType } from '@/data/transactions/types';
+import { ethTransfer } from '@/data/transactions/eth-transfer';
+import { erc20Transfer } from '@/data/transactions/erc20-transfer';
+import { uniswapSwapEthUsdc, uniswapSwapEthDai } from '@/data/transactions/uniswap-swap';
+import { blockAccessLists, parallelExecution, stateWarming } from '@/data/scaling-solutions';
+
+const LANES = 16;
+
+describe('Parallel Execution Scheduler', () => {
+  describe('getConflictGroups', () => {
+    it('should serialize a type that writes a hot slot', () => {
+      const groups = getConflictGroups([ethTransfer, uniswapSwapEthUsdc]);
+      expect(groups).toHaveLength(1);
+      expect(groups[0].typeIds).toEqual([uniswapSwapEthUsdc.id]);
+      expect(groups[0].slots).toContain('pool:uniswap-v3-eth-usdc');
+    });
+
+    it('should keep swaps on different pools in separate groups', () => {
+      const groups = getConflictGroups([uniswapSwapEthUsdc, uniswapSwapEthDai]);
+      expect(groups).toHaveLength(2);
+    });
+
+    it('should merge types that write the same slot', () => {
+      const otherRouter: TransactionType = { ...uniswapSwapEthUsdc, id: 'aggregator-swap' };
+      const groups = getConflictGroups([uniswapSwapEthUsdc, otherRouter]);
+      expect(groups).toHaveLength(1);
+      expect(groups[0].typeIds).toEqual([uniswapSwapEthUsdc.id, 'aggregator-swap']);
+    });
+
+    it('should not serialize types that only read a hot slot', () => {
+      const oracleRead: TransactionType = {
+        ...ethTransfer,
+        id: 'oracle-read',
+        stateAccess: { reads: [{ type: 'specific', slot: 'oracle:eth-usd' }], writes: [] },
+      };
+      expect(getConflictGroups([oracleRead, { ...oracleRead, id: 'oracle-read-2' }])).toEqual([]);
+    });
+
+    it('should find every hot-slot writer in the registry', () => {
+      const serialTypes = getConflictGroups(transactionTypes).flatMap((g) => g.typeIds);
+      expect(serialTypes).not.toContain(ethTransfer.id);
+      expect(serialTypes).not.toContain(erc20Transfer.id);
+      expect(serialTypes).toContain(uniswapSwapEthUsdc.id);
+    });
+  });
+
+  describe('scheduleBlock', () => {
+    it('should use every lane for conflict-free transfers', () => {
+      const schedule = scheduleBlock({ [ethTransfer.id]: 1000 }, [ethTransfer], LANES);
+      expect(schedule.speedup).toBeCloseTo(LANES, 9);
+      expect(schedule.serialGroups).toEqual([]);
+    });
+
+    it('should not speed up swaps on a single pool', () => {
+      const schedule = scheduleBlock({ [uniswapSwapEthUsdc.id]: 100 }, [uniswapSwapEthUsdc], LANES);
+      expect(schedule.speedup).toBeCloseTo(1, 9);
+    });
+
+    it('should run independent pools side by side', () => {
+      const schedule = scheduleBlock(
+        { [uniswapSwapEthUsdc.id]: 100, [uniswapSwapEthDai.id]: 100 },
+        [uniswapSwapEthUsdc, uniswapSwapEthDai],
+        LANES
+      );
+      expect(schedule.speedup).toBeCloseTo(2, 9);
+    });
+
+    it('should be limited by the largest serial group in a mixed block', () => {
+      const types = [ethTransfer, uniswapSwapEthUsdc];
+      const counts = { [ethTransfer.id]: 100, [uniswapSwapEthUsdc.id]: 10 };
+      const schedule = scheduleBlock(counts, types, LANES);
+
+      const swapWork = 10 * uniswapSwapEthUsdc.resourceConsumption['evm-compute'];
+      const totalWork = swapWork + 100 * ethTransfer.resourceConsumption['evm-compute'];
+      expect(schedule.sequentialWork).toBeCloseTo(totalWork, 9);
+      expect(schedule.makespan).toBeCloseTo(Math.max(swapWork, totalWork / LANES), 9);
+      expect(schedule.speedup).toBeGreaterThan(1);
+      expect(schedule.speedup).toBeLessThan(LANES);
+    });
+
+    it('should re-execute expected collisions on bounded namespaces serially', () => {
+      const account = { type: 'sender' as const, cardinality: 50, skew: 1 };
+      const payment: TransactionType = {
+        ...ethTransfer,
+        id: 'payment',
+        stateAccess: { reads: [account], writes: [account] },
+      };
+      const unbounded = scheduleBlock({ [ethTransfer.id]: 200 }, [ethTransfer], LANES);
+      const bounded = scheduleBlock({ payment: 200 }, [payment], LANES);
+
+      expect(bounded.serialGroups).toHaveLength(1);
+      expect(bounded.serialGroups[0].slots).toEqual([]);
+      expect(bounded.speedup).toBeLessThan(unbounded.speedup);
+    });
+
+    it('should assign all work to lanes', () => {
+      const counts = Object.fromEntries(
+        transactionTypes.map((t) => [t.id, t.percentOfMainnetTxs])
+      );
+      const schedule = scheduleBlock(counts, transactionTypes, LANES);
+      const assigned = schedule.laneLoads.reduce((a, b) => a + b, 0);
+      expect(assigned).toBeCloseTo(schedule.sequentialWork, 9);
+      expect(Math.max(...schedule.laneLoads)).toBeCloseTo(schedule.makespan, 9);
+    });
+  });
+
+  describe('getParallelSpeedup', () => {
+    it('should be 1 without a lane-scheduling solution', () => {
+      expect(getParallelSpeedup([stateWarming], { [ethTransfer.id]: 10 }, [ethTransfer])).toBe(1);
+    });
+
+    it('should schedule onto the lanes of parallel execution', () => {
+      expect(
+        getParallelSpeedup([parallelExecution], { [ethTransfer.id]: 10 }, [ethTransfer])
+      ).toBeCloseTo(parallelExecution.parallelLanes!, 9);
+    });
+  });
+
+  describe('engine integration', () => {
+    const config = (mix: TransactionType[]): EngineConfig => ({
+      resources,
+      transactionMix: mix.map((txType) => ({ txType, weight: 1 })),
+      scalingSolutions: [blockAccessLists, parallelExecution],
+      feeMarketModel: 'eip1559',
+      duration: 5,
+      timestep: 0.1,
+      eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+    });
+
+    it('should give transfer-heavy mixes more execution capacity than swap-heavy ones', () => {
+      const transfers = runEngine(config([ethTransfer, erc20Transfer]));
+      const swaps = runEngine(config([uniswapSwapEthUsdc]));
+      const evmCapacity = (result: ReturnType<typeof runEngine>) =>
+        result.snapshots[result.snapshots.length - 1].resourceStates['evm-compute']
+          .effectiveMaxThroughput;
+
+      const evm = resources.find((r) => r.id === 'evm-compute')!;
+      expect(evmCapacity(transfers)).toBeCloseTo(evm.maxThroughput * LANES, 6);
+      expect(evmCapacity(swaps)).toBeCloseTo(evm.maxThroughput, 6);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { planCapacity, type PlannerConfig } from '../planner';
+import { calculateDemand } from '../engine';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import { scalingSolutions, solutionsById } from '@/data/scaling-solutions';
+
+const base: PlannerConfig = {
+  resources,
+  transactionMix: defaultTransactionTypes.map((txType) => ({
+    txType,
+    weight: txType.percentOfMainnetTxs,
+  })),
+  targetTPS: 100,
+  maxBaseFee: 50,
+};
+
+describe('Capacity Planner', () => {
+  const plan = planCapacity(base);
+
+  it('should require the larger of the target and demand at the max fee', () => {
+    const demand = calculateDemand(base.transactionMix, 50, 1).total;
+    expect(plan.demandAtMaxFee).toBeCloseTo(demand, 9);
+    expect(plan.requiredTPS).toBe(Math.max(100, demand));
+
+    const cheap = planCapacity({ ...base, targetTPS: 1, maxBaseFee: 5 });
+    expect(cheap.requiredTPS).toBeCloseTo(cheap.demandAtMaxFee, 9);
+  });
+
+  it('should size each resource for the target utilization', () => {
+    const evm = plan.requirements.find((r) => r.resourceId === 'evm-compute')!;
+    expect(evm.requiredMultiplier).toBeCloseTo(evm.requiredCapacity / evm.baseCapacity, 12);
+
+    const atFullUtilization = planCapacity({ ...base, targetUtilization: 1 });
+    const evmFull = atFullUtilization.requirements.find((r) => r.resourceId === 'evm-compute')!;
+    expect(evm.requiredCapacity).toBeCloseTo(2 * evmFull.requiredCapacity, 9);
+  });
+
+  it('should put the binding resource first', () => {
+    const multipliers = plan.requirements.map((r) => r.requiredMultiplier);
+    expect(multipliers).toEqual([...multipliers].sort((a, b) => b - a));
+    expect(plan.bindingResource).toBe(plan.requirements[0].resourceId);
+  });
+
+  it('should plan without resources', () => {
+    const empty = planCapacity({ ...base, resources: [] });
+    expect(empty.requirements).toEqual([]);
+    expect(empty.bindingResource).toBeNull();
+    expect(empty.bundles[0]).toMatchObject({ solutionIds: [], bindingResource: null });
+  });
+
+  it('should return feasible bundles, smallest first', () => {
+    expect(plan.bundles.length).toBeGreaterThan(0);
+    for (const bundle of plan.bundles) {
+      expect(bundle.coverage).toBeGreaterThanOrEqual(1);
+      expect(bundle.steps[bundle.steps.length - 1].coverage).toBeCloseTo(bundle.coverage, 12);
+    }
+    const sizes = plan.bundles.map((b) => b.solutionIds.length);
+    expect(sizes).toEqual([...sizes].sort((a, b) => a - b));
+  });
+
+  it('should only return minimal bundles', () => {
+    for (const bundle of plan.bundles) {
+      for (const dropped of bundle.solutionIds) {
+        const rest = bundle.solutionIds.filter((id) => id !== dropped).map((id) => solutionsById[id]);
+        const reduced = planCapacity({ ...base, candidates: rest });
+        expect(reduced.bundles).toEqual([]);
+      }
+    }
+  });
+
+  it('should record the binding resource at each step', () => {
+    const [bundle] = plan.bundles;
+    expect(bundle.steps).toHaveLength(bundle.solutionIds.length + 1);
+    expect(bundle.steps[0]).toMatchObject({ solutionId: null, bindingResource: plan.bindingResource });
+    expect(bundle.steps[0].coverage).toBeLessThan(1);
+    expect(bundle.steps.slice(1).map((s) => s.solutionId).sort()).toEqual(
+      [...bundle.solutionIds].sort()
+    );
+  });
+
+  it('should need no solutions when current capacity suffices', () => {
+    const easy = planCapacity({ ...base, targetTPS: 1, maxBaseFee: 1000 });
+    expect(easy.requirements[0].requiredMultiplier).toBeLessThanOrEqual(1);
+    expect(easy.bundles[0].solutionIds).toEqual([]);
+  });
+
+  it('should flag targets demand never reaches', () => {
+    const huge = planCapacity({ ...base, targetTPS: 1e6, candidates: scalingSolutions });
+    expect(huge.demandLimited).toBe(true);
+    expect(huge.bundles).toEqual([]);
+    expect(plan.demandLimited).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { compareGasSchedules, evaluateGasSchedule } from '../repricing';
+import { estimateTPS } from '../engine';
+import { resources } from '@/data/resources';
+import { transactionTypes, type TransactionType } from '@/data/transactions';
+import { nftMint } from '@/data/transactions/nft-mint';
+import { zkProofVerify } from '@/data/transactions/rollup-batch';
+import { xenMint } from '@/data/transactions/xen-mint';
+import {
+  mainnetGasSchedule,
+  precompileRepricingSchedule,
+  storageRepricingSchedule,
+  temporalRepricingSchedule,
+} from '@/data/gas-schedules';
+
+describe('Gas Repricing', () => {
+  it('should reproduce estimateTPS under the mainnet schedule', () => {
+    const evaluation = evaluateGasSchedule({ resources, transactionTypes }, mainnetGasSchedule);
+    expect(evaluation.tps).toBeCloseTo(estimateTPS(resources, transactionTypes, []), 9);
+    expect(evaluation.gasByType[xenMint.id]).toBe(xenMint.averageGas);
+    expect(evaluation.tpsByResource[evaluation.bottleneck!]).toBe(evaluation.tps);
+  });
+
+  it('should charge state-creating types more under storage repricing', () => {
+    const { baseline, schedules } = compareGasSchedules({ resources, transactionTypes }, [
+      storageRepricingSchedule,
+    ]);
+    const [storage] = schedules;
+
+    expect(storage.gasByType[nftMint.id]).toBeGreaterThan(baseline.gasByType[nftMint.id]);
+    expect(storage.gasByType[xenMint.id]).toBeGreaterThan(baseline.gasByType[xenMint.id]);
+    expect(storage.gasByType['eth-transfer']).toBe(21000);
+    expect(storage.gasRatio).toBeGreaterThan(1);
+    expect(storage.tpsRatio).toBeLessThan(1);
+  });
+
+  it('should let the gas limit bind before state access for XEN mints', () => {
+    const { baseline, schedules } = compareGasSchedules(
+      { resources, transactionTypes: [xenMint] },
+      [storageRepricingSchedule]
+    );
+    expect(baseline.bottleneck).toBe('state-access');
+    expect(schedules[0].bottleneck).toBe('evm-compute');
+    expect(schedules[0].bottleneckChanged).toBe(true);
+  });
+
+  it('should not gain TPS from cheaper precompiles once verification binds', () => {
+    const { baseline, schedules } = compareGasSchedules(
+      { resources, transactionTypes: [zkProofVerify] },
+      [precompileRepricingSchedule]
+    );
+    const [precompile] = schedules;
+
+    // Four pairings at 19,000 gas less each, and four cheaper hashes
+    expect(precompile.gasByType[zkProofVerify.id]).toBe(zkProofVerify.averageGas - 76_064);
+    expect(precompile.tpsByResource['evm-compute']).toBeGreaterThan(
+      baseline.tpsByResource['evm-compute']
+    );
+    // The work is unchanged, so verification now binds at the same TPS
+    expect(precompile.bottleneck).toBe('block-verification');
+    expect(precompile.tps).toBeCloseTo(baseline.tps, 9);
+  });
+
+  it('should leave types without operations at their gas', () => {
+    const { operations: _, ...rest } = nftMint;
+    const opaque: TransactionType = rest;
+    const evaluation = evaluateGasSchedule(
+      { resources, transactionTypes: [opaque] },
+      temporalRepricingSchedule
+    );
+    expect(evaluation.gasByType[nftMint.id]).toBe(nftMint.averageGas);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileScenario,
+  evaluateComponent,
+  parseScenario,
+  serializeScenario,
+  validateScenario,
+} from '../scenario-dsl';
+import { runEngine, type EngineConfig } from '../engine';
+import { scenarios, marketCrash, nftDrop, normalDay, oscillating } from '../scenarios';
+import type { ScenarioDefinition } from '@/data/scenarios';
+import { resources } from '@/data/resources';
+import { ethTransfer } from '@/data/transactions/eth-transfer';
+import { nftMint, nftTransfer } from '@/data/transactions/nft-mint';
+
+// The closures the built-in scenarios were originally written as
+const original: Record<string, (t: number) => number> = {
+  normal: (t) => 1 + 0.2 * Math.sin(t * Math.PI * 4),
+  // Now flat for everyone, with its spike moved to shocks
+  'nft-drop': () => 1,
+  'market-crash': (t) => {
+    if (t < 0.1) return 1;
+    if (t < 0.15) return 1 + ((t - 0.1) / 0.05) * 3;
+    if (t < 0.8) return 4 + Math.sin(t * Math.PI * 8) * 0.8;
+    return 4 - ((t - 0.8) / 0.2) * 2.5;
+  },
+  'gradual-growth': (t) => 0.5 + t * 2.5,
+  'stress-test': (t) => (t < 0.1 ? 1 + t * 40 : 5),
+  oscillating: (t) => 1.75 + 1.25 * Math.sin(t * Math.PI * 6),
+};
+
+function definition(components: ScenarioDefinition['components']): ScenarioDefinition {
+  return { id: 'custom', name: 'Custom', description: '', duration: 100, components };
+}
+
+describe('Scenario DSL', () => {
+  describe('built-in scenarios', () => {
+    for (const scenario of scenarios) {
+      it(`${scenario.name}: should match its original curve`, () => {
+        for (let i = 0; i <= 200; i++) {
+          const t = i / 200;
+          expect(scenario.getDemandMultiplier(t)).toBeCloseTo(original[scenario.id](t), 9);
+        }
+      });
+    }
+
+    it('should switch windows exactly at their boundaries', () => {
+      expect(marketCrash.getDemandMultiplier(0.8)).toBeCloseTo(4, 9);
+      expect(marketCrash.getDemandMultiplier(0.15)).toBeCloseTo(original['market-crash'](0.15), 9);
+    });
+  });
+
+  describe('shocks', () => {
+    it('should spike NFT mints while other types stay flat', () => {
+      expect(nftDrop.getTypeMultiplier?.(nftMint, 0.3)).toBe(20);
+      expect(nftDrop.getTypeMultiplier?.(nftMint, 0)).toBe(1);
+      expect(nftDrop.getTypeMultiplier?.(nftTransfer, 0.4)).toBe(5);
+      expect(nftDrop.getTypeMultiplier?.(ethTransfer, 0.3)).toBe(1);
+      expect(normalDay.getTypeMultiplier).toBeUndefined();
+    });
+
+    it('should multiply overlapping shocks', () => {
+      const scenario = compileScenario({
+        ...definition([{ type: 'piecewise', points: [{ t: 0, value: 1 }] }]),
+        shocks: [
+          { categories: ['nft'], components: [{ type: 'step', at: 0, height: 2 }] },
+          { typeIds: ['nft-mint'], components: [{ type: 'step', at: 0, height: 3 }] },
+        ],
+      });
+      expect(scenario.getTypeMultiplier?.(nftMint, 0.5)).toBe(6);
+      expect(scenario.getTypeMultiplier?.(nftTransfer, 0.5)).toBe(2);
+    });
+
+    it('should shock demand per type in the engine', () => {
+      const config: EngineConfig = {
+        resources,
+        transactionMix: [
+          { txType: ethTransfer, weight: 1 },
+          { txType: nftMint, weight: 1 },
+        ],
+        scalingSolutions: [],
+        feeMarketModel: 'eip1559',
+        duration: 10,
+        timestep: 0.1,
+        eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+        resourceMultipliers: Object.fromEntries(resources.map((r) => [r.id, 1000])),
+        scenario: { ...nftDrop, duration: 10 },
+      };
+      const { snapshots } = runEngine(config);
+      const ratio = (timestamp: number) => {
+        const snapshot = snapshots.find((s) => Math.abs(s.timestamp - timestamp) < 1e-6)!;
+        return snapshot.demandByType[nftMint.id] / snapshot.demandByType[ethTransfer.id];
+      };
+      expect(ratio(3)).toBeGreaterThan(ratio(0.5) * 10);
+    });
+  });
+
+  describe('components', () => {
+    it('should hold piecewise end values outside the points', () => {
+      const component = {
+        type: 'piecewise' as const,
+        points: [
+          { t: 0.2, value: 2 },
+          { t: 0.6, value: 4 },
+        ],
+      };
+      expect(evaluateComponent(component, 0)).toBe(2);
+      expect(evaluateComponent(component, 0.4)).toBeCloseTo(3, 12);
+      expect(evaluateComponent(component, 1)).toBe(4);
+    });
+
+    it('should decay spikes exponentially', () => {
+      const spike = { type: 'spike' as const, at: 0.5, height: 4, decay: 0.1 };
+      expect(evaluateComponent(spike, 0.49)).toBe(0);
+      expect(evaluateComponent(spike, 0.5)).toBe(4);
+      expect(evaluateComponent(spike, 0.6)).toBeCloseTo(4 / Math.E, 12);
+    });
+
+    it('should add steps within their window', () => {
+      const scenario = compileScenario(
+        definition([
+          { type: 'piecewise', points: [{ t: 0, value: 1 }] },
+          { type: 'step', at: 0.3, height: 2, until: 0.5 },
+        ])
+      );
+      expect(scenario.getDemandMultiplier(0.2)).toBe(1);
+      expect(scenario.getDemandMultiplier(0.3)).toBe(3);
+      expect(scenario.getDemandMultiplier(0.5)).toBe(1);
+    });
+
+    it('should scale by seeded noise that is constant within a slice', () => {
+      const noisy = definition([
+        { type: 'piecewise', points: [{ t: 0, value: 2 }] },
+        { type: 'noise', stdDev: 0.3, resolution: 10, seed: 7 },
+      ]);
+      const a = compileScenario(noisy);
+      const b = compileScenario(noisy);
+
+      expect(a.getDemandMultiplier(0.31)).toBe(a.getDemandMultiplier(0.39));
+      expect(a.getDemandMultiplier(0.35)).toBe(b.getDemandMultiplier(0.35));
+      expect(a.getDemandMultiplier(0.35)).not.toBe(a.getDemandMultiplier(0.45));
+      expect(a.getDemandMultiplier(1)).toBe(a.getDemandMultiplier(0.95));
+    });
+
+    it('should never return negative demand', () => {
+      const scenario = compileScenario(
+        definition([{ type: 'sine', amplitude: 1, frequency: 1 }])
+      );
+      expect(scenario.getDemandMultiplier(0.75)).toBe(0);
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept every built-in definition', () => {
+      for (const scenario of scenarios) {
+        expect(validateScenario(scenario.definition)).toEqual([]);
+      }
+    });
+
+    it('should report each problem', () => {
+      const errors = validateScenario({
+        id: 'bad',
+        name: 'Bad',
+        description: '',
+        duration: 0,
+        components: [
+          { type: 'piecewise', points: [{ t: 0.5, value: 1 }, { t: 0.5, value: 2 }] },
+          { type: 'spike', at: 0.1, height: 1, decay: 0 },
+          { type: 'ramp' },
+        ],
+        shocks: [{ components: [] }],
+      });
+      expect(errors).toEqual([
+        'duration must be a positive number',
+        'components[0].points must be sorted by strictly increasing t',
+        'components[1].decay must be positive',
+        'components[2].type must be one of piecewise, sine, spike, step, noise',
+        'shocks[0] must target typeIds or categories',
+        'shocks[0].components must not be empty',
+      ]);
+    });
+
+    it('should refuse to compile an invalid definition', () => {
+      expect(() =>
+        compileScenario(definition([{ type: 'noise', stdDev: -1 }]))
+      ).toThrow('Invalid scenario "custom": components[0].stdDev must not be negative');
+      expect(() => parseScenario('{"id": 1}')).toThrow('Invalid scenario');
+    });
+  });
+
+  describe('serialization', () => {
+    it('should round-trip through JSON', () => {
+      for (const scenario of [normalDay, oscillating, marketCrash]) {
+        const loaded = parseScenario(serializeScenario(scenario));
+        expect(loaded.definition).toEqual(scenario.definition);
+        expect(loaded.getDemandMultiplier(0.37)).toBe(scenario.getDemandMultiplier(0.37));
+      }
+    });
+
+    it('should refuse to serialize closure scenarios', () => {
+      const closure = { ...normalDay, definition: undefined };
+      expect(() => serializeScenario(closure)).toThrow('no definition');
+    });
+  });
+});
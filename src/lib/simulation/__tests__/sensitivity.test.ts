@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  demandCurveParameter,
+  gasPerSecondParameter,
+  linspace,
+  maxChangeRateParameter,
+  priceElasticityParameter,
+  rankTornado,
+  runSweep,
+  runTornado,
+  solutionMultiplierParameter,
+  targetUtilizationParameter,
+  techMultiplierParameter,
+  DEFAULT_SENSITIVITY_PARAMETERS,
+} from '../sensitivity';
+import { runEngine, type EngineConfig } from '../engine';
+import { toEngineConfig } from '../core';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes, getDemandAtPrice } from '@/data/transactions';
+import { xenMint } from '@/data/transactions/xen-mint';
+import { zkProofVerify } from '@/data/transactions/rollup-batch';
+import { blockAccessLists, parallelExecution } from '@/data/scaling-solutions';
+import { stressTest } from '../scenarios';
+
+const base: EngineConfig = {
+  resources,
+  transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+  scalingSolutions: [blockAccessLists, parallelExecution],
+  feeMarketModel: 'eip1559',
+  duration: 10,
+  timestep: 0.5,
+  eip1559Params: { targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 },
+  scenario: stressTest,
+};
+
+describe('Sensitivity Analysis', () => {
+  describe('parameters', () => {
+    it('should set gas capacity on every gas-denominated resource', () => {
+      const config = gasPerSecondParameter.set(base, 5);
+      expect(gasPerSecondParameter.get(config)).toBe(5);
+      for (const resource of config.resources) {
+        const original = resources.find((r) => r.id === resource.id)!;
+        expect(resource.maxThroughput).toBe(
+          resource.unit === 'Mgas/sec' ? 5 : original.maxThroughput
+        );
+      }
+      expect(gasPerSecondParameter.get(base)).toBe(2.5);
+    });
+
+    it('should match the core config conventions', () => {
+      const core = toEngineConfig({
+        gasPerSecond: 3,
+        techMultiplier: 4,
+        transactionMix: base.transactionMix,
+        scenario: stressTest,
+        simulationSpeed: 1,
+        resources,
+      });
+      expect(gasPerSecondParameter.get(core)).toBe(3);
+      expect(techMultiplierParameter.get(core)).toBe(4);
+    });
+
+    it('should vary a solution multiplier and a type elasticity', () => {
+      const solution = solutionMultiplierParameter(parallelExecution.id, 'state-access');
+      const updated = solution.set(base, 7);
+      expect(solution.get(updated)).toBe(7);
+      expect(parallelExecution.multipliers['state-access']).not.toBe(7);
+
+      const typeId = defaultTransactionTypes[0].id;
+      const elasticity = priceElasticityParameter(typeId);
+      expect(elasticity.get(elasticity.set(base, 0.1))).toBe(0.1);
+    });
+
+    it('should vary a declared demand curve through its own shape', () => {
+      const declared: EngineConfig = {
+        ...base,
+        transactionMix: [
+          ...base.transactionMix,
+          { txType: xenMint, weight: 1 },
+          { txType: zkProofVerify, weight: 1 },
+        ],
+      };
+      expect(() => priceElasticityParameter(xenMint.id).get(declared)).toThrow(
+        'xen-mint declares a linear demand curve'
+      );
+
+      const choke = demandCurveParameter(xenMint.id);
+      expect(choke.get(declared)).toBe(75);
+      const wider = choke.set(declared, 150).transactionMix.find((m) => m.txType.id === xenMint.id)!;
+      expect(getDemandAtPrice(wider.txType, 0, 100)).toBeGreaterThan(0);
+      expect(getDemandAtPrice(xenMint, 0, 100)).toBe(0);
+
+      // Reservation tiers move together
+      const tiers = demandCurveParameter(zkProofVerify.id);
+      const doubled = tiers.set(declared, 200).transactionMix.find(
+        (m) => m.txType.id === zkProofVerify.id
+      )!.txType.demandCurve;
+      expect(doubled).toMatchObject({ tiers: [{ price: 200 }, { price: 600 }, { price: 1000 }] });
+
+      // An undeclared type gets its implied hyperbolic curve
+      const transfer = demandCurveParameter(defaultTransactionTypes[0].id);
+      expect(transfer.get(base)).toBe(0.5 + defaultTransactionTypes[0].priceElasticity * 1.5);
+      expect(transfer.get(transfer.set(base, 2))).toBe(2);
+    });
+
+    it('should leave the base config untouched', () => {
+      maxChangeRateParameter.set(base, 0.5);
+      targetUtilizationParameter.set(base, 0.9);
+      expect(base.eip1559Params).toEqual({ targetUtilization: 0.5, maxChangeRate: 0.125, minBaseFee: 1 });
+    });
+  });
+
+  describe('runTornado', () => {
+    const tornado = runTornado(
+      base,
+      DEFAULT_SENSITIVITY_PARAMETERS.map((parameter) => ({ parameter })),
+      'averageTPS'
+    );
+
+    it('should run each parameter at its low and high value', () => {
+      expect(tornado.bars).toHaveLength(DEFAULT_SENSITIVITY_PARAMETERS.length);
+      const gas = tornado.bars.find((b) => b.parameterId === 'gasPerSecond')!;
+      expect(gas.lowValue).toBeCloseTo(2.5 * 0.75, 9);
+      expect(gas.highValue).toBeCloseTo(2.5 * 1.25, 9);
+      expect(gas.highMetric).toBe(
+        runEngine(gasPerSecondParameter.set(base, gas.highValue)).summary.averageTPS
+      );
+      expect(tornado.baseMetric).toBe(runEngine(base).summary.averageTPS);
+    });
+
+    it('should rank parameters by swing', () => {
+      const swings = tornado.bars.map((b) => b.swing);
+      expect(swings).toEqual([...swings].sort((a, b) => b - a));
+      expect(tornado.bars[0].swing).toBeGreaterThan(0);
+    });
+
+    it('should honor explicit bounds and clamp to the valid range', () => {
+      const result = runTornado(
+        base,
+        [{ parameter: targetUtilizationParameter, low: -1, high: 0.75 }],
+        'averageBaseFee'
+      );
+      expect(result.bars[0].lowValue).toBe(targetUtilizationParameter.min);
+      expect(result.bars[0].highValue).toBe(0.75);
+    });
+
+    it('should re-rank by another metric', () => {
+      const byFee = rankTornado(tornado, 'averageBaseFee');
+      expect(byFee.baseMetric).toBe(tornado.baseSummary.averageBaseFee);
+      for (const bar of byFee.bars) {
+        expect(bar.lowMetric).toBe(bar.lowSummary.averageBaseFee);
+      }
+    });
+  });
+
+  describe('runSweep', () => {
+    it('should run every grid combination', () => {
+      const sweep = runSweep(
+        base,
+        { parameter: gasPerSecondParameter, values: [2, 4, 8] },
+        { parameter: maxChangeRateParameter, values: [0.05, 0.25] }
+      );
+
+      expect(sweep.cells).toHaveLength(2);
+      expect(sweep.cells[0]).toHaveLength(3);
+      expect(sweep.cells[1][2]).toMatchObject({ x: 8, y: 0.25 });
+
+      const direct = runEngine(
+        maxChangeRateParameter.set(gasPerSecondParameter.set(base, 8), 0.25)
+      ).summary;
+      expect(sweep.cells[1][2].summary.averageTPS).toBe(direct.averageTPS);
+      // More gas never lowers throughput
+      expect(sweep.cells[0][2].summary.averageTPS).toBeGreaterThanOrEqual(
+        sweep.cells[0][0].summary.averageTPS
+      );
+    });
+
+    it('should space sweep values evenly', () => {
+      expect(linspace(0, 1, 5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+      expect(linspace(3, 9, 1)).toEqual([3]);
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * EIP-4844 Blob Fee Market
+ *
+ * Blobs are a second fee market beside execution gas, with its own target,
+ * maximum and base fee. Unlike calculateNewBaseFee's linear update, the blob
+ * base fee is an exponential of the excess blob gas: blob gas used above
+ * target accumulates, and every block at the maximum multiplies the fee by
+ * the same factor (~1.125 under Cancun's parameters).
+ *
+ * Transaction types with `blobs` (rollup batches) post their data as
+ * calldata or blobs, whichever is cheaper at the current prices:
+ * - compareDataPosting shows the L1 capacity blobs freed up
+ * - simulateBlobMarket shows rollup costs when blob demand exceeds target
+ *
+ * Fees follow the spec in wei internally (BigInt, as clients compute them)
+ * and are returned in gwei like every other fee in the simulation.
+ */
+
+import type { Resource } from '@/data/resources/types';
+import type { ScalingSolution } from '@/data/scaling-solutions/types';
+import type { TransactionType } from '@/data/transactions/types';
+import { withBlobPosting } from '@/data/transactions/consumption';
+import { evaluateMixCapacity, type MixCapacity } from './engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BlobMarketConfig {
+  id: string;
+  name: string;
+  targetBlobsPerBlock: number;
+  maxBlobsPerBlock: number;
+  /** Denominator of the exponent; larger means slower fee changes */
+  updateFraction: number;
+  /** Blob base fee floor in wei */
+  minBlobBaseFee: number;
+  /** Seconds per block */
+  slotTime: number;
+}
+
+export interface BlobMarketState {
+  excessBlobGas: number;
+  /** Blob base fee in gwei */
+  blobBaseFee: number;
+}
+
+/**
+ * How a transaction makes its data available
+ */
+export type PostingMode = 'calldata' | 'blob';
+
+export interface PostingCosts {
+  /** Gwei per transaction posting calldata */
+  calldata: number;
+  /** Gwei per transaction posting blobs: execution gas plus blob gas */
+  blob: number;
+}
+
+export interface DataPostingConfig {
+  resources: Resource[];
+  /** Types with `blobs` are evaluated posting both ways */
+  transactionTypes: TransactionType[];
+  scalingSolutions?: ScalingSolution[];
+}
+
+/**
+ * Capacity of the mix posting one way. tpsByResource includes blob-data, but
+ * blob space has its own market, so it is never the bottleneck.
+ */
+export type PostingEvaluation = MixCapacity;
+
+export interface DataPostingComparison {
+  /** Every blob-capable type posting calldata, as before EIP-4844 */
+  calldata: PostingEvaluation;
+  /** Every blob-capable type posting blobs */
+  blobs: PostingEvaluation;
+  /** Gas each blob-capable type no longer uses, by type ID */
+  gasFreedByType: Record<string, number>;
+  /** Share of the mix's gas freed (0-1), the gas limit returned to other users */
+  gasFreedShare: number;
+  /** blobs.tps over calldata.tps */
+  tpsRatio: number;
+}
+
+/**
+ * Blob demand in one block: the batches rollups want to post
+ */
+export type BlobDemand = number[] | ((block: number) => number);
+
+export interface BlobMarketSimulationOptions {
+  /** The rollup posting batches (must have `blobs`) */
+  rollup: TransactionType;
+  /** Batches wanted per block */
+  demand: BlobDemand;
+  /** Blocks to simulate (defaults to the length of a demand array) */
+  blocks?: number;
+  /** Execution base fee in gwei, held constant (default 20) */
+  baseFee?: number;
+  config?: BlobMarketConfig;
+  initialExcessBlobGas?: number;
+}
+
+export interface BlobMarketBlock {
+  number: number;
+  /** Blob base fee in gwei the block was priced at */
+  blobBaseFee: number;
+  excessBlobGas: number;
+  batchesWanted: number;
+  blobsUsed: number;
+  batchesViaBlobs: number;
+  batchesViaCalldata: number;
+  /** Average gwei paid per batch */
+  costPerBatch: number;
+}
+
+export interface BlobMarketSimulation {
+  blocks: BlobMarketBlock[];
+  /** Gwei per batch posted as calldata at the execution base fee */
+  calldataCostPerBatch: number;
+  /** Gwei per batch posted as blobs at the minimum blob base fee */
+  blobFloorCostPerBatch: number;
+  /** Batch-weighted average gwei per batch over the run */
+  averageCostPerBatch: number;
+  /** Share of batches posted as blobs (0-1) */
+  blobShare: number;
+  peakBlobBaseFee: number;
+}
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+/** Blob gas per blob (one gas per byte) */
+export const GAS_PER_BLOB = 131_072;
+
+const WEI_PER_GWEI = 1e9;
+
+/** EIP-4844, the Dencun fork */
+export const CANCUN_BLOB_CONFIG: BlobMarketConfig = {
+  id: 'cancun',
+  name: 'Cancun (EIP-4844)',
+  targetBlobsPerBlock: 3,
+  maxBlobsPerBlock: 6,
+  updateFraction: 3_338_477,
+  minBlobBaseFee: 1,
+  slotTime: 12,
+};
+
+/** EIP-7691, the Pectra fork */
+export const PRAGUE_BLOB_CONFIG: BlobMarketConfig = {
+  id: 'prague',
+  name: 'Prague (EIP-7691)',
+  targetBlobsPerBlock: 6,
+  maxBlobsPerBlock: 9,
+  updateFraction: 5_007_716,
+  minBlobBaseFee: 1,
+  slotTime: 12,
+};
+
+export const DEFAULT_BLOB_CONFIG = PRAGUE_BLOB_CONFIG;
+
+export const blobMarketConfigs: BlobMarketConfig[] = [CANCUN_BLOB_CONFIG, PRAGUE_BLOB_CONFIG];
+
+// ============================================================================
+// Fee Update
+// ============================================================================
+
+/**
+ * factor × e^(numerator / denominator), approximated with integer math by its
+ * Taylor series exactly as in the EIP-4844 spec
+ */
+export function fakeExponential(factor: bigint, numerator: bigint, denominator: bigint): bigint {
+  let i = BigInt(1);
+  let output = BigInt(0);
+  let accumulator = factor * denominator;
+  while (accumulator > BigInt(0)) {
+    output += accumulator;
+    accumulator = (accumulator * numerator) / (denominator * i);
+    i += BigInt(1);
+  }
+  return output / denominator;
+}
+
+/**
+ * Excess blob gas carried into the next block: blob gas used above target
+ * accumulates, and runs below target pay it back down to zero
+ */
+export function calculateExcessBlobGas(
+  parentExcessBlobGas: number,
+  parentBlobGasUsed: number,
+  config: BlobMarketConfig = DEFAULT_BLOB_CONFIG
+): number {
+  const targetBlobGas = config.targetBlobsPerBlock * GAS_PER_BLOB;
+  return Math.max(0, parentExcessBlobGas + parentBlobGasUsed - targetBlobGas);
+}
+
+/**
+ * Blob base fee in gwei per blob gas for an excess
+ */
+export function calculateBlobBaseFee(
+  excessBlobGas: number,
+  config: BlobMarketConfig = DEFAULT_BLOB_CONFIG
+): number {
+  const wei = fakeExponential(
+    BigInt(config.minBlobBaseFee),
+    BigInt(Math.round(excessBlobGas)),
+    BigInt(config.updateFraction)
+  );
+  return Number(wei) / WEI_PER_GWEI;
+}
+
+/**
+ * Blob market at a given excess (zero by default)
+ */
+export function createBlobMarketState(
+  config: BlobMarketConfig = DEFAULT_BLOB_CONFIG,
+  excessBlobGas: number = 0
+): BlobMarketState {
+  return { excessBlobGas, blobBaseFee: calculateBlobBaseFee(excessBlobGas, config) };
+}
+
+/**
+ * The market after a block that included `blobsUsed` blobs
+ */
+export function processBlobBlock(
+  state: BlobMarketState,
+  blobsUsed: number,
+  config: BlobMarketConfig = DEFAULT_BLOB_CONFIG
+): BlobMarketState {
+  const excessBlobGas = calculateExcessBlobGas(
+    state.excessBlobGas,
+    blobsUsed * GAS_PER_BLOB,
+    config
+  );
+  return { excessBlobGas, blobBaseFee: calculateBlobBaseFee(excessBlobGas, config) };
+}
+
+// ============================================================================
+// Posting Choice
+// ============================================================================
+
+/**
+ * What one transaction pays to post its data either way, in gwei.
+ * Types without `blobs` cost the same either way.
+ */
+export function getPostingCosts(
+  txType: TransactionType,
+  baseFee: number,
+  blobBaseFee: number
+): PostingCosts {
+  const calldata = txType.averageGas * baseFee;
+  if (!txType.blobs) return { calldata, blob: calldata };
+
+  const blobGas = txType.blobs * GAS_PER_BLOB;
+  return {
+    calldata,
+    blob: withBlobPosting(txType).averageGas * baseFee + blobGas * blobBaseFee,
+  };
+}
+
+/**
+ * Cheaper way for a transaction to post its data; calldata on a tie
+ */
+export function choosePostingMode(
+  txType: TransactionType,
+  baseFee: number,
+  blobBaseFee: number
+): PostingMode {
+  if (!txType.blobs) return 'calldata';
+  const costs = getPostingCosts(txType, baseFee, blobBaseFee);
+  return costs.blob < costs.calldata ? 'blob' : 'calldata';
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+function evaluatePosting(
+  resources: Resource[],
+  types: TransactionType[],
+  scalingSolutions: ScalingSolution[]
+): PostingEvaluation {
+  return evaluateMixCapacity(resources, types, scalingSolutions, 'blob-data');
+}
+
+/**
+ * L1 capacity with every blob-capable type posting calldata versus blobs.
+ * The gas freed goes back to every other user of the gas limit, and the
+ * bytes freed never become permanent history.
+ */
+export function compareDataPosting(config: DataPostingConfig): DataPostingComparison {
+  const { resources, transactionTypes, scalingSolutions = [] } = config;
+  const blobTypes = transactionTypes.map(withBlobPosting);
+
+  const calldata = evaluatePosting(resources, transactionTypes, scalingSolutions);
+  const blobs = evaluatePosting(resources, blobTypes, scalingSolutions);
+
+  const gasFreedByType: Record<string, number> = {};
+  transactionTypes.forEach((txType, i) => {
+    if (txType.blobs) gasFreedByType[txType.id] = txType.averageGas - blobTypes[i].averageGas;
+  });
+
+  return {
+    calldata,
+    blobs,
+    gasFreedByType,
+    gasFreedShare:
+      calldata.averageGas > 0 ? 1 - blobs.averageGas / calldata.averageGas : 0,
+    tpsRatio: calldata.tps > 0 ? blobs.tps / calldata.tps : 1,
+  };
+}
+
+function getBlobDemand(demand: BlobDemand, block: number): number {
+  return typeof demand === 'function' ? demand(block) : demand[block] ?? 0;
+}
+
+/**
+ * Block-by-block blob market for one rollup's batches.
+ *
+ * While blobs are cheaper, batches go into blobs up to the block maximum and
+ * the rest fall back to calldata. Demand above target raises the blob base
+ * fee exponentially until blobs cost as much as calldata; from there rollups
+ * switch back and forth, so sustained excess demand prices batches at the
+ * calldata cost and the blob discount disappears.
+ * @throws If the rollup cannot post blobs
+ */
+export function simulateBlobMarket(options: BlobMarketSimulationOptions): BlobMarketSimulation {
+  const { rollup, demand, baseFee = 20, config = DEFAULT_BLOB_CONFIG } = options;
+  if (!rollup.blobs) throw new Error(`Transaction type "${rollup.id}" cannot post blobs`);
+
+  const blockCount = options.blocks ?? (Array.isArray(demand) ? demand.length : 0);
+  const maxBatches = Math.floor(config.maxBlobsPerBlock / rollup.blobs);
+  const calldataCost = getPostingCosts(rollup, baseFee, 0).calldata;
+
+  let state = createBlobMarketState(config, options.initialExcessBlobGas);
+  const blocks: BlobMarketBlock[] = [];
+  let totalBatches = 0;
+  let totalBlobBatches = 0;
+  let totalCost = 0;
+
+  for (let number = 0; number < blockCount; number++) {
+    const batchesWanted = Math.max(0, getBlobDemand(demand, number));
+    const costs = getPostingCosts(rollup, baseFee, state.blobBaseFee);
+    const batchesViaBlobs = costs.blob < costs.calldata ? Math.min(batchesWanted, maxBatches) : 0;
+    const batchesViaCalldata = batchesWanted - batchesViaBlobs;
+    const blockCost = batchesViaBlobs * costs.blob + batchesViaCalldata * costs.calldata;
+    const blobsUsed = batchesViaBlobs * rollup.blobs;
+
+    blocks.push({
+      number,
+      blobBaseFee: state.blobBaseFee,
+      excessBlobGas: state.excessBlobGas,
+      batchesWanted,
+      blobsUsed,
+      batchesViaBlobs,
+      batchesViaCalldata,
+      costPerBatch: batchesWanted > 0 ? blockCost / batchesWanted : costs.blob,
+    });
+
+    totalBatches += batchesWanted;
+    totalBlobBatches += batchesViaBlobs;
+    totalCost += blockCost;
+    state = processBlobBlock(state, blobsUsed, config);
+  }
+
+  return {
+    blocks,
+    calldataCostPerBatch: calldataCost,
+    blobFloorCostPerBatch: getPostingCosts(rollup, baseFee, calculateBlobBaseFee(0, config)).blob,
+    averageCostPerBatch: totalBatches > 0 ? totalCost / totalBatches : 0,
+    blobShare: totalBatches > 0 ? totalBlobBatches / totalBatches : 0,
+    peakBlobBaseFee: Math.max(0, ...blocks.map((block) => block.blobBaseFee)),
+  };
+}
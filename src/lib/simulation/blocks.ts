@@ -0,0 +1,534 @@
+/**
+ * Block-Level Simulation
+ *
+ * Discrete block mode for the engine. Instead of continuous per-second flows,
+ * transactions accumulate over a slot and a builder packs them into a block
+ * that has a limit for every resource. The base fee is updated once per block
+ * with processBlock from eip1559.ts.
+ *
+ * The packing helpers at the top of this file are shared with
+ * BlockPackingSlide, so the slide and the simulation agree on what "full" means.
+ */
+
+import type { Resource, ResourceId } from '@/data/resources/types';
+import type { TransactionType } from '@/data/transactions/types';
+import {
+  calculateDemand,
+  getEffectiveMaxThroughput,
+  getDemandNoise,
+  getScenarioMultiplier,
+  getScenarioTypeMultipliers,
+  withTransactionEffects,
+  type EngineConfig,
+} from './engine';
+import { createInitialState, processBlock, type SimulationState as FeeState } from './eip1559';
+import { getParallelSpeedup } from './parallel';
+import { createRandom, DEFAULT_SEED } from './random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the builder chooses which pending transactions go into a block
+ * - 'greedy': first-fit in arrival order, every type in proportion to its
+ *   pending count, until no more transactions fit
+ * - 'knapsack': maximize the objective across all resource limits at once
+ */
+export type BlockBuilderStrategy = 'greedy' | 'knapsack';
+
+/**
+ * What the knapsack builder maximizes
+ * - 'transactions': number of included transactions
+ * - 'fees': base fee × gas paid by the included transactions
+ */
+export type BlockObjective = 'transactions' | 'fees';
+
+export interface BlockParams {
+  /** Seconds between blocks */
+  slotTime: number;
+  /**
+   * Per-block limit for each resource, in resource units.
+   * Missing resources default to effective capacity × slotTime.
+   */
+  blockLimits?: Partial<Record<ResourceId, number>>;
+  builder: BlockBuilderStrategy;
+  objective: BlockObjective;
+}
+
+export const DEFAULT_BLOCK_PARAMS: BlockParams = {
+  slotTime: 12,
+  builder: 'greedy',
+  objective: 'transactions',
+};
+
+/**
+ * Block simulation configuration. Uses the engine's demand, resource and
+ * EIP-1559 settings; pricing is always per-block, with baseFeeRule (default
+ * the linear EIP-1559 rule).
+ */
+export interface BlockSimulationConfig
+  extends Pick<
+    EngineConfig,
+    | 'resources'
+    | 'transactionMix'
+    | 'scalingSolutions'
+    | 'duration'
+    | 'eip1559Params'
+    | 'baseFeeRule'
+    | 'scenario'
+    | 'demandModel'
+    | 'resourceMultipliers'
+    | 'compositionRules'
+    | 'queueParams'
+    | 'demandNoise'
+    | 'seed'
+  > {
+  blockParams: BlockParams;
+}
+
+/**
+ * A number of transactions of one type in a block
+ */
+export interface BlockEntry {
+  txType: TransactionType;
+  count: number;
+}
+
+export interface SimulatedBlock {
+  number: number;
+  /** Time the block was produced, in seconds */
+  timestamp: number;
+  /** Base fee the block was built at (gwei) */
+  baseFee: number;
+  /** Included transactions per type */
+  included: Record<string, number>;
+  transactionCount: number;
+  /** Resource units used by the block */
+  usage: Record<string, number>;
+  /** Resource limits the block was built against */
+  limits: Record<string, number>;
+  /** usage / limit per resource (0-1) */
+  fullness: Record<string, number>;
+  bottleneckResource: string;
+  /** Fullness of the bottleneck resource; drives the base fee update */
+  utilization: number;
+  /** Transactions left waiting after the block */
+  pending: number;
+}
+
+export interface BlockSimulationResult {
+  blocks: SimulatedBlock[];
+  summary: {
+    averageTPS: number;
+    averageBaseFee: number;
+    averageFullness: Record<string, number>;
+    /** Resource with the highest average fullness */
+    bottleneckResource: string;
+    totalTransactions: number;
+  };
+}
+
+// ============================================================================
+// Packing Helpers
+// ============================================================================
+
+/**
+ * Resource limits from base capacity over a period (1 second by default)
+ */
+export function getBaseBlockLimits(
+  resources: Resource[],
+  slotTime: number = 1
+): Record<string, number> {
+  return Object.fromEntries(resources.map((r) => [r.id, r.maxThroughput * slotTime]));
+}
+
+/**
+ * Resource units used by a set of block entries
+ */
+export function getBlockUsage(
+  entries: BlockEntry[],
+  resources: Resource[]
+): Record<string, number> {
+  const usage: Record<string, number> = {};
+  for (const resource of resources) {
+    usage[resource.id] = 0;
+    for (const { txType, count } of entries) {
+      usage[resource.id] += (txType.resourceConsumption[resource.id] || 0) * count;
+    }
+  }
+  return usage;
+}
+
+/**
+ * Fullness of each resource as usage / limit
+ */
+export function getBlockFullness(
+  usage: Record<string, number>,
+  limits: Record<string, number>
+): Record<string, number> {
+  const fullness: Record<string, number> = {};
+  for (const [resourceId, limit] of Object.entries(limits)) {
+    fullness[resourceId] = limit > 0 ? (usage[resourceId] || 0) / limit : 0;
+  }
+  return fullness;
+}
+
+/**
+ * The fullest resource (null when nothing is used)
+ */
+export function findBottleneck(
+  fullness: Record<string, number>
+): { resourceId: string | null; fullness: number } {
+  let resourceId: string | null = null;
+  let max = 0;
+  for (const [id, value] of Object.entries(fullness)) {
+    if (value > max) {
+      max = value;
+      resourceId = id;
+    }
+  }
+  return { resourceId, fullness: max };
+}
+
+/**
+ * First resource whose limit would be exceeded by adding count transactions
+ * (null if they fit)
+ */
+export function findExceededResource(
+  usage: Record<string, number>,
+  txType: TransactionType,
+  count: number,
+  limits: Record<string, number>
+): string | null {
+  for (const [resourceId, limit] of Object.entries(limits)) {
+    const added = (txType.resourceConsumption[resourceId] || 0) * count;
+    if ((usage[resourceId] || 0) + added > limit + 1e-9) {
+      return resourceId;
+    }
+  }
+  return null;
+}
+
+/**
+ * How many transactions of a type still fit in the remaining capacity
+ */
+function getRoomFor(
+  txType: TransactionType,
+  usage: Record<string, number>,
+  limits: Record<string, number>
+): number {
+  let room = Infinity;
+  for (const [resourceId, limit] of Object.entries(limits)) {
+    const consumption = txType.resourceConsumption[resourceId] || 0;
+    if (consumption > 0) {
+      room = Math.min(room, Math.floor((limit - (usage[resourceId] || 0)) / consumption + 1e-9));
+    }
+  }
+  return Math.max(0, room);
+}
+
+function include(
+  txType: TransactionType,
+  count: number,
+  usage: Record<string, number>,
+  included: Record<string, number>
+): void {
+  if (count <= 0) return;
+  included[txType.id] = (included[txType.id] ?? 0) + count;
+  for (const resourceId of Object.keys(usage)) {
+    usage[resourceId] += (txType.resourceConsumption[resourceId] || 0) * count;
+  }
+}
+
+// ============================================================================
+// Block Builders
+// ============================================================================
+
+/**
+ * First-fit in arrival order. Arrivals interleave, so every type is included
+ * in proportion to its pending count until a resource fills; types that still
+ * fit keep filling what is left.
+ */
+function packGreedy(
+  pending: BlockEntry[],
+  limits: Record<string, number>
+): Record<string, number> {
+  const usage: Record<string, number> = Object.fromEntries(Object.keys(limits).map((id) => [id, 0]));
+  const included: Record<string, number> = {};
+  const remaining = new Map(pending.map(({ txType, count }) => [txType, Math.floor(count)]));
+
+  while (true) {
+    const active = Array.from(remaining.entries()).filter(([, count]) => count > 0);
+    if (active.length === 0) break;
+
+    // Largest share of every active type that still fits
+    let share = 1;
+    for (const [resourceId, limit] of Object.entries(limits)) {
+      const desired = active.reduce(
+        (sum, [txType, count]) => sum + (txType.resourceConsumption[resourceId] || 0) * count,
+        0
+      );
+      if (desired > 0) share = Math.min(share, (limit - usage[resourceId]) / desired);
+    }
+
+    let progress = false;
+    for (const [txType, count] of active) {
+      const added = Math.min(count, Math.floor(count * Math.max(0, share) + 1e-9));
+      include(txType, added, usage, included);
+      remaining.set(txType, count - added);
+      if (added > 0) progress = true;
+    }
+
+    // Top up one transaction at a time; types that no longer fit are done
+    for (const [txType] of active) {
+      const count = remaining.get(txType) ?? 0;
+      if (count <= 0) continue;
+      if (getRoomFor(txType, usage, limits) >= 1) {
+        include(txType, 1, usage, included);
+        remaining.set(txType, count - 1);
+        progress = true;
+      } else {
+        remaining.set(txType, 0);
+      }
+    }
+
+    if (!progress) break;
+  }
+
+  return included;
+}
+
+/**
+ * Multidimensional knapsack by dual prices (primal-dual heuristic).
+ *
+ * Each resource gets a price; types are filled in order of value per priced
+ * unit of capacity. Prices of resources that end up full are raised and the
+ * fill is repeated, keeping the best block. The greedy block is always a
+ * candidate, so the knapsack never does worse than greedy.
+ */
+function packKnapsack(
+  pending: BlockEntry[],
+  limits: Record<string, number>,
+  value: (txType: TransactionType) => number,
+  iterations: number = 30
+): Record<string, number> {
+  const score = (included: Record<string, number>) =>
+    pending.reduce((sum, { txType }) => sum + value(txType) * (included[txType.id] ?? 0), 0);
+
+  let best = packGreedy(pending, limits);
+  let bestScore = score(best);
+
+  const prices: Record<string, number> = {};
+  for (const [resourceId, limit] of Object.entries(limits)) {
+    prices[resourceId] = limit > 0 ? 1 / limit : 0;
+  }
+
+  for (let i = 0; i < iterations; i++) {
+    const cost = (txType: TransactionType) =>
+      Object.keys(limits).reduce(
+        (sum, id) => sum + (txType.resourceConsumption[id] || 0) * prices[id],
+        0
+      );
+    const ordered = [...pending].sort(
+      (a, b) => value(b.txType) / (cost(b.txType) || 1e-12) - value(a.txType) / (cost(a.txType) || 1e-12)
+    );
+
+    const usage: Record<string, number> = Object.fromEntries(Object.keys(limits).map((id) => [id, 0]));
+    const included: Record<string, number> = {};
+    for (const { txType, count } of ordered) {
+      include(txType, Math.min(Math.floor(count), getRoomFor(txType, usage, limits)), usage, included);
+    }
+
+    const candidate = score(included);
+    if (candidate > bestScore) {
+      best = included;
+      bestScore = candidate;
+    }
+
+    // Raise the price of every resource that filled up
+    for (const [resourceId, limit] of Object.entries(limits)) {
+      if (limit > 0 && usage[resourceId] / limit > 0.99) prices[resourceId] *= 1.5;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pack pending transactions into one block.
+ *
+ * @param pending - Pending transactions per type (fractional counts are floored)
+ * @param limits - Per-block limit for each resource
+ * @param options.baseFee - Base fee used to value transactions under the 'fees' objective
+ * @returns Included transactions per type
+ */
+export function packBlock(
+  pending: BlockEntry[],
+  limits: Record<string, number>,
+  options: { builder: BlockBuilderStrategy; objective: BlockObjective; baseFee: number }
+): Record<string, number> {
+  if (options.builder === 'greedy') {
+    return packGreedy(pending, limits);
+  }
+
+  const value =
+    options.objective === 'fees'
+      ? (txType: TransactionType) => txType.averageGas * options.baseFee
+      : () => 1;
+  return packKnapsack(pending, limits, value);
+}
+
+// ============================================================================
+// Block Simulation
+// ============================================================================
+
+/**
+ * Per-block resource limits: explicit limits where given, otherwise the
+ * effective capacity (scaling solutions, multipliers and parallel lanes
+ * scheduled for the pending mix) over one slot.
+ */
+export function getBlockLimits(
+  config: BlockSimulationConfig,
+  pending: BlockEntry[]
+): Record<string, number> {
+  const { resources, scalingSolutions, resourceMultipliers, compositionRules, blockParams } = config;
+  const parallelSpeedup = getParallelSpeedup(
+    scalingSolutions,
+    Object.fromEntries(pending.map(({ txType, count }) => [txType.id, count])),
+    pending.map(({ txType }) => txType)
+  );
+
+  const limits: Record<string, number> = {};
+  for (const resource of resources) {
+    limits[resource.id] =
+      blockParams.blockLimits?.[resource.id] ??
+      getEffectiveMaxThroughput(
+        resource,
+        scalingSolutions,
+        resourceMultipliers,
+        parallelSpeedup,
+        compositionRules
+      ) * blockParams.slotTime;
+  }
+  return limits;
+}
+
+/**
+ * Run the block-level simulation for the configured duration.
+ *
+ * Every slot, demand at the current base fee arrives, the builder packs a
+ * block, and processBlock updates the base fee from the fullness of the
+ * bottleneck resource. Unincluded transactions wait for the next block when
+ * queueParams is set (up to its mempool cap); otherwise they are lost.
+ */
+export function runBlockSimulation(config: BlockSimulationConfig): BlockSimulationResult {
+  const { resources, eip1559Params, blockParams } = config;
+  const { transactionMix } = withTransactionEffects(config);
+  const blockCount = Math.floor(config.duration / blockParams.slotTime + 1e-9);
+
+  let feeState: FeeState = createInitialState(eip1559Params);
+  const pending: Record<string, number> = {};
+  const blocks: SimulatedBlock[] = [];
+  const random = createRandom(config.seed ?? DEFAULT_SEED);
+
+  for (let i = 0; i < blockCount; i++) {
+    const timestamp = (i + 1) * blockParams.slotTime;
+    const baseFee = feeState.currentBaseFee;
+
+    // Demand over the slot at the price in force
+    const demand = calculateDemand(
+      transactionMix,
+      baseFee,
+      getScenarioMultiplier(config.scenario, timestamp) * getDemandNoise(config, random),
+      {
+        demandModel: config.demandModel,
+        timestamp,
+        typeMultipliers: getScenarioTypeMultipliers(
+          config.scenario,
+          transactionMix.map((m) => m.txType),
+          timestamp
+        ),
+      }
+    );
+    for (const { txType } of transactionMix) {
+      pending[txType.id] = (pending[txType.id] ?? 0) + demand.byType[txType.id] * blockParams.slotTime;
+    }
+
+    const entries: BlockEntry[] = transactionMix.map(({ txType }) => ({
+      txType,
+      count: pending[txType.id],
+    }));
+    const limits = getBlockLimits(config, entries);
+    const included = packBlock(entries, limits, { ...blockParams, baseFee });
+
+    for (const { txType } of transactionMix) {
+      const left = pending[txType.id] - (included[txType.id] ?? 0);
+      // Without a queue only the fraction of a transaction not yet arrived carries over
+      pending[txType.id] = config.queueParams ? left : left - Math.floor(left);
+    }
+    enforceCap(pending, config.queueParams?.mempoolCap ?? Infinity);
+
+    const usage = getBlockUsage(
+      transactionMix.map(({ txType }) => ({ txType, count: included[txType.id] ?? 0 })),
+      resources
+    );
+    const fullness = getBlockFullness(usage, limits);
+    const bottleneck = findBottleneck(fullness);
+
+    feeState = processBlock(feeState, bottleneck.fullness, {
+      ...eip1559Params,
+      rule: config.baseFeeRule,
+    });
+
+    blocks.push({
+      number: feeState.blockNumber,
+      timestamp,
+      baseFee,
+      included,
+      transactionCount: Object.values(included).reduce((a, b) => a + b, 0),
+      usage,
+      limits,
+      fullness,
+      bottleneckResource: bottleneck.resourceId ?? resources[0]?.id ?? '',
+      utilization: bottleneck.fullness,
+      pending: Object.values(pending).reduce((a, b) => a + b, 0),
+    });
+  }
+
+  return { blocks, summary: summarizeBlocks(blocks, resources, blockParams.slotTime) };
+}
+
+/**
+ * Scale every type's pending count down pro-rata to fit the mempool cap
+ */
+function enforceCap(pending: Record<string, number>, cap: number): void {
+  const total = Object.values(pending).reduce((a, b) => a + b, 0);
+  if (total <= cap) return;
+  for (const typeId of Object.keys(pending)) {
+    pending[typeId] *= cap / total;
+  }
+}
+
+function summarizeBlocks(
+  blocks: SimulatedBlock[],
+  resources: Resource[],
+  slotTime: number
+): BlockSimulationResult['summary'] {
+  const count = blocks.length;
+  const totalTransactions = blocks.reduce((sum, b) => sum + b.transactionCount, 0);
+
+  const averageFullness: Record<string, number> = {};
+  for (const resource of resources) {
+    averageFullness[resource.id] =
+      count > 0 ? blocks.reduce((sum, b) => sum + (b.fullness[resource.id] || 0), 0) / count : 0;
+  }
+
+  return {
+    averageTPS: count > 0 ? totalTransactions / (count * slotTime) : 0,
+    averageBaseFee: count > 0 ? blocks.reduce((sum, b) => sum + b.baseFee, 0) / count : 0,
+    averageFullness,
+    bottleneckResource: findBottleneck(averageFullness).resourceId ?? resources[0]?.id ?? '',
+    totalTransactions,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Scaling Solution Composition
+ *
+ * Combines enabled solutions into one capacity multiplier per resource:
+ * - Solutions whose prerequisites are missing, or that conflict with an
+ *   earlier enabled solution, are inactive
+ * - Active multipliers stack with diminishing returns, largest first
+ * - Synergies between active pairs apply in full
+ * - The result is limited to the resource's cap
+ *
+ * Every step is recorded so the final multiplier can be explained.
+ *
+ * Solutions can also target specific workloads through transaction effects,
+ * which shrink matching transactions' consumption rather than growing the
+ * resource's capacity.
+ */
+
+import type { ResourceId } from '@/data/resources/types';
+import type { TransactionType } from '@/data/transactions/types';
+import type {
+  CompositionRule,
+  ScalingSolution,
+  TransactionEffect,
+} from '@/data/scaling-solutions/types';
+import { compositionRules as defaultRules } from '@/data/scaling-solutions/composition';
+import { PARALLEL_RESOURCE_ID } from './parallel';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CompositionIssueReason = 'missing-prerequisite' | 'excluded';
+
+/**
+ * Why an enabled solution has no effect
+ */
+export interface CompositionIssue {
+  solutionId: string;
+  reason: CompositionIssueReason;
+  /** Missing prerequisites, or the enabled solutions it conflicts with */
+  relatedIds: string[];
+}
+
+export interface ResolvedSolutions {
+  active: ScalingSolution[];
+  issues: CompositionIssue[];
+}
+
+/**
+ * One factor in a composed multiplier:
+ * - 'solution': a solution's own multiplier (or its scheduled parallel speedup)
+ * - 'synergy': the bonus of two active solutions together
+ * - 'cap': the reduction that brings the total down to the resource's cap
+ */
+export interface CompositionTerm {
+  kind: 'solution' | 'synergy' | 'cap';
+  solutionIds: string[];
+  /** Multiplier as declared (the cap itself for 'cap') */
+  declared: number;
+  /** Factor actually applied */
+  applied: number;
+}
+
+export interface MultiplierBreakdown {
+  resourceId: ResourceId;
+  /** In the order they were applied */
+  terms: CompositionTerm[];
+  /** Product of every term except the cap */
+  uncapped: number;
+  multiplier: number;
+}
+
+export interface CompositionOptions {
+  /** Speedup scheduled for the mix, used for lane solutions on the parallel resource */
+  parallelSpeedup?: number;
+  rules?: Partial<Record<ResourceId, CompositionRule>>;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function conflicts(a: ScalingSolution, b: ScalingSolution): boolean {
+  return Boolean(a.excludes?.includes(b.id) || b.excludes?.includes(a.id));
+}
+
+/**
+ * Work out which enabled solutions take effect.
+ * Exclusions are resolved first in enabled order, so the earlier solution
+ * wins a conflict. Solutions are then dropped until every remaining one has
+ * its prerequisites, since dropping one can strand another.
+ */
+export function resolveSolutions(solutions: ScalingSolution[]): ResolvedSolutions {
+  const issues: CompositionIssue[] = [];
+
+  let active: ScalingSolution[] = [];
+  for (const solution of solutions) {
+    const conflicting = active.filter((other) => conflicts(solution, other));
+    if (conflicting.length > 0) {
+      issues.push({
+        solutionId: solution.id,
+        reason: 'excluded',
+        relatedIds: conflicting.map((s) => s.id),
+      });
+    } else {
+      active.push(solution);
+    }
+  }
+
+  for (;;) {
+    const activeIds = new Set(active.map((s) => s.id));
+    const remaining = active.filter((solution) => {
+      const missing = (solution.requires ?? []).filter((id) => !activeIds.has(id));
+      if (missing.length > 0) {
+        issues.push({ solutionId: solution.id, reason: 'missing-prerequisite', relatedIds: missing });
+      }
+      return missing.length === 0;
+    });
+    if (remaining.length === active.length) break;
+    active = remaining;
+  }
+
+  return { active, issues };
+}
+
+// ============================================================================
+// Composition
+// ============================================================================
+
+/**
+ * Compose already-resolved active solutions' multipliers on one resource
+ */
+export function composeActive(
+  resourceId: ResourceId,
+  active: ScalingSolution[],
+  options: CompositionOptions = {}
+): MultiplierBreakdown {
+  const { parallelSpeedup = 1, rules = defaultRules } = options;
+  const { diminishingFactor = 1, cap = Infinity } = rules[resourceId] ?? {};
+  const isParallelResource = resourceId === PARALLEL_RESOURCE_ID;
+
+  // Lane solutions contribute their scheduled speedup instead of a flat multiplier
+  const declared = active
+    .map((solution) => ({
+      solutionIds: [solution.id],
+      value:
+        isParallelResource && solution.parallelLanes
+          ? parallelSpeedup
+          : (solution.multipliers[resourceId] ?? 1),
+    }))
+    .filter((d) => d.value > 1)
+    .sort((a, b) => b.value - a.value);
+
+  const terms: CompositionTerm[] = declared.map((d, k) => ({
+    kind: 'solution',
+    solutionIds: d.solutionIds,
+    declared: d.value,
+    applied: Math.pow(d.value, Math.pow(diminishingFactor, k)),
+  }));
+
+  const activeIds = new Set(active.map((s) => s.id));
+  for (const solution of active) {
+    for (const synergy of solution.synergies ?? []) {
+      const bonus = synergy.multipliers[resourceId];
+      if (!bonus || !activeIds.has(synergy.with)) continue;
+      terms.push({
+        kind: 'synergy',
+        solutionIds: [solution.id, synergy.with],
+        declared: bonus,
+        applied: bonus,
+      });
+    }
+  }
+
+  const uncapped = terms.reduce((product, term) => product * term.applied, 1);
+  if (uncapped > cap) {
+    terms.push({ kind: 'cap', solutionIds: [], declared: cap, applied: cap / uncapped });
+  }
+
+  return { resourceId, terms, uncapped, multiplier: Math.min(uncapped, cap) };
+}
+
+/**
+ * Combined multiplier of the enabled solutions on one resource
+ */
+export function composeMultiplier(
+  resourceId: ResourceId,
+  solutions: ScalingSolution[],
+  options: CompositionOptions = {}
+): MultiplierBreakdown {
+  return composeActive(resourceId, resolveSolutions(solutions).active, options);
+}
+
+/**
+ * Combined multipliers on several resources, resolving the solutions once
+ */
+export function composeMultipliers(
+  resourceIds: ResourceId[],
+  solutions: ScalingSolution[],
+  options: CompositionOptions = {}
+): ResolvedSolutions & { breakdowns: Record<string, MultiplierBreakdown> } {
+  const resolved = resolveSolutions(solutions);
+  const breakdowns = Object.fromEntries(
+    resourceIds.map((id) => [id, composeActive(id, resolved.active, options)])
+  );
+  return { ...resolved, breakdowns };
+}
+
+// ============================================================================
+// Transaction Effects
+// ============================================================================
+
+function matches(effect: TransactionEffect, txType: TransactionType): boolean {
+  return Boolean(
+    effect.typeIds?.includes(txType.id) || effect.categories?.includes(txType.category)
+  );
+}
+
+/**
+ * Combined consumption divisor of the active solutions' effects on one
+ * transaction type and resource. Effects target disjoint workloads, so
+ * they multiply in full.
+ */
+export function getTransactionMultiplier(
+  txType: TransactionType,
+  resourceId: ResourceId,
+  solutions: ScalingSolution[]
+): number {
+  let multiplier = 1;
+  for (const solution of resolveSolutions(solutions).active) {
+    for (const effect of solution.transactionEffects ?? []) {
+      const value = effect.multipliers[resourceId];
+      if (value && value > 0 && matches(effect, txType)) multiplier *= value;
+    }
+  }
+  return multiplier;
+}
+
+/**
+ * The transaction type with its consumption reduced by the enabled
+ * solutions' transaction effects (the same object when none apply)
+ */
+export function applyTransactionEffects(
+  txType: TransactionType,
+  solutions: ScalingSolution[]
+): TransactionType {
+  const active = resolveSolutions(solutions).active;
+  const effects = active.flatMap((s) => s.transactionEffects ?? []).filter((e) => matches(e, txType));
+  if (effects.length === 0) return txType;
+
+  const resourceConsumption = { ...txType.resourceConsumption };
+  for (const effect of effects) {
+    for (const [resourceId, value] of Object.entries(effect.multipliers)) {
+      if (value && value > 0 && resourceConsumption[resourceId] !== undefined) {
+        resourceConsumption[resourceId] /= value;
+      }
+    }
+  }
+  return { ...txType, resourceConsumption };
+}
+
+/**
+ * Effective gain of transaction effects on a resource for a whole mix,
+ * weighted by mainnet share: consumption before over consumption after
+ */
+export function getMixTransactionMultiplier(
+  transactionTypes: TransactionType[],
+  resourceId: ResourceId,
+  solutions: ScalingSolution[]
+): number {
+  let before = 0;
+  let after = 0;
+  for (const txType of transactionTypes) {
+    const consumption = (txType.resourceConsumption[resourceId] || 0) * txType.percentOfMainnetTxs;
+    before += consumption;
+    after += consumption / getTransactionMultiplier(txType, resourceId, solutions);
+  }
+  return after > 0 ? before / after : 1;
+}
@@ -1,17 +1,36 @@
 /**
  * Core Simulation Engine
  *
- * Simulates blockchain throughput based on:
+ * Gas-only view of the simulation engine:
  * - Resource capacity (gas/sec)
  * - Transaction demand curves
  * - Tech multipliers
  * - Demand scenarios
  *
+ * Every function here is a thin adapter over the unified engine in engine.ts.
+ * Pass `resources` to constrain the run by every resource instead of gas alone.
+ *
  * All functions are pure for testability.
  */
 
-import { calculateNewBaseFee, calculateDemandResponse, DEFAULT_CONFIG as EIP1559_CONFIG } from './eip1559';
-import type { TransactionType } from '@/data/transactions/types';
+import {
+  calculateDemand as calculateMixDemand,
+  createEngineState,
+  runEngine,
+  stepEngine,
+  type EngineConfig,
+  type EngineState,
+  type PendingCohort,
+  type SimulationSnapshot,
+  type TransactionMixEntry,
+  type DemandScenario,
+} from './engine';
+import { DEFAULT_CONFIG as EIP1559_CONFIG } from './eip1559';
+import type { BaseFeeRule } from './fee-rules';
+import { evmCompute } from '@/data/resources';
+import type { Resource } from '@/data/resources/types';
+
+export type { TransactionMixEntry, DemandScenario } from './engine';
 
 // ============================================================================
 // Types
@@ -32,22 +51,21 @@ export interface SimulationConfig {
 
   /** Simulation speed (time units per real second) */
   simulationSpeed: number;
-}
 
-export interface TransactionMixEntry {
-  txType: TransactionType;
-  /** Relative weight in the mix (will be normalized) */
-  weight: number;
-}
+  /**
+   * Resources to constrain the run by. Defaults to gas only.
+   * EVM compute always takes its capacity from gasPerSecond.
+   */
+  resources?: Resource[];
+
+  /** Standard deviation of per-step demand noise (default: none) */
+  demandNoise?: number;
 
-export interface DemandScenario {
-  id: string;
-  name: string;
-  description: string;
-  /** Duration in time units */
-  duration: number;
-  /** Returns demand multiplier (1.0 = normal) at normalized time (0-1) */
-  getDemandMultiplier: (normalizedTime: number) => number;
+  /** Base fee update rule (default: linear EIP-1559) */
+  baseFeeRule?: BaseFeeRule;
+
+  /** PRNG seed for demand noise */
+  seed?: number;
 }
 
 export interface SimulationState {
@@ -84,6 +102,24 @@ export interface SimulationState {
   // Backlog
   /** Number of pending transactions */
   pendingTxs: number;
+
+  // Resources
+  /** Utilization per resource (0-1) */
+  resourceUtilization: Record<string, number>;
+  /** Most utilized resource */
+  bottleneckResource: string;
+
+  /** PRNG state to resume from (absent before the first step) */
+  rngState?: number;
+
+  /** Pending transactions by type and arrival time (absent before the first step) */
+  queue?: PendingCohort[];
+
+  /**
+   * Per-resource utilization of the latest steps, oldest first, kept for base
+   * fee rules that look back more than one step
+   */
+  recentUtilization?: Record<string, number>[];
 }
 
 export interface SimulationHistory {
@@ -153,37 +189,155 @@ export function calculateThroughput(
 }
 
 /**
- * Calculate demand for each transaction type at current price
+ * Calculate demand for each transaction type at current price.
+ * typeMultipliers scale individual types, e.g. from getScenarioTypeMultipliers.
  */
 export function calculateDemand(
   mix: TransactionMixEntry[],
   baseFee: number,
   demandMultiplier: number,
-  baselineFee: number = 20
+  baselineFee: number = 20,
+  typeMultipliers: Record<string, number> = {}
 ): { total: number; byType: Record<string, number> } {
-  const byType: Record<string, number> = {};
-  let total = 0;
+  return calculateMixDemand(mix, baseFee, demandMultiplier, {
+    demandModel: 'price-response',
+    baselineFee,
+    typeMultipliers,
+  });
+}
 
-  const totalWeight = mix.reduce((sum, m) => sum + m.weight, 0);
+// ============================================================================
+// Engine Adapter
+// ============================================================================
 
-  for (const { txType, weight } of mix) {
-    // Normalize weight
-    const normalizedWeight = totalWeight > 0 ? weight / totalWeight : 0;
+/**
+ * Convert a core config into an engine config.
+ *
+ * Without explicit resources, each transaction consumes only its average gas
+ * against a single EVM compute resource. With resources, every gas-denominated
+ * resource (compute, verification, proving) runs at gasPerSecond and scales
+ * with the tech multiplier.
+ */
+export function toEngineConfig(config: SimulationConfig, timestep: number = 0.1): EngineConfig {
+  const gasResource: Resource = { ...evmCompute, maxThroughput: config.gasPerSecond };
+
+  const resources = config.resources
+    ? config.resources.map((r) =>
+        r.unit === gasResource.unit ? { ...r, maxThroughput: config.gasPerSecond } : r
+      )
+    : [gasResource];
+
+  const resourceMultipliers: EngineConfig['resourceMultipliers'] = {};
+  for (const resource of resources) {
+    if (resource.unit === gasResource.unit) {
+      resourceMultipliers[resource.id] = config.techMultiplier;
+    }
+  }
 
-    // Base demand scaled by weight
-    const baseDemand = txType.baseDemand * normalizedWeight * mix.length;
+  const transactionMix = config.resources
+    ? config.transactionMix
+    : config.transactionMix.map(({ txType, weight }) => ({
+        weight,
+        txType: {
+          ...txType,
+          resourceConsumption: { [gasResource.id]: txType.averageGas / 1_000_000 },
+        },
+      }));
 
-    // Apply price elasticity
-    const priceEffect = calculateDemandResponse(1, baseFee, baselineFee);
+  return {
+    resources,
+    transactionMix,
+    scalingSolutions: [],
+    feeMarketModel: 'eip1559',
+    duration: config.scenario.duration,
+    timestep,
+    scenario: config.scenario,
+    demandModel: 'price-response',
+    resourceMultipliers,
+    eip1559Params: {
+      targetUtilization: EIP1559_CONFIG.targetUtilization,
+      // Faster adjustment for visualization
+      maxChangeRate: 0.125 * 2,
+      minBaseFee: EIP1559_CONFIG.minBaseFee,
+    },
+    baseFeeRule: config.baseFeeRule,
+    // Excess demand waits in the mempool instead of disappearing
+    queueParams: { rationing: 'fifo', mempoolCap: Infinity },
+    demandNoise: config.demandNoise,
+    seed: config.seed,
+  };
+}
 
-    // Apply scenario multiplier
-    const demand = baseDemand * demandMultiplier * priceEffect;
+/**
+ * Gas-only view of an engine snapshot
+ */
+function toSimulationState(snapshot: SimulationSnapshot, isComplete: boolean): SimulationState {
+  const gas = snapshot.resourceStates[evmCompute.id];
 
-    byType[txType.id] = Math.max(0, demand);
-    total += byType[txType.id];
+  const resourceUtilization: Record<string, number> = {};
+  for (const [resourceId, state] of Object.entries(snapshot.resourceStates)) {
+    resourceUtilization[resourceId] = state.utilization;
   }
 
-  return { total, byType };
+  return {
+    timestamp: snapshot.timestamp,
+    isComplete,
+    totalDemand: snapshot.totalDemand,
+    demandByType: snapshot.demandByType,
+    gasCapacity: gas?.effectiveMaxThroughput ?? 0,
+    gasUsed: gas?.currentThroughput ?? 0,
+    utilization: snapshot.utilization,
+    tps: snapshot.tps,
+    tpsByType: snapshot.tpsByType,
+    baseFee: snapshot.baseFee,
+    pendingTxs: snapshot.transactionsPending,
+    resourceUtilization,
+    bottleneckResource: snapshot.bottleneckResource,
+  };
+}
+
+/**
+ * Rebuild engine state from a core state.
+ * Without a carried queue, pending transactions are split across types by
+ * their share of demand. The steps the base fee rule looks back on are
+ * restored from recentUtilization.
+ */
+function toEngineState(state: SimulationState, config: EngineConfig): EngineState {
+  const engine = createEngineState(config);
+  const initial = engine.history[0];
+
+  const steps = (state.recentUtilization ?? []).map(
+    (utilization): SimulationSnapshot => {
+      const resourceStates: SimulationSnapshot['resourceStates'] = {};
+      for (const [resourceId, resourceState] of Object.entries(initial.resourceStates)) {
+        resourceStates[resourceId] = {
+          ...resourceState,
+          utilization: utilization[resourceId] ?? 0,
+        };
+      }
+      return { ...initial, resourceStates };
+    }
+  );
+  const history = [initial, ...steps];
+  const latest = history.length - 1;
+  history[latest] = { ...history[latest], timestamp: state.timestamp, baseFee: state.baseFee };
+
+  const queue =
+    state.queue ??
+    Object.entries(state.demandByType)
+      .filter(() => state.totalDemand > 0 && state.pendingTxs > 0)
+      .map(([typeId, demand]) => ({
+        typeId,
+        arrivedAt: state.timestamp,
+        count: state.pendingTxs * (demand / state.totalDemand),
+      }));
+
+  return {
+    history,
+    queue,
+    isComplete: state.isComplete,
+    rngState: state.rngState ?? engine.rngState,
+  };
 }
 
 // ============================================================================
@@ -194,21 +348,7 @@ export function calculateDemand(
  * Create initial simulation state
  */
 export function createInitialState(config: SimulationConfig): SimulationState {
-  const gasCapacity = config.gasPerSecond * config.techMultiplier;
-
-  return {
-    timestamp: 0,
-    isComplete: false,
-    totalDemand: 0,
-    demandByType: {},
-    gasCapacity,
-    gasUsed: 0,
-    utilization: 0,
-    tps: 0,
-    tpsByType: {},
-    baseFee: 20, // Starting base fee
-    pendingTxs: 0,
-  };
+  return toSimulationState(createEngineState(toEngineConfig(config)).history[0], false);
 }
 
 /**
@@ -226,59 +366,18 @@ export function simulateStep(
     return { ...prevState, timestamp: config.scenario.duration, isComplete: true };
   }
 
-  // Get demand multiplier from scenario
-  const normalizedTime = timestamp / config.scenario.duration;
-  const demandMultiplier = config.scenario.getDemandMultiplier(normalizedTime);
+  const engineConfig = toEngineConfig(config, dt);
+  const next = stepEngine(toEngineState(prevState, engineConfig), engineConfig, dt);
+  const nextState = toSimulationState(next.history[next.history.length - 1], false);
 
-  // Calculate demand at current price
-  const { total: totalDemand, byType: demandByType } = calculateDemand(
-    config.transactionMix,
-    prevState.baseFee,
-    demandMultiplier
-  );
+  // Keep as many steps as the rule looks back on; the initial snapshot is not a step
+  const lookback = (config.baseFeeRule?.window ?? 1) - 1;
+  const recentUtilization =
+    lookback > 0
+      ? [...(prevState.recentUtilization ?? []), nextState.resourceUtilization].slice(-lookback)
+      : undefined;
 
-  // Calculate capacity
-  const gasCapacity = config.gasPerSecond * config.techMultiplier;
-
-  // Calculate throughput
-  const avgGas = calculateAverageGas(config.transactionMix);
-  const { tps, utilization, gasUsed } = calculateThroughput(
-    totalDemand,
-    gasCapacity,
-    avgGas
-  );
-
-  // Calculate TPS by type (proportional to demand)
-  const tpsByType: Record<string, number> = {};
-  for (const [typeId, demand] of Object.entries(demandByType)) {
-    tpsByType[typeId] = totalDemand > 0 ? (demand / totalDemand) * tps : 0;
-  }
-
-  // Update base fee using EIP-1559 logic
-  const newBaseFee = calculateNewBaseFee(prevState.baseFee, utilization, {
-    ...EIP1559_CONFIG,
-    // Faster adjustment for visualization
-    maxChangeRate: 0.125 * 2,
-  });
-
-  // Update pending transactions (simplified model)
-  const excessDemand = Math.max(0, totalDemand - tps);
-  const processedFromQueue = Math.min(prevState.pendingTxs, tps * 0.1); // Process 10% of queue capacity
-  const pendingTxs = Math.max(0, prevState.pendingTxs + excessDemand * dt - processedFromQueue * dt);
-
-  return {
-    timestamp,
-    isComplete: false,
-    totalDemand,
-    demandByType,
-    gasCapacity,
-    gasUsed,
-    utilization,
-    tps,
-    tpsByType,
-    baseFee: newBaseFee,
-    pendingTxs,
-  };
+  return { ...nextState, rngState: next.rngState, queue: next.queue, recentUtilization };
 }
 
 /**
@@ -288,14 +387,11 @@ export function runFullSimulation(
   config: SimulationConfig,
   timestep: number = 0.1
 ): SimulationHistory {
-  const states: SimulationState[] = [];
-  let state = createInitialState(config);
-  states.push(state);
+  const { snapshots } = runEngine(toEngineConfig(config, timestep));
 
-  while (!state.isComplete) {
-    state = simulateStep(state, config, timestep);
-    states.push(state);
-  }
+  const states = snapshots.map((snapshot, i) =>
+    toSimulationState(snapshot, i === snapshots.length - 1)
+  );
 
   return { states, config };
 }
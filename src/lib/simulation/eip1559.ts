@@ -5,6 +5,10 @@
  * All logic is separated from UI concerns for testability.
  */
 
+import { getRelativeDemand, type DemandCurveModel } from '@/data/transactions/demand';
+import { eip1559Rule, type BaseFeeRule } from './fee-rules';
+import { createRandom, DEFAULT_SEED, type RandomSource } from './random';
+
 export interface EIP1559Config {
   /** Target block utilization (0-1), default 0.5 */
   targetUtilization: number;
@@ -14,6 +18,8 @@ export interface EIP1559Config {
   minBaseFee: number;
   /** Initial base fee in gwei, default 20 */
   initialBaseFee: number;
+  /** Base fee update rule, default the linear EIP-1559 rule (see fee-rules.ts) */
+  rule?: BaseFeeRule;
 }
 
 export interface Block {
@@ -37,6 +43,16 @@ export const DEFAULT_CONFIG: EIP1559Config = {
   initialBaseFee: 20,
 };
 
+/**
+ * Default demand response: demand halves when the fee doubles.
+ * The reference price is replaced by the baseline fee.
+ */
+export const UNIT_ELASTIC_DEMAND: DemandCurveModel = {
+  family: 'hyperbolic',
+  referencePrice: DEFAULT_CONFIG.initialBaseFee,
+  elasticity: 1,
+};
+
 /**
  * Create initial simulation state
  */
@@ -50,37 +66,32 @@ export function createInitialState(config: Partial<EIP1559Config> = {}): Simulat
 }
 
 /**
- * Calculate the new base fee given current utilization.
- * This is the core EIP-1559 formula.
+ * Calculate the new base fee given current utilization, using the config's
+ * rule. The default is the core EIP-1559 formula.
  *
  * Formula: newBaseFee = currentBaseFee * (1 + maxChangeRate * (utilization - target) / target)
  *
  * When utilization = target (50%): no change
  * When utilization = 100%: increase by maxChangeRate (12.5%)
  * When utilization = 0%: decrease by maxChangeRate (12.5%)
+ *
+ * @param previousUtilization - Utilization of the blocks before this one,
+ *   oldest first, for rules that average over a window
  */
 export function calculateNewBaseFee(
   currentBaseFee: number,
   utilization: number,
-  config: Partial<EIP1559Config> = {}
+  config: Partial<EIP1559Config> = {},
+  previousUtilization: number[] = []
 ): number {
-  const { targetUtilization, maxChangeRate, minBaseFee } = { ...DEFAULT_CONFIG, ...config };
-
-  // Clamp utilization to valid range
-  const clampedUtilization = Math.max(0, Math.min(1, utilization));
-
-  // Calculate how far we are from target (can be negative or positive)
-  const utilizationDelta = clampedUtilization - targetUtilization;
-
-  // Calculate fee change as a fraction of current base fee
-  // The formula ensures max change is exactly maxChangeRate when at 0% or 100% utilization
-  const feeChangeRatio = maxChangeRate * (utilizationDelta / targetUtilization);
-
-  // Apply the change
-  const newBaseFee = currentBaseFee * (1 + feeChangeRatio);
-
-  // Enforce minimum
-  return Math.max(minBaseFee, newBaseFee);
+  const { rule = eip1559Rule, ...params } = { ...DEFAULT_CONFIG, ...config };
+  const previous = rule.window > 1 ? previousUtilization.slice(-(rule.window - 1)) : [];
+
+  return rule.nextBaseFee({
+    baseFee: currentBaseFee,
+    recentUtilization: [...previous, utilization],
+    params,
+  });
 }
 
 /**
@@ -90,19 +101,22 @@ export function calculateNewBaseFee(
  * @param demandLevel - Base demand level (0-1), how many users want to transact
  * @param currentBaseFee - Current base fee in gwei
  * @param baselineFee - The "normal" fee level for price sensitivity calculation
+ * @param demandCurve - Shape of the response, re-anchored at baselineFee
+ *   (default: demand halves when the fee doubles)
  * @returns Expected utilization factor before noise (0-1)
  */
 export function calculateDemandResponse(
   demandLevel: number,
   currentBaseFee: number,
-  baselineFee: number = 20
+  baselineFee: number = 20,
+  demandCurve: DemandCurveModel = UNIT_ELASTIC_DEMAND
 ): number {
-  // Price elasticity: as fee increases above baseline, demand decreases
-  // At baseline fee, priceEffect = 1
-  // At 2x baseline, priceEffect = 0.5
-  // At very high fees, approaches 0
-  const priceRatio = currentBaseFee / baselineFee;
-  const priceEffect = 1 / priceRatio;
+  // At baseline fee, priceEffect = 1; with the default curve it is 0.5 at
+  // 2x baseline and approaches 0 at very high fees
+  const priceEffect = getRelativeDemand(
+    { ...demandCurve, referencePrice: baselineFee },
+    currentBaseFee
+  );
 
   // Combine demand level with price effect
   return Math.max(0, Math.min(1, demandLevel * priceEffect));
@@ -112,20 +126,18 @@ export function calculateDemandResponse(
  * Generate a random utilization value based on demand and noise.
  *
  * @param baseDemand - Expected demand level (0-1)
- * @param noiseLevel - Standard deviation of random noise (default 0.1)
- * @param randomSeed - Optional seed for deterministic testing (0-1 random value)
+ * @param noiseLevel - Standard deviation of random noise
+ * @param randomSeed - Random value in [0, 1) that sets the noise;
+ *   callers draw a fresh one per block
  */
 export function generateUtilization(
   baseDemand: number,
-  noiseLevel: number = 0.1,
-  randomSeed?: number
+  noiseLevel: number,
+  randomSeed: number
 ): number {
-  // Use provided random value or generate one
-  const random = randomSeed !== undefined ? randomSeed : Math.random();
-
   // Convert uniform [0,1] to noise centered around 0
-  // Using simple approximation: (random - 0.5) * 2 gives range [-1, 1]
-  const noise = (random - 0.5) * 2 * noiseLevel;
+  // Using simple approximation: (randomSeed - 0.5) * 2 gives range [-1, 1]
+  const noise = (randomSeed - 0.5) * 2 * noiseLevel;
 
   // Apply noise to base demand
   const utilization = baseDemand + noise;
@@ -153,7 +165,12 @@ export function processBlock(
   };
 
   // Calculate new base fee for next block
-  const newBaseFee = calculateNewBaseFee(state.currentBaseFee, utilization, fullConfig);
+  const newBaseFee = calculateNewBaseFee(
+    state.currentBaseFee,
+    utilization,
+    fullConfig,
+    state.blocks.map((block) => block.utilization)
+  );
 
   return {
     blocks: [...state.blocks, newBlock],
@@ -173,10 +190,13 @@ export function runSimulation(
   options: {
     noiseLevel?: number;
     randomSeeds?: number[]; // For deterministic testing
+    seed?: number; // Seeds the PRNG for draws not covered by randomSeeds (default DEFAULT_SEED)
+    demandCurve?: DemandCurveModel; // Shape of the demand response (see calculateDemandResponse)
   } = {}
 ): SimulationState {
-  const { noiseLevel = 0.1, randomSeeds } = options;
+  const { noiseLevel = 0.1, randomSeeds, seed, demandCurve } = options;
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const random: RandomSource = createRandom(seed ?? DEFAULT_SEED);
 
   let state = createInitialState(fullConfig);
 
@@ -185,11 +205,12 @@ export function runSimulation(
     const baseDemand = calculateDemandResponse(
       demandLevel,
       state.currentBaseFee,
-      fullConfig.initialBaseFee
+      fullConfig.initialBaseFee,
+      demandCurve
     );
 
     // Add noise to get actual utilization
-    const randomSeed = randomSeeds?.[i];
+    const randomSeed = randomSeeds?.[i] ?? random();
     const utilization = generateUtilization(baseDemand, noiseLevel, randomSeed);
 
     // Process the block
@@ -4,25 +4,134 @@
  * Core simulation logic for modeling resource consumption,
  * transaction throughput, and fee markets.
  *
- * This is a simplified version that works with the new resource model.
+ * This is the single engine behind every simulation: it takes a demand
+ * scenario, resources, a transaction mix, scaling solutions and a fee model,
+ * and produces SimulationSnapshots. The gas-only API in core.ts and
+ * runSimulation below are thin adapters over createEngineState / stepEngine /
+ * runEngine.
  */
 
 import type { Resource, ResourceState, ResourceId } from '@/data/resources/types';
 import type { TransactionType } from '@/data/transactions/types';
-import { generateDemandCurve, isFullyParallelizable } from '@/data/transactions/types';
-import type { ScalingSolution } from '@/data/scaling-solutions/types';
+import type { CompositionRule, ScalingSolution } from '@/data/scaling-solutions/types';
+import type { ScenarioDefinition } from '@/data/scenarios/types';
+import {
+  applyTransactionEffects,
+  composeMultiplier,
+  composeMultipliers,
+  type CompositionIssue,
+  type MultiplierBreakdown,
+} from './composition';
+import { withBlobPosting } from '@/data/transactions/consumption';
+import { getDemandAtPrice, getDemandCurve } from '@/data/transactions/demand';
+import {
+  createBlobMarketState,
+  getPostingCosts,
+  processBlobBlock,
+  type BlobMarketConfig,
+  type BlobMarketState,
+} from './blobs';
+import { calculateDemandResponse } from './eip1559';
+import { pidController } from './fee-controllers';
+import { eip1559Rule, type BaseFeeRule } from './fee-rules';
+import { getParallelSpeedup } from './parallel';
+import { createRandom, sampleNormal, DEFAULT_SEED, type RandomSource } from './random';
 
 /**
- * Simulation configuration
+ * Transaction mix entry: a transaction type and its relative weight
  */
-export interface SimulationConfig {
+export interface TransactionMixEntry {
+  txType: TransactionType;
+  /** Relative weight in the mix (will be normalized) */
+  weight: number;
+}
+
+/**
+ * Demand scenario: how demand changes over a run
+ */
+export interface DemandScenario {
+  id: string;
+  name: string;
+  description: string;
+  /** Duration in time units */
+  duration: number;
+  /** Returns demand multiplier (1.0 = normal) at normalized time (0-1) */
+  getDemandMultiplier: (normalizedTime: number) => number;
+  /**
+   * Extra multiplier for one transaction type on top of getDemandMultiplier,
+   * for shocks that hit only some types (1.0 when absent)
+   */
+  getTypeMultiplier?: (txType: TransactionType, normalizedTime: number) => number;
+  /** Declarative source, for scenarios built with compileScenario */
+  definition?: ScenarioDefinition;
+}
+
+/**
+ * How demand for a transaction type responds to price
+ * - 'demand-curve': the type's demand curve (see demand.ts), with volatility
+ * - 'price-response': baseDemand scaled by the same curve re-anchored at
+ *   baselineFee, capped at baseDemand (see calculateDemandResponse)
+ */
+export type DemandModel = 'demand-curve' | 'price-response';
+
+/**
+ * Engine configuration
+ *
+ * The single input shape for the simulation engine. Every other config
+ * (the gas-only core config, the legacy engine config, the store config)
+ * is converted into this one.
+ */
+export interface EngineConfig {
   resources: Resource[];
-  transactionTypes: TransactionType[];
+  transactionMix: TransactionMixEntry[];
   scalingSolutions: ScalingSolution[];
   feeMarketModel: FeeMarketModel;
   duration: number;
   timestep: number;
   eip1559Params: EIP1559Params;
+  /** Optional demand scenario; demand is scaled by its multiplier over the run */
+  scenario?: DemandScenario;
+  /** Demand response to price (defaults to 'demand-curve') */
+  demandModel?: DemandModel;
+  /** Extra capacity multipliers applied on top of scaling solutions */
+  resourceMultipliers?: Partial<Record<ResourceId, number>>;
+  /** How solution multipliers stack per resource (defaults to compositionRules) */
+  compositionRules?: Partial<Record<ResourceId, CompositionRule>>;
+  /** Fee controller used by the 'ai-oracle' model (defaults to the PID controller) */
+  feeController?: FeeController;
+  /**
+   * Base fee update rule for 'eip1559' and each per-resource fee of
+   * 'multidim-1559' (defaults to the linear EIP-1559 rule)
+   */
+  baseFeeRule?: BaseFeeRule;
+  /** Price and queueing rules for the 'fixed' model */
+  fixedFeeParams?: FixedFeeParams;
+  /**
+   * Queue unmet demand under every fee model, not just 'fixed'.
+   * Without it, demand that does not fit is lost at the end of the step.
+   */
+  queueParams?: QueueParams;
+  /**
+   * Standard deviation of multiplicative demand noise, drawn once per step.
+   * Without it (or at 0) the run is deterministic.
+   */
+  demandNoise?: number;
+  /** PRNG seed for noise (defaults to DEFAULT_SEED) */
+  seed?: number;
+  /**
+   * Price 'blob-data' with its own EIP-4844 base fee. Types with `blobs`
+   * then post calldata or blobs, whichever is cheaper each step, and the
+   * execution base fee ignores blob utilization. Not used by 'multidim-1559',
+   * which prices blob-data like any other resource.
+   */
+  blobMarket?: BlobMarketConfig;
+}
+
+/**
+ * Legacy engine configuration: every transaction type gets equal weight
+ */
+export interface SimulationConfig extends Omit<EngineConfig, 'transactionMix'> {
+  transactionTypes: TransactionType[];
 }
 
 export interface EIP1559Params {
@@ -31,17 +140,91 @@ export interface EIP1559Params {
   minBaseFee: number;
 }
 
+/**
+ * How a fixed-price market rations capacity when demand exceeds it
+ * - 'fifo': oldest pending transactions are included first
+ * - 'random': every pending transaction has the same chance of inclusion
+ *   (modeled by its expected value: each cohort is served pro-rata)
+ */
+export type RationingPolicy = 'fifo' | 'random';
+
+export interface QueueParams {
+  /** Rationing policy for the pending queue */
+  rationing: RationingPolicy;
+  /** Maximum pending transactions; arrivals beyond this are dropped */
+  mempoolCap: number;
+}
+
+export interface FixedFeeParams extends QueueParams {
+  /** Fixed price in gwei */
+  fee: number;
+}
+
+export const DEFAULT_FIXED_FEE_PARAMS: FixedFeeParams = {
+  fee: 20,
+  rationing: 'fifo',
+  mempoolCap: 10_000,
+};
+
 /**
  * Simulation state at a point in time
  */
 export interface SimulationSnapshot {
   timestamp: number;
   resourceStates: Record<string, ResourceState>;
+  /**
+   * Base fee in gwei. Under 'multidim-1559' this is the price paid by the
+   * mix-average transaction, so it stays comparable with the single fee.
+   */
   baseFee: number;
+  /**
+   * Per-resource base fees in gwei per resource unit.
+   * Only populated by the 'multidim-1559' fee market model.
+   */
+  resourceFees: Record<string, number>;
   transactionsExecuted: number;
   transactionsPending: number;
+  /** Transactions rejected because the mempool was full */
+  transactionsDropped: number;
+  /** Average seconds waited by the transactions executed this step */
+  averageWaitTime: number;
   gasUsed: number;
   tps: number;
+  /** Demand in TPS at the prices of this step, including queued transactions */
+  totalDemand: number;
+  demandByType: Record<string, number>;
+  tpsByType: Record<string, number>;
+  /** Utilization of the most constrained resource (0-1) */
+  utilization: number;
+  /** Most utilized resource this step */
+  bottleneckResource: string;
+  /** Blob base fee in gwei per blob gas (only with a blob market) */
+  blobBaseFee?: number;
+  /** Excess blob gas after this step (only with a blob market) */
+  excessBlobGas?: number;
+}
+
+/**
+ * Transactions of one type that arrived in the same step and are still waiting
+ */
+export interface PendingCohort {
+  typeId: string;
+  arrivedAt: number;
+  count: number;
+}
+
+/**
+ * Engine state between steps
+ */
+export interface EngineState {
+  /** All snapshots so far, oldest first */
+  history: SimulationSnapshot[];
+  /** Transactions waiting for inclusion */
+  queue: PendingCohort[];
+  /** Whether the run has reached its duration */
+  isComplete: boolean;
+  /** PRNG state the next step draws from */
+  rngState: number;
 }
 
 /**
@@ -56,30 +239,103 @@ export interface SimulationResult {
     peakBackpressure: Record<string, number>;
     averageBaseFee: number;
     feeVolatility: number;
+    /** Average per-resource fee (empty unless 'multidim-1559') */
+    averageResourceFees: Record<string, number>;
+    /** Per-resource fee volatility, stddev / mean (empty unless 'multidim-1559') */
+    resourceFeeVolatility: Record<string, number>;
     bottleneckResource: string;
     totalTransactionsExecuted: number;
+    /** Execution-weighted average wait in seconds */
+    averageWaitTime: number;
+    peakTransactionsPending: number;
+    totalTransactionsDropped: number;
   };
 }
 
 export type FeeMarketModel = 'eip1559' | 'multidim-1559' | 'ai-oracle' | 'fixed';
 
 /**
- * Calculate effective max throughput for a resource after applying scaling solutions
+ * Inputs handed to a predictive fee controller each step
+ */
+export interface FeeControllerContext {
+  /** All snapshots so far, oldest first; the last one was just produced */
+  history: SimulationSnapshot[];
+  /** Scenario demand multiplier at the current timestamp (1.0 without a scenario) */
+  demandMultiplier: number;
+  /**
+   * Scenario demand multipliers for the next steps, one per timestep,
+   * covering the controller's forecastHorizon. Empty without a scenario.
+   */
+  forecast: number[];
+  params: EIP1559Params;
+  timestep: number;
+}
+
+/**
+ * Pluggable pricing strategy for the 'ai-oracle' fee market model
+ */
+export interface FeeController {
+  id: string;
+  name: string;
+  description: string;
+  /** How far ahead (in seconds) the controller wants to see the demand forecast */
+  forecastHorizon: number;
+  /** Returns the base fee for the next step */
+  nextBaseFee: (context: FeeControllerContext) => number;
+}
+
+/** Starting base fee in gwei for every simulation */
+const INITIAL_BASE_FEE = 20;
+
+/**
+ * Calculate effective max throughput for a resource after applying scaling solutions.
+ *
+ * Solutions are composed with prerequisites, exclusions, diminishing returns,
+ * synergies and caps (see composition.ts). Solutions that schedule parallel
+ * lanes do not apply their flat multiplier to the parallel resource; the
+ * speedup scheduled for the current mix is used instead.
  */
-function getEffectiveMaxThroughput(
+export function getEffectiveMaxThroughput(
   resource: Resource,
-  scalingSolutions: ScalingSolution[]
+  scalingSolutions: ScalingSolution[],
+  resourceMultipliers: Partial<Record<ResourceId, number>> = {},
+  parallelSpeedup: number = 1,
+  rules?: Partial<Record<ResourceId, CompositionRule>>
 ): number {
-  let effectiveMax = resource.maxThroughput;
+  const { multiplier } = composeMultiplier(resource.id, scalingSolutions, { parallelSpeedup, rules });
+  return resource.maxThroughput * (resourceMultipliers[resource.id] ?? 1) * multiplier;
+}
 
-  for (const solution of scalingSolutions) {
-    const multiplier = solution.multipliers[resource.id];
-    if (multiplier && multiplier > 1) {
-      effectiveMax *= multiplier;
-    }
-  }
+/**
+ * The config with each transaction type's consumption reduced by the
+ * solutions' workload-specific effects. Whole-resource multipliers stay in
+ * getEffectiveMaxThroughput; apply this once, to the config as given.
+ */
+export function withTransactionEffects<
+  T extends Pick<EngineConfig, 'transactionMix' | 'scalingSolutions'>,
+>(config: T): T {
+  return {
+    ...config,
+    transactionMix: config.transactionMix.map((entry) => ({
+      ...entry,
+      txType: applyTransactionEffects(entry.txType, config.scalingSolutions),
+    })),
+  };
+}
 
-  return effectiveMax;
+function getMixTypes(mix: TransactionMixEntry[]): TransactionType[] {
+  return mix.map((entry) => entry.txType);
+}
+
+/**
+ * Convert the legacy engine config (equal weights) into an engine config
+ */
+function toEngineConfig(config: SimulationConfig): EngineConfig {
+  const { transactionTypes, ...rest } = config;
+  return {
+    ...rest,
+    transactionMix: transactionTypes.map((txType) => ({ txType, weight: 1 })),
+  };
 }
 
 /**
@@ -93,64 +349,458 @@ function getResourceConsumption(
 }
 
 /**
- * Calculate demand at a given price point
+ * Mix-weighted average consumption of a resource per transaction.
+ * Used to put per-resource fees on a common gwei scale.
  */
-function getDemandAtPrice(
+function getReferenceConsumption(
+  transactionTypes: TransactionType[],
+  resourceId: ResourceId
+): number {
+  let totalConsumption = 0;
+  let totalWeight = 0;
+
+  for (const txType of transactionTypes) {
+    const weight = txType.percentOfMainnetTxs;
+    totalConsumption += getResourceConsumption(txType, resourceId) * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? totalConsumption / totalWeight : 0;
+}
+
+/**
+ * Scale factors that convert a gwei amount into a per-unit fee for each resource.
+ *
+ * The scale is chosen so that a transaction with mix-average consumption pays
+ * an equal share of the gwei amount for every resource it touches. Resources
+ * the mix never consumes get no fee.
+ */
+function getResourceFeeScales(
+  resources: Resource[],
+  transactionTypes: TransactionType[]
+): Record<string, number> {
+  const references: Record<string, number> = {};
+  for (const resource of resources) {
+    references[resource.id] = getReferenceConsumption(transactionTypes, resource.id);
+  }
+
+  const pricedCount = Object.values(references).filter((r) => r > 0).length;
+
+  const scales: Record<string, number> = {};
+  for (const resource of resources) {
+    const reference = references[resource.id];
+    scales[resource.id] = reference > 0 ? 1 / (pricedCount * reference) : 0;
+  }
+  return scales;
+}
+
+/**
+ * Price a transaction pays under per-resource fees:
+ * the sum of consumption × fee over every resource.
+ */
+function getMultidimensionalPrice(
   txType: TransactionType,
+  resources: Resource[],
+  resourceFees: Record<string, number>
+): number {
+  let price = 0;
+  for (const resource of resources) {
+    price += getResourceConsumption(txType, resource.id) * (resourceFees[resource.id] || 0);
+  }
+  return price;
+}
+
+/**
+ * Price paid by the mix-average transaction under per-resource fees
+ */
+function getReferencePrice(
+  resources: Resource[],
+  transactionTypes: TransactionType[],
+  resourceFees: Record<string, number>
+): number {
+  let price = 0;
+  for (const resource of resources) {
+    price +=
+      getReferenceConsumption(transactionTypes, resource.id) *
+      (resourceFees[resource.id] || 0);
+  }
+  return price;
+}
+
+/**
+ * Demand for one mix entry at a price, in TPS.
+ *
+ * Weights are normalized so an equally weighted mix leaves every type at its
+ * own demand; a weight of 2 in a two-type mix with weights 2 and 0 doubles it.
+ */
+function getEntryDemand(
+  entry: TransactionMixEntry,
+  totalWeight: number,
+  mixSize: number,
+  price: number,
   timestamp: number,
-  price: number
+  demandModel: DemandModel,
+  baselineFee: number = INITIAL_BASE_FEE
 ): number {
-  const demandCurve = generateDemandCurve(txType, timestamp);
-
-  // Interpolate demand at the given price
-  for (let i = 0; i < demandCurve.length - 1; i++) {
-    if (price >= demandCurve[i].price && price <= demandCurve[i + 1].price) {
-      const t =
-        (price - demandCurve[i].price) /
-        (demandCurve[i + 1].price - demandCurve[i].price);
-      return (
-        demandCurve[i].quantity * (1 - t) + demandCurve[i + 1].quantity * t
-      );
-    }
+  const normalizedWeight = totalWeight > 0 ? (entry.weight / totalWeight) * mixSize : 0;
+
+  const demand =
+    demandModel === 'price-response'
+      ? entry.txType.baseDemand *
+        calculateDemandResponse(1, price, baselineFee, getDemandCurve(entry.txType))
+      : getDemandAtPrice(entry.txType, timestamp, price);
+
+  return Math.max(0, demand * normalizedWeight);
+}
+
+/**
+ * Calculate demand for each transaction type in a mix at a single price.
+ * typeMultipliers scale individual types on top of demandMultiplier.
+ */
+export function calculateDemand(
+  mix: TransactionMixEntry[],
+  baseFee: number,
+  demandMultiplier: number,
+  options: {
+    demandModel?: DemandModel;
+    timestamp?: number;
+    baselineFee?: number;
+    typeMultipliers?: Record<string, number>;
+  } = {}
+): { total: number; byType: Record<string, number> } {
+  const { demandModel = 'demand-curve', timestamp = 0, baselineFee, typeMultipliers = {} } = options;
+  const totalWeight = mix.reduce((sum, m) => sum + m.weight, 0);
+  const byType: Record<string, number> = {};
+  let total = 0;
+
+  for (const entry of mix) {
+    const demand =
+      getEntryDemand(entry, totalWeight, mix.length, baseFee, timestamp, demandModel, baselineFee) *
+      demandMultiplier *
+      (typeMultipliers[entry.txType.id] ?? 1);
+    byType[entry.txType.id] = demand;
+    total += demand;
   }
 
-  // If price is beyond the curve, return the closest endpoint
-  if (price <= demandCurve[0].price) return demandCurve[0].quantity;
-  return demandCurve[demandCurve.length - 1].quantity;
+  return { total, byType };
 }
 
 /**
- * Calculate EIP-1559 base fee adjustment
+ * Scenario demand multiplier at a timestamp (1.0 without a scenario)
  */
-function calculateEIP1559BaseFee(
-  currentBaseFee: number,
-  utilization: number,
-  params: EIP1559Params
+export function getScenarioMultiplier(
+  scenario: DemandScenario | undefined,
+  timestamp: number
 ): number {
-  const utilizationDelta = utilization - params.targetUtilization;
-  const feeChange =
-    currentBaseFee * params.maxChangeRate * (utilizationDelta / params.targetUtilization);
+  if (!scenario) return 1;
+  const normalizedTime = Math.min(1, timestamp / scenario.duration);
+  return scenario.getDemandMultiplier(normalizedTime);
+}
 
-  return Math.max(params.minBaseFee, currentBaseFee + feeChange);
+/**
+ * Scenario shock multiplier for each transaction type at a timestamp, on top
+ * of getScenarioMultiplier (empty when the scenario has no shocks)
+ */
+export function getScenarioTypeMultipliers(
+  scenario: DemandScenario | undefined,
+  transactionTypes: TransactionType[],
+  timestamp: number
+): Record<string, number> {
+  const getTypeMultiplier = scenario?.getTypeMultiplier;
+  if (!scenario || !getTypeMultiplier) return {};
+  const normalizedTime = Math.min(1, timestamp / scenario.duration);
+  return Object.fromEntries(
+    transactionTypes.map((txType) => [txType.id, getTypeMultiplier(txType, normalizedTime)])
+  );
 }
 
 /**
- * Run a single simulation step
+ * Multiplicative demand noise for one step (1.0 without noise).
+ * Draws nothing when noise is off, so deterministic runs leave the PRNG untouched.
+ */
+export function getDemandNoise(
+  config: Pick<EngineConfig, 'demandNoise'>,
+  random: RandomSource
+): number {
+  if (!config.demandNoise) return 1;
+  return Math.max(0, 1 + config.demandNoise * sampleNormal(random));
+}
+
+/**
+ * Sample the scenario's demand multiplier over the next horizon seconds
+ */
+function getDemandForecast(
+  scenario: DemandScenario | undefined,
+  timestamp: number,
+  horizon: number,
+  timestep: number
+): number[] {
+  if (!scenario || horizon <= 0) return [];
+
+  const steps = Math.ceil(horizon / timestep);
+  const forecast: number[] = [];
+  for (let i = 1; i <= steps; i++) {
+    forecast.push(getScenarioMultiplier(scenario, timestamp + i * timestep));
+  }
+  return forecast;
+}
+
+/**
+ * Utilization the rule saw in each of the steps before this one, oldest
+ * first, for rules that look back more than one step
+ */
+function getRecentUtilization(
+  history: SimulationSnapshot[],
+  rule: BaseFeeRule,
+  getUtilization: (snapshot: SimulationSnapshot) => number
+): number[] {
+  if (rule.window <= 1) return [];
+  // The initial snapshot is not a step
+  return history.slice(1).slice(-(rule.window - 1)).map(getUtilization);
+}
+
+/**
+ * Utilization that prices execution: every resource except blob space when
+ * blobs have their own fee
+ */
+function getExecutionUtilization(
+  resourceStates: Record<string, ResourceState>,
+  blobMarket: BlobMarketConfig | null
+): number {
+  let utilization = 0;
+  for (const state of Object.values(resourceStates)) {
+    if (blobMarket && state.resourceId === 'blob-data') continue;
+    utilization = Math.max(utilization, state.utilization);
+  }
+  return utilization;
+}
+
+/**
+ * Adjust every per-resource fee against that resource's own utilization.
+ * Floors are scaled so that no resource drops below its share of minBaseFee.
+ */
+function calculateMultidimensionalFees(
+  resourceFees: Record<string, number>,
+  resourceStates: Record<string, ResourceState>,
+  feeScales: Record<string, number>,
+  params: EIP1559Params,
+  rule: BaseFeeRule,
+  history: SimulationSnapshot[]
+): Record<string, number> {
+  const newFees: Record<string, number> = {};
+
+  for (const [resourceId, fee] of Object.entries(resourceFees)) {
+    const scale = feeScales[resourceId] || 0;
+    if (scale === 0) {
+      newFees[resourceId] = 0;
+      continue;
+    }
+
+    newFees[resourceId] = rule.nextBaseFee({
+      baseFee: fee,
+      recentUtilization: [
+        ...getRecentUtilization(
+          history,
+          rule,
+          (snapshot) => snapshot.resourceStates[resourceId]?.utilization || 0
+        ),
+        resourceStates[resourceId]?.utilization || 0,
+      ],
+      params: { ...params, minBaseFee: params.minBaseFee * scale },
+    });
+  }
+
+  return newFees;
+}
+
+/**
+ * Blob market in effect, or null when blob-data has no fee of its own
+ */
+function getBlobMarket(config: EngineConfig): BlobMarketConfig | null {
+  return config.blobMarket && config.feeMarketModel !== 'multidim-1559'
+    ? config.blobMarket
+    : null;
+}
+
+/**
+ * The mix with every blob-capable type posting the cheaper way, and the
+ * price per gas each type pays relative to posting calldata (the base fee
+ * for types that cannot post blobs)
+ */
+function choosePosting(
+  mix: TransactionMixEntry[],
+  baseFee: number,
+  blobBaseFee: number
+): { mix: TransactionMixEntry[]; prices: Record<string, number> } {
+  const prices: Record<string, number> = {};
+  const posted = mix.map((entry) => {
+    const { txType } = entry;
+    const costs = getPostingCosts(txType, baseFee, blobBaseFee);
+    const useBlobs = costs.blob < costs.calldata;
+    prices[txType.id] =
+      txType.averageGas > 0 ? Math.min(costs.blob, costs.calldata) / txType.averageGas : baseFee;
+    return useBlobs ? { ...entry, txType: withBlobPosting(txType) } : entry;
+  });
+  return { mix: posted, prices };
+}
+
+/**
+ * Queue rules in effect, or null when unmet demand is not queued
+ */
+function getQueueParams(config: EngineConfig): QueueParams | null {
+  if (config.queueParams) return config.queueParams;
+  if (config.feeMarketModel === 'fixed') {
+    return config.fixedFeeParams ?? DEFAULT_FIXED_FEE_PARAMS;
+  }
+  return null;
+}
+
+/**
+ * Include up to count transactions from a type's pending cohorts.
+ * Returns the cohorts left waiting and the total seconds waited by those included.
+ */
+function serveCohorts(
+  cohorts: PendingCohort[],
+  count: number,
+  timestamp: number,
+  rationing: RationingPolicy
+): { remaining: PendingCohort[]; totalWait: number } {
+  const total = cohorts.reduce((sum, c) => sum + c.count, 0);
+  const remaining: PendingCohort[] = [];
+  let totalWait = 0;
+  let budget = count;
+
+  for (const cohort of cohorts) {
+    const served =
+      rationing === 'fifo'
+        ? Math.min(cohort.count, budget)
+        : total > 0 ? cohort.count * (count / total) : 0;
+    budget -= served;
+    totalWait += served * (timestamp - cohort.arrivedAt);
+
+    const left = cohort.count - served;
+    if (left > 1e-9) {
+      remaining.push({ ...cohort, count: left });
+    }
+  }
+
+  return { remaining, totalWait };
+}
+
+/**
+ * Drop pending transactions above the mempool cap.
+ * FIFO rejects the newest arrivals; random rationing evicts pro-rata.
+ */
+function enforceMempoolCap(
+  queue: PendingCohort[],
+  cap: number,
+  rationing: RationingPolicy
+): { queue: PendingCohort[]; dropped: number } {
+  const total = queue.reduce((sum, c) => sum + c.count, 0);
+  if (total <= cap) return { queue, dropped: 0 };
+
+  const excess = total - cap;
+
+  if (rationing === 'random') {
+    const keep = cap / total;
+    return {
+      queue: queue.map((c) => ({ ...c, count: c.count * keep })),
+      dropped: excess,
+    };
+  }
+
+  // Newest first
+  const sorted = [...queue].sort((a, b) => b.arrivedAt - a.arrivedAt);
+  let toDrop = excess;
+  const kept: PendingCohort[] = [];
+  for (const cohort of sorted) {
+    const drop = Math.min(cohort.count, toDrop);
+    toDrop -= drop;
+    if (cohort.count - drop > 1e-9) {
+      kept.push({ ...cohort, count: cohort.count - drop });
+    }
+  }
+
+  return {
+    queue: kept.sort((a, b) => a.arrivedAt - b.arrivedAt),
+    dropped: excess,
+  };
+}
+
+/**
+ * Run a single simulation step.
+ *
+ * Capacity is rationed proportionally: each resource serves the same share of
+ * every type's demand, and a type executes at the share of its tightest resource.
  */
 function simulationStep(
-  config: SimulationConfig,
-  prevSnapshot: SimulationSnapshot,
-  resources: Resource[]
-): SimulationSnapshot {
-  const { transactionTypes, scalingSolutions, eip1559Params, timestep } = config;
+  config: EngineConfig,
+  history: SimulationSnapshot[],
+  queue: PendingCohort[],
+  timestep: number,
+  random: RandomSource
+): { snapshot: SimulationSnapshot; queue: PendingCohort[] } {
+  const { resources, scalingSolutions, eip1559Params } = config;
+  const demandModel = config.demandModel ?? 'demand-curve';
+  const queueParams = getQueueParams(config);
 
+  const prevSnapshot = history[history.length - 1];
   const timestamp = prevSnapshot.timestamp + timestep;
   const baseFee = prevSnapshot.baseFee;
+  const isMultidimensional = config.feeMarketModel === 'multidim-1559';
+  const blobMarket = getBlobMarket(config);
 
-  // Initialize resource states
+  // Blob-capable types post whichever way is cheaper at this step's prices
+  const posting = blobMarket
+    ? choosePosting(config.transactionMix, baseFee, prevSnapshot.blobBaseFee ?? 0)
+    : null;
+  const transactionMix = posting?.mix ?? config.transactionMix;
+  const transactionTypes = getMixTypes(transactionMix);
+  const totalWeight = transactionMix.reduce((sum, m) => sum + m.weight, 0);
+  const demandMultiplier =
+    getScenarioMultiplier(config.scenario, timestamp) * getDemandNoise(config, random);
+  const typeMultipliers = getScenarioTypeMultipliers(config.scenario, transactionTypes, timestamp);
+
+  // Demand per type at current prices; queued transactions compete with new arrivals
+  const demandByType: Record<string, number> = {};
+  const cohortsByType: Record<string, PendingCohort[]> = {};
+  const desiredByType: Record<string, number> = {};
+
+  for (const entry of transactionMix) {
+    const { txType } = entry;
+    const price = isMultidimensional
+      ? getMultidimensionalPrice(txType, resources, prevSnapshot.resourceFees)
+      : posting?.prices[txType.id] ?? baseFee;
+    const arrivals =
+      getEntryDemand(entry, totalWeight, transactionMix.length, price, timestamp, demandModel) *
+      demandMultiplier *
+      (typeMultipliers[txType.id] ?? 1) *
+      timestep;
+
+    const cohorts: PendingCohort[] = queueParams
+      ? [
+          ...queue.filter((c) => c.typeId === txType.id),
+          { typeId: txType.id, arrivedAt: timestamp, count: arrivals },
+        ]
+      : [];
+    cohortsByType[txType.id] = cohorts;
+    desiredByType[txType.id] = queueParams
+      ? cohorts.reduce((sum, c) => sum + c.count, 0)
+      : arrivals;
+    demandByType[txType.id] = desiredByType[txType.id] / timestep;
+  }
+
+  // Initialize resource states; parallel lanes are scheduled for this block's mix
+  const parallelSpeedup = getParallelSpeedup(scalingSolutions, desiredByType, transactionTypes);
   const resourceStates: Record<string, ResourceState> = {};
   for (const resource of resources) {
-    const effectiveMax = getEffectiveMaxThroughput(resource, scalingSolutions);
+    const effectiveMax = getEffectiveMaxThroughput(
+      resource,
+      scalingSolutions,
+      config.resourceMultipliers,
+      parallelSpeedup,
+      config.compositionRules
+    );
     resourceStates[resource.id] = {
       resourceId: resource.id,
       currentThroughput: 0,
@@ -160,35 +810,35 @@ function simulationStep(
     };
   }
 
-  // Calculate demand and execute transactions
+  // Share of desired usage each resource can serve this step
+  const servedShare: Record<string, number> = {};
+  for (const resource of resources) {
+    let desiredUsage = 0;
+    for (const txType of transactionTypes) {
+      desiredUsage += getResourceConsumption(txType, resource.id) * desiredByType[txType.id];
+    }
+    const capacity = resourceStates[resource.id].effectiveMaxThroughput * timestep;
+    servedShare[resource.id] = desiredUsage > capacity ? capacity / desiredUsage : 1;
+  }
+
+  // Execute transactions
   let transactionsExecuted = 0;
   let gasUsed = 0;
+  let totalWait = 0;
+  let nextQueue: PendingCohort[] = [];
+  const tpsByType: Record<string, number> = {};
 
   for (const txType of transactionTypes) {
-    // Get demand at current price
-    const demand = getDemandAtPrice(txType, timestamp, baseFee);
-    const desiredTxCount = demand * timestep;
-
-    let executableTxCount = desiredTxCount;
+    const desiredTxCount = desiredByType[txType.id];
 
-    // Check resource constraints
+    // Limited by the tightest resource this type consumes
+    let share = 1;
     for (const resource of resources) {
-      const consumption = getResourceConsumption(txType, resource.id);
-      if (consumption > 0) {
-        const maxTxsForResource =
-          (resourceStates[resource.id].effectiveMaxThroughput * timestep) /
-          consumption;
-
-        const remainingCapacity =
-          maxTxsForResource -
-          resourceStates[resource.id].currentThroughput /
-            (consumption / timestep);
-
-        executableTxCount = Math.min(executableTxCount, remainingCapacity);
+      if (getResourceConsumption(txType, resource.id) > 0) {
+        share = Math.min(share, servedShare[resource.id]);
       }
     }
-
-    executableTxCount = Math.max(0, executableTxCount);
+    const executableTxCount = desiredTxCount * share;
 
     // Update resource consumption
     for (const resource of resources) {
@@ -200,15 +850,27 @@ function simulationStep(
     // Track transactions
     transactionsExecuted += executableTxCount;
     gasUsed += txType.averageGas * executableTxCount;
+    tpsByType[txType.id] = executableTxCount / timestep;
 
-    // Track backpressure (unmet demand)
+    if (queueParams) {
+      const served = serveCohorts(
+        cohortsByType[txType.id],
+        executableTxCount,
+        timestamp,
+        queueParams.rationing
+      );
+      totalWait += served.totalWait;
+      nextQueue = nextQueue.concat(served.remaining);
+    }
+
+    // Track backpressure (unmet demand) on the resources that limited it
     const backpressure = (desiredTxCount - executableTxCount) / timestep;
     if (backpressure > 0) {
       for (const resource of resources) {
-        const utilization =
-          resourceStates[resource.id].currentThroughput /
-          resourceStates[resource.id].effectiveMaxThroughput;
-        if (utilization > 0.9) {
+        if (
+          getResourceConsumption(txType, resource.id) > 0 &&
+          servedShare[resource.id] < 1
+        ) {
           resourceStates[resource.id].backpressure += backpressure;
         }
       }
@@ -217,78 +879,319 @@ function simulationStep(
 
   // Calculate utilization
   let maxUtilization = 0;
+  let bottleneckResource = resources[0]?.id ?? '';
   for (const resource of resources) {
     resourceStates[resource.id].utilization = Math.min(
       1,
       resourceStates[resource.id].currentThroughput /
         resourceStates[resource.id].effectiveMaxThroughput
     );
-    maxUtilization = Math.max(
-      maxUtilization,
-      resourceStates[resource.id].utilization
-    );
+    if (resourceStates[resource.id].utilization > maxUtilization) {
+      maxUtilization = resourceStates[resource.id].utilization;
+      bottleneckResource = resource.id;
+    }
   }
 
   // Calculate new base fee
+  const rule = config.baseFeeRule ?? eip1559Rule;
   let newBaseFee = baseFee;
+  let newResourceFees = prevSnapshot.resourceFees;
   if (config.feeMarketModel === 'eip1559') {
-    newBaseFee = calculateEIP1559BaseFee(baseFee, maxUtilization, eip1559Params);
+    newBaseFee = rule.nextBaseFee({
+      baseFee,
+      recentUtilization: [
+        ...getRecentUtilization(history, rule, (snapshot) =>
+          getExecutionUtilization(snapshot.resourceStates, blobMarket)
+        ),
+        getExecutionUtilization(resourceStates, blobMarket),
+      ],
+      params: eip1559Params,
+    });
+  } else if (isMultidimensional) {
+    newResourceFees = calculateMultidimensionalFees(
+      prevSnapshot.resourceFees,
+      resourceStates,
+      getResourceFeeScales(resources, transactionTypes),
+      eip1559Params,
+      rule,
+      history
+    );
+    newBaseFee = getReferencePrice(resources, transactionTypes, newResourceFees);
   }
 
+  // The blob fee moves once per block, so the target covers every block in the step
+  let blobState: BlobMarketState | null = null;
+  if (blobMarket) {
+    const blobsUsed = (resourceStates['blob-data']?.currentThroughput ?? 0) * timestep;
+    const blocksPerStep = timestep / blobMarket.slotTime;
+    blobState = processBlobBlock(
+      {
+        excessBlobGas: prevSnapshot.excessBlobGas ?? 0,
+        blobBaseFee: prevSnapshot.blobBaseFee ?? 0,
+      },
+      blobsUsed,
+      { ...blobMarket, targetBlobsPerBlock: blobMarket.targetBlobsPerBlock * blocksPerStep }
+    );
+  }
+
+  const capped = queueParams
+    ? enforceMempoolCap(nextQueue, queueParams.mempoolCap, queueParams.rationing)
+    : { queue: [], dropped: 0 };
+
   return {
-    timestamp,
-    resourceStates,
-    baseFee: newBaseFee,
-    transactionsExecuted: Math.round(transactionsExecuted),
-    transactionsPending: 0,
-    gasUsed: Math.round(gasUsed),
-    tps: transactionsExecuted / timestep,
+    snapshot: {
+      timestamp,
+      resourceStates,
+      baseFee: newBaseFee,
+      resourceFees: newResourceFees,
+      transactionsExecuted: Math.round(transactionsExecuted),
+      transactionsPending: Math.round(capped.queue.reduce((sum, c) => sum + c.count, 0)),
+      transactionsDropped: Math.round(capped.dropped),
+      averageWaitTime: transactionsExecuted > 0 ? totalWait / transactionsExecuted : 0,
+      gasUsed: Math.round(gasUsed),
+      tps: transactionsExecuted / timestep,
+      totalDemand: Object.values(demandByType).reduce((a, b) => a + b, 0),
+      demandByType,
+      tpsByType,
+      utilization: maxUtilization,
+      bottleneckResource,
+      ...blobState,
+    },
+    queue: capped.queue,
   };
 }
 
 /**
- * Run a complete simulation
+ * Ask the configured fee controller for the next base fee.
+ * The history already includes the step being priced.
  */
-export function runSimulation(config: SimulationConfig): SimulationResult {
-  const snapshots: SimulationSnapshot[] = [];
+function getControllerBaseFee(
+  config: EngineConfig,
+  history: SimulationSnapshot[],
+  timestep: number
+): number {
+  const { eip1559Params } = config;
+  const controller = config.feeController ?? pidController;
+  const { timestamp } = history[history.length - 1];
+
+  const nextBaseFee = controller.nextBaseFee({
+    history,
+    demandMultiplier: getScenarioMultiplier(config.scenario, timestamp),
+    forecast: getDemandForecast(
+      config.scenario,
+      timestamp,
+      controller.forecastHorizon,
+      timestep
+    ),
+    params: eip1559Params,
+    timestep,
+  });
+
+  return Math.max(eip1559Params.minBaseFee, nextBaseFee);
+}
+
+/**
+ * Parallel lanes start scheduled for the demand at the initial price
+ */
+function getInitialParallelSpeedup(config: EngineConfig): number {
+  const initialDemand = calculateDemand(
+    config.transactionMix,
+    INITIAL_BASE_FEE,
+    getScenarioMultiplier(config.scenario, 0),
+    {
+      demandModel: config.demandModel,
+      typeMultipliers: getScenarioTypeMultipliers(
+        config.scenario,
+        getMixTypes(config.transactionMix),
+        0
+      ),
+    }
+  );
+  return getParallelSpeedup(
+    config.scalingSolutions,
+    initialDemand.byType,
+    getMixTypes(config.transactionMix)
+  );
+}
+
+/**
+ * Per-resource derivation of the starting capacity
+ */
+export interface CapacityExplanation {
+  /** Enabled solutions that take effect */
+  activeSolutionIds: string[];
+  /** Enabled solutions that do not, and why */
+  issues: CompositionIssue[];
+  resources: Record<
+    string,
+    {
+      baseThroughput: number;
+      /** Extra multiplier from resourceMultipliers */
+      resourceMultiplier: number;
+      breakdown: MultiplierBreakdown;
+      effectiveMaxThroughput: number;
+    }
+  >;
+}
+
+/**
+ * Explain how each resource's starting capacity was derived from the
+ * enabled scaling solutions
+ */
+export function explainCapacity(engineConfig: EngineConfig): CapacityExplanation {
+  const config = withTransactionEffects(engineConfig);
+  const { active, issues, breakdowns } = composeMultipliers(
+    config.resources.map((r) => r.id),
+    config.scalingSolutions,
+    { parallelSpeedup: getInitialParallelSpeedup(config), rules: config.compositionRules }
+  );
+
+  const resources: CapacityExplanation['resources'] = {};
+  for (const resource of config.resources) {
+    const resourceMultiplier = config.resourceMultipliers?.[resource.id] ?? 1;
+    const breakdown = breakdowns[resource.id];
+    resources[resource.id] = {
+      baseThroughput: resource.maxThroughput,
+      resourceMultiplier,
+      breakdown,
+      effectiveMaxThroughput: resource.maxThroughput * resourceMultiplier * breakdown.multiplier,
+    };
+  }
 
-  const resources = config.resources;
+  return { activeSolutionIds: active.map((s) => s.id), issues, resources };
+}
 
-  // Initial state
-  const initialResourceStates: Record<string, ResourceState> = {};
+/**
+ * Create the engine state at time zero
+ */
+export function createEngineState(engineConfig: EngineConfig): EngineState {
+  const config = withTransactionEffects(engineConfig);
+  const { resources } = config;
+  const parallelSpeedup = getInitialParallelSpeedup(config);
+
+  const resourceStates: Record<string, ResourceState> = {};
   for (const resource of resources) {
-    initialResourceStates[resource.id] = {
+    resourceStates[resource.id] = {
       resourceId: resource.id,
       currentThroughput: 0,
       utilization: 0,
       backpressure: 0,
-      effectiveMaxThroughput: getEffectiveMaxThroughput(resource, config.scalingSolutions),
+      effectiveMaxThroughput: getEffectiveMaxThroughput(
+        resource,
+        config.scalingSolutions,
+        config.resourceMultipliers,
+        parallelSpeedup,
+        config.compositionRules
+      ),
     };
   }
 
-  let currentSnapshot: SimulationSnapshot = {
+  // Per-resource fees start where the mix-average transaction pays the initial base fee
+  const resourceFees: Record<string, number> = {};
+  if (config.feeMarketModel === 'multidim-1559') {
+    const feeScales = getResourceFeeScales(resources, getMixTypes(config.transactionMix));
+    for (const resource of resources) {
+      resourceFees[resource.id] = INITIAL_BASE_FEE * feeScales[resource.id];
+    }
+  }
+
+  const snapshot: SimulationSnapshot = {
     timestamp: 0,
-    resourceStates: initialResourceStates,
-    baseFee: 20,
+    resourceStates,
+    baseFee:
+      config.feeMarketModel === 'fixed'
+        ? (config.fixedFeeParams ?? DEFAULT_FIXED_FEE_PARAMS).fee
+        : INITIAL_BASE_FEE,
+    resourceFees,
     transactionsExecuted: 0,
     transactionsPending: 0,
+    transactionsDropped: 0,
+    averageWaitTime: 0,
     gasUsed: 0,
     tps: 0,
+    totalDemand: 0,
+    demandByType: {},
+    tpsByType: {},
+    utilization: 0,
+    bottleneckResource: resources[0]?.id ?? '',
   };
+  const blobMarket = getBlobMarket(config);
+  if (blobMarket) Object.assign(snapshot, createBlobMarketState(blobMarket));
 
-  snapshots.push(currentSnapshot);
+  return {
+    history: [snapshot],
+    queue: [],
+    isComplete: false,
+    rngState: (config.seed ?? DEFAULT_SEED) >>> 0,
+  };
+}
 
-  // Run simulation
+/**
+ * Advance the run in place by one timestep
+ */
+function advance(
+  config: EngineConfig,
+  history: SimulationSnapshot[],
+  queue: PendingCohort[],
+  timestep: number,
+  random: RandomSource
+): PendingCohort[] {
+  const step = simulationStep(config, history, queue, timestep, random);
+  history.push(step.snapshot);
+
+  // Predictive controllers see the step they are pricing for
+  if (config.feeMarketModel === 'ai-oracle') {
+    step.snapshot.baseFee = getControllerBaseFee(config, history, timestep);
+  }
+
+  return step.queue;
+}
+
+/**
+ * Advance the engine by one timestep (defaults to config.timestep)
+ */
+export function stepEngine(
+  state: EngineState,
+  config: EngineConfig,
+  timestep: number = config.timestep
+): EngineState {
+  if (state.isComplete) return state;
+
+  const history = [...state.history];
+  const random = createRandom(state.rngState);
+  const queue = advance(withTransactionEffects(config), history, state.queue, timestep, random);
+  const { timestamp } = history[history.length - 1];
+
+  return {
+    history,
+    queue,
+    isComplete: timestamp >= config.duration - 1e-9,
+    rngState: random.getState(),
+  };
+}
+
+/**
+ * Run the engine for its full duration
+ */
+export function runEngine(config: EngineConfig): SimulationResult {
+  const { history, rngState } = createEngineState(config);
+  const random = createRandom(rngState);
+  const effectiveConfig = withTransactionEffects(config);
+
+  let queue: PendingCohort[] = [];
   const steps = Math.ceil(config.duration / config.timestep);
   for (let i = 0; i < steps; i++) {
-    currentSnapshot = simulationStep(config, currentSnapshot, resources);
-    snapshots.push(currentSnapshot);
+    queue = advance(effectiveConfig, history, queue, config.timestep, random);
   }
 
-  // Calculate summary statistics
-  const summary = calculateSummary(snapshots, resources);
+  return { snapshots: history, summary: calculateSummary(history, config.resources) };
+}
 
-  return { snapshots, summary };
+/**
+ * Run a complete simulation
+ */
+export function runSimulation(config: SimulationConfig): SimulationResult {
+  return runEngine(toEngineConfig(config));
 }
 
 /**
@@ -304,6 +1207,8 @@ function calculateSummary(
   // Per-resource statistics
   const avgUtilization: Record<string, number> = {};
   const peakBackpressure: Record<string, number> = {};
+  const averageResourceFees: Record<string, number> = {};
+  const resourceFeeVolatility: Record<string, number> = {};
 
   for (const resource of resources) {
     const utilizations = snapshots.map(
@@ -315,6 +1220,15 @@ function calculateSummary(
 
     avgUtilization[resource.id] = average(utilizations);
     peakBackpressure[resource.id] = Math.max(...backpressures);
+
+    // Per-resource fees only exist under the multidimensional model
+    if (snapshots.some((s) => resource.id in s.resourceFees)) {
+      const fees = snapshots.map((s) => s.resourceFees[resource.id] || 0);
+      const avgFee = average(fees);
+      averageResourceFees[resource.id] = avgFee;
+      resourceFeeVolatility[resource.id] =
+        avgFee > 0 ? standardDeviation(fees) / avgFee : 0;
+    }
   }
 
   // Find bottleneck (resource with highest average utilization)
@@ -332,6 +1246,13 @@ function calculateSummary(
   const feeStdDev = standardDeviation(baseFeeValues);
   const feeVolatility = avgBaseFee > 0 ? feeStdDev / avgBaseFee : 0;
 
+  // Wait time weighted by how many transactions experienced it
+  const totalExecuted = snapshots.reduce((sum, s) => sum + s.transactionsExecuted, 0);
+  const totalWait = snapshots.reduce(
+    (sum, s) => sum + s.averageWaitTime * s.transactionsExecuted,
+    0
+  );
+
   return {
     averageTPS: average(tpsValues),
     peakTPS: Math.max(...tpsValues),
@@ -339,11 +1260,13 @@ function calculateSummary(
     peakBackpressure,
     averageBaseFee: avgBaseFee,
     feeVolatility,
+    averageResourceFees,
+    resourceFeeVolatility,
     bottleneckResource,
-    totalTransactionsExecuted: snapshots.reduce(
-      (sum, s) => sum + s.transactionsExecuted,
-      0
-    ),
+    totalTransactionsExecuted: totalExecuted,
+    averageWaitTime: totalExecuted > 0 ? totalWait / totalExecuted : 0,
+    peakTransactionsPending: Math.max(...snapshots.map((s) => s.transactionsPending)),
+    totalTransactionsDropped: snapshots.reduce((sum, s) => sum + s.transactionsDropped, 0),
   };
 }
 
@@ -361,25 +1284,37 @@ function standardDeviation(values: number[]): number {
 }
 
 /**
- * Quick estimate of TPS for a given configuration
- * (without running full simulation)
+ * TPS each resource alone would allow for the mix, keyed by resource ID.
+ * Resources the mix does not consume are left out.
  */
-export function estimateTPS(
+export function estimateResourceTPS(
   resources: Resource[],
   transactionTypes: TransactionType[],
   scalingSolutions: ScalingSolution[]
-): number {
+): Record<string, number> {
   // For each resource, calculate max TPS based on that resource
   const tpsPerResource: Record<string, number> = {};
+  const types = transactionTypes.map((txType) => applyTransactionEffects(txType, scalingSolutions));
+
+  // Parallel lanes are scheduled for a block with the mainnet mix
+  const mainnetCounts = Object.fromEntries(
+    types.map((txType) => [txType.id, txType.percentOfMainnetTxs])
+  );
+  const parallelSpeedup = getParallelSpeedup(scalingSolutions, mainnetCounts, types);
 
   for (const resource of resources) {
-    const effectiveMax = getEffectiveMaxThroughput(resource, scalingSolutions);
+    const effectiveMax = getEffectiveMaxThroughput(
+      resource,
+      scalingSolutions,
+      {},
+      parallelSpeedup
+    );
 
     // Calculate weighted average consumption across transaction types
     let totalConsumption = 0;
     let totalWeight = 0;
 
-    for (const txType of transactionTypes) {
+    for (const txType of types) {
       const consumption = getResourceConsumption(txType, resource.id);
       const weight = txType.percentOfMainnetTxs;
 
@@ -395,7 +1330,68 @@ export function estimateTPS(
     }
   }
 
+  return tpsPerResource;
+}
+
+/**
+ * Gas and capacity of a fixed mix
+ */
+export interface MixCapacity {
+  /** Gas per transaction, weighted by share of mainnet transactions */
+  averageGas: number;
+  /** TPS each resource alone would allow */
+  tpsByResource: Record<string, number>;
+  /** Resource allowing the fewest TPS (null if the mix consumes nothing) */
+  bottleneck: ResourceId | null;
+  tps: number;
+}
+
+/**
+ * Average gas, per-resource TPS and bottleneck of a fixed mix
+ * @param excludedResource - Reported in tpsByResource but never the
+ *   bottleneck, for a resource priced in its own market
+ */
+export function evaluateMixCapacity(
+  resources: Resource[],
+  transactionTypes: TransactionType[],
+  scalingSolutions: ScalingSolution[],
+  excludedResource?: ResourceId
+): MixCapacity {
+  const totalWeight = transactionTypes.reduce((sum, txType) => sum + txType.percentOfMainnetTxs, 0);
+  const averageGas =
+    totalWeight > 0
+      ? transactionTypes.reduce(
+          (sum, txType) => sum + txType.averageGas * txType.percentOfMainnetTxs,
+          0
+        ) / totalWeight
+      : 0;
+
+  const tpsByResource = estimateResourceTPS(resources, transactionTypes, scalingSolutions);
+  let bottleneck: ResourceId | null = null;
+  let tps = 0;
+  for (const [resourceId, resourceTPS] of Object.entries(tpsByResource)) {
+    if (resourceId === excludedResource) continue;
+    if (bottleneck === null || resourceTPS < tps) {
+      bottleneck = resourceId as ResourceId;
+      tps = resourceTPS;
+    }
+  }
+
+  return { averageGas, tpsByResource, bottleneck, tps };
+}
+
+/**
+ * Quick estimate of TPS for a given configuration
+ * (without running full simulation).
+ * Assumes the mix is fixed; optimizeThroughput in optimizer.ts lets it shift.
+ * planCapacity in planner.ts answers the inverse question.
+ */
+export function estimateTPS(
+  resources: Resource[],
+  transactionTypes: TransactionType[],
+  scalingSolutions: ScalingSolution[]
+): number {
   // Return the minimum (bottleneck)
-  const tpsValues = Object.values(tpsPerResource);
+  const tpsValues = Object.values(estimateResourceTPS(resources, transactionTypes, scalingSolutions));
   return tpsValues.length > 0 ? Math.min(...tpsValues) : 0;
 }
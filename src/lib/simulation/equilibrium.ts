@@ -0,0 +1,314 @@
+/**
+ * Market Equilibrium
+ *
+ * The static market: every transaction type's demand curve (demand.ts)
+ * against fixed resource capacities, with no fee dynamics. The clearing
+ * price is the lowest price at which every resource's usage fits its
+ * capacity:
+ *
+ *   Σ_t consumption[t][r] · Q_t(price_t) ≤ capacity[r]
+ *
+ * - Single price: every type pays the same price per gas, found by bisection
+ * - Multidimensional: each resource has its own price and a type pays
+ *   Σ consumption × price, as under 'multidim-1559'. Prices are found by
+ *   bisecting one resource at a time until none moves; a resource ends up
+ *   either at capacity or priced at zero.
+ *
+ * Demand is evaluated exactly as the engine evaluates it, so above
+ * MAX_DEMAND_PRICE it no longer falls.
+ */
+
+import type { Resource, ResourceId } from '@/data/resources/types';
+import type { TransactionType } from '@/data/transactions/types';
+import {
+  getDemandAtPrice,
+  integrateDemand,
+  MAX_DEMAND_PRICE,
+} from '@/data/transactions/demand';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EquilibriumConfig {
+  resources: Resource[];
+  transactionTypes: TransactionType[];
+  /** Capacity per second of each resource (default: its maxThroughput) */
+  capacities?: Partial<Record<ResourceId, number>>;
+  /** Timestamp demand is evaluated at (default 0) */
+  timestamp?: number;
+  /** Scales every type's demand (default 1) */
+  demandMultiplier?: number;
+  /** Bisection steps per price (default 60) */
+  iterations?: number;
+}
+
+export interface EquilibriumResult {
+  /**
+   * Price per gas in gwei. For a multidimensional market, the average paid
+   * per unit of gas accepted.
+   */
+  price: number;
+  /** Per-resource prices in gwei per resource unit (empty for a single price) */
+  resourcePrices: Record<string, number>;
+  /** Price per gas each type pays */
+  priceByType: Record<string, number>;
+  /** Accepted TPS per type */
+  quantities: Record<string, number>;
+  tps: number;
+  /** Usage / capacity per resource */
+  utilization: Record<string, number>;
+  /** Resources at capacity */
+  bindingResources: ResourceId[];
+  /** Area under each type's demand curve above its price, in gwei per second */
+  surplusByType: Record<string, number>;
+  consumerSurplus: number;
+  /** Fees paid per second in gwei (Σ TPS × averageGas × price) */
+  revenue: number;
+  /**
+   * False when demand exceeds capacity even at MAX_DEMAND_PRICE;
+   * quantities are then rationed to fit, like a full block.
+   */
+  cleared: boolean;
+}
+
+/**
+ * What the market does at a given set of prices
+ */
+export interface MarketOutcome {
+  /** Demanded TPS per type */
+  demand: Record<string, number>;
+  /** Usage / capacity per resource */
+  utilization: Record<string, number>;
+  /** Demanded TPS that does not fit, at the tightest resource */
+  excessDemand: number;
+}
+
+/** Utilization treated as full when reporting binding resources */
+const BINDING_UTILIZATION = 0.999;
+
+const DEFAULT_ITERATIONS = 60;
+
+/** Rounds of per-resource bisection before giving up on convergence */
+const MAX_ROUNDS = 100;
+
+// ============================================================================
+// Market Evaluation
+// ============================================================================
+
+interface Market {
+  resources: Resource[];
+  transactionTypes: TransactionType[];
+  timestamp: number;
+  capacities: Record<string, number>;
+  demandMultiplier: number;
+  iterations: number;
+}
+
+function createMarket(config: EquilibriumConfig): Market {
+  const { resources, transactionTypes, timestamp = 0 } = config;
+  return {
+    resources,
+    transactionTypes,
+    timestamp,
+    capacities: Object.fromEntries(
+      resources.map((r) => [r.id, config.capacities?.[r.id] ?? r.maxThroughput])
+    ),
+    demandMultiplier: config.demandMultiplier ?? 1,
+    iterations: config.iterations ?? DEFAULT_ITERATIONS,
+  };
+}
+
+function getConsumption(txType: TransactionType, resourceId: string): number {
+  return txType.resourceConsumption[resourceId] || 0;
+}
+
+function getDemand(market: Market, priceByType: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    market.transactionTypes.map((txType) => [
+      txType.id,
+      getDemandAtPrice(txType, market.timestamp, priceByType[txType.id]) * market.demandMultiplier,
+    ])
+  );
+}
+
+function getUtilization(market: Market, demand: Record<string, number>): Record<string, number> {
+  const utilization: Record<string, number> = {};
+  for (const resource of market.resources) {
+    let usage = 0;
+    for (const txType of market.transactionTypes) {
+      usage += getConsumption(txType, resource.id) * demand[txType.id];
+    }
+    const capacity = market.capacities[resource.id];
+    utilization[resource.id] = capacity > 0 ? usage / capacity : usage > 0 ? Infinity : 0;
+  }
+  return utilization;
+}
+
+function getUniformPrices(market: Market, price: number): Record<string, number> {
+  return Object.fromEntries(market.transactionTypes.map((txType) => [txType.id, price]));
+}
+
+function getResourcePricesByType(
+  market: Market,
+  resourcePrices: Record<string, number>
+): Record<string, number> {
+  return Object.fromEntries(
+    market.transactionTypes.map((txType) => [
+      txType.id,
+      market.resources.reduce(
+        (sum, r) => sum + getConsumption(txType, r.id) * (resourcePrices[r.id] || 0),
+        0
+      ),
+    ])
+  );
+}
+
+/**
+ * Demand, utilization and the demand left waiting at one price per gas.
+ * Below the clearing price the excess is the backpressure a fee market sees.
+ */
+export function evaluateMarket(config: EquilibriumConfig, price: number): MarketOutcome {
+  const market = createMarket(config);
+  const demand = getDemand(market, getUniformPrices(market, price));
+  const utilization = getUtilization(market, demand);
+  const tightest = Math.max(0, ...Object.values(utilization));
+  const total = Object.values(demand).reduce((a, b) => a + b, 0);
+
+  return {
+    demand,
+    utilization,
+    excessDemand: tightest > 1 ? total * (1 - 1 / tightest) : 0,
+  };
+}
+
+/**
+ * Lowest value in [0, high] where fits holds, assuming it holds at high
+ * and keeps holding above the answer
+ */
+function bisect(high: number, iterations: number, fits: (value: number) => boolean): number {
+  if (fits(0)) return 0;
+  let low = 0;
+  for (let i = 0; i < iterations; i++) {
+    const mid = (low + high) / 2;
+    if (fits(mid)) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+function fitsCapacity(utilization: Record<string, number>, resourceId?: string): boolean {
+  if (resourceId !== undefined) return utilization[resourceId] <= 1;
+  return Object.values(utilization).every((u) => u <= 1);
+}
+
+function summarize(
+  market: Market,
+  priceByType: Record<string, number>,
+  resourcePrices: Record<string, number>
+): EquilibriumResult {
+  const demand = getDemand(market, priceByType);
+  const demanded = getUtilization(market, demand);
+  const tightest = Math.max(0, ...Object.values(demanded));
+  const cleared = tightest <= 1 + 1e-9;
+
+  // Ration proportionally when even the top price leaves blocks over capacity
+  const share = cleared ? 1 : 1 / tightest;
+  const quantities: Record<string, number> = {};
+  const surplusByType: Record<string, number> = {};
+  let tps = 0;
+  let consumerSurplus = 0;
+  let revenue = 0;
+  let gas = 0;
+
+  for (const txType of market.transactionTypes) {
+    const quantity = demand[txType.id] * share;
+    const price = priceByType[txType.id];
+    const surplus =
+      integrateDemand(txType, market.timestamp, price) *
+      market.demandMultiplier *
+      share *
+      txType.averageGas;
+
+    quantities[txType.id] = quantity;
+    surplusByType[txType.id] = surplus;
+    tps += quantity;
+    consumerSurplus += surplus;
+    revenue += quantity * txType.averageGas * price;
+    gas += quantity * txType.averageGas;
+  }
+
+  const utilization = getUtilization(market, quantities);
+  return {
+    price: gas > 0 ? revenue / gas : 0,
+    resourcePrices,
+    priceByType,
+    quantities,
+    tps,
+    utilization,
+    bindingResources: market.resources
+      .filter((r) => utilization[r.id] >= BINDING_UTILIZATION)
+      .map((r) => r.id),
+    surplusByType,
+    consumerSurplus,
+    revenue,
+    cleared,
+  };
+}
+
+// ============================================================================
+// Solvers
+// ============================================================================
+
+/**
+ * Clearing price when every type pays the same price per gas
+ */
+export function solveSinglePriceEquilibrium(config: EquilibriumConfig): EquilibriumResult {
+  const market = createMarket(config);
+  const price = bisect(MAX_DEMAND_PRICE, market.iterations, (p) =>
+    fitsCapacity(getUtilization(market, getDemand(market, getUniformPrices(market, p))))
+  );
+
+  const result = summarize(market, getUniformPrices(market, price), {});
+  return { ...result, price };
+}
+
+/**
+ * Per-resource clearing prices. Each round re-bisects every resource's
+ * price with the others held fixed; it stops when a round moves no price by
+ * more than a millionth of MAX_DEMAND_PRICE.
+ */
+export function solveMultidimensionalEquilibrium(config: EquilibriumConfig): EquilibriumResult {
+  const market = createMarket(config);
+  const resourcePrices: Record<string, number> = Object.fromEntries(
+    market.resources.map((r) => [r.id, 0])
+  );
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    let moved = 0;
+
+    for (const resource of market.resources) {
+      const minConsumption = Math.min(
+        ...market.transactionTypes
+          .map((txType) => getConsumption(txType, resource.id))
+          .filter((c) => c > 0)
+      );
+      // No type uses it, so it never binds
+      if (!Number.isFinite(minConsumption)) continue;
+
+      const fits = (value: number) => {
+        const prices = { ...resourcePrices, [resource.id]: value };
+        const demand = getDemand(market, getResourcePricesByType(market, prices));
+        return fitsCapacity(getUtilization(market, demand), resource.id);
+      };
+      // At this price every type using the resource is past MAX_DEMAND_PRICE
+      const price = bisect(MAX_DEMAND_PRICE / minConsumption, market.iterations, fits);
+      moved = Math.max(moved, Math.abs(price - resourcePrices[resource.id]) * minConsumption);
+      resourcePrices[resource.id] = price;
+    }
+
+    if (moved <= MAX_DEMAND_PRICE * 1e-6) break;
+  }
+
+  return summarize(market, getResourcePricesByType(market, resourcePrices), resourcePrices);
+}
@@ -0,0 +1,206 @@
+/**
+ * Predictive Fee Controllers
+ *
+ * Built-in pricing strategies for the 'ai-oracle' fee market model.
+ * Each controller sees the snapshot history and the scenario's demand
+ * forecast and returns the next base fee.
+ *
+ * All controllers are pure: any state they need (integral terms, trends)
+ * is recomputed from the history they are given.
+ */
+
+import type { FeeController, FeeControllerContext, SimulationSnapshot } from './engine';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Utilization of the most constrained resource in a snapshot
+ */
+function getBottleneckUtilization(snapshot: SimulationSnapshot): number {
+  let maxUtilization = 0;
+  for (const state of Object.values(snapshot.resourceStates)) {
+    maxUtilization = Math.max(maxUtilization, state.utilization);
+  }
+  return maxUtilization;
+}
+
+/**
+ * Utilization the bottleneck would have seen without capacity limits.
+ * Unmet demand shows up as backpressure, so it is added back on top of TPS.
+ */
+function getUncappedUtilization(snapshot: SimulationSnapshot): number {
+  const utilization = getBottleneckUtilization(snapshot);
+  if (snapshot.tps <= 0) return utilization;
+
+  let unmetDemand = 0;
+  for (const state of Object.values(snapshot.resourceStates)) {
+    unmetDemand = Math.max(unmetDemand, state.backpressure);
+  }
+
+  return utilization * ((snapshot.tps + unmetDemand) / snapshot.tps);
+}
+
+/**
+ * Normalized distance from target, matching the EIP-1559 delta / target term
+ */
+function getUtilizationError(snapshot: SimulationSnapshot, targetUtilization: number): number {
+  return (getBottleneckUtilization(snapshot) - targetUtilization) / targetUtilization;
+}
+
+function clampFactor(factor: number, maxStepChange: number): number {
+  return Math.max(1 - maxStepChange, Math.min(1 + maxStepChange, factor));
+}
+
+// ============================================================================
+// PID Controller
+// ============================================================================
+
+export interface PIDControllerOptions {
+  /** Proportional gain (per step) */
+  kp: number;
+  /** Integral gain (per second of accumulated error) */
+  ki: number;
+  /** Derivative gain (seconds) */
+  kd: number;
+  /** Seconds of history included in the integral term */
+  integralWindow: number;
+  /** Maximum fractional fee change per step */
+  maxStepChange: number;
+}
+
+export const DEFAULT_PID_OPTIONS: PIDControllerOptions = {
+  kp: 0.1,
+  ki: 0.02,
+  kd: 0.005,
+  integralWindow: 10,
+  maxStepChange: 0.25,
+};
+
+/**
+ * Create a PID controller that steers bottleneck utilization to target.
+ *
+ * The controller works in log-price space so the fee stays positive:
+ * newFee = fee * exp(kp * e + ki * ∫e + kd * de/dt)
+ */
+export function createPIDController(
+  options: Partial<PIDControllerOptions> = {}
+): FeeController {
+  const { kp, ki, kd, integralWindow, maxStepChange } = { ...DEFAULT_PID_OPTIONS, ...options };
+
+  return {
+    id: 'pid',
+    name: 'PID Controller',
+    description: 'Proportional-integral-derivative control on bottleneck utilization',
+    forecastHorizon: 0,
+    nextBaseFee: ({ history, params, timestep }: FeeControllerContext) => {
+      const current = history[history.length - 1];
+      const previous = history[history.length - 2] ?? current;
+
+      const error = getUtilizationError(current, params.targetUtilization);
+      const previousError = getUtilizationError(previous, params.targetUtilization);
+
+      // Integrate error over the recent window
+      const windowSteps = Math.max(1, Math.round(integralWindow / timestep));
+      let integral = 0;
+      for (const snapshot of history.slice(-windowSteps)) {
+        integral += getUtilizationError(snapshot, params.targetUtilization) * timestep;
+      }
+
+      const derivative = (error - previousError) / timestep;
+      const adjustment = kp * error + ki * integral + kd * derivative;
+
+      return current.baseFee * clampFactor(Math.exp(adjustment), maxStepChange);
+    },
+  };
+}
+
+// ============================================================================
+// Look-Ahead Demand Forecaster
+// ============================================================================
+
+export interface LookAheadControllerOptions {
+  /** Seconds of scenario forecast to average over */
+  forecastHorizon: number;
+  /**
+   * Assumed price elasticity of aggregate demand.
+   * Price moves by (predicted / target)^(1 / elasticity).
+   */
+  demandElasticity: number;
+  /** Fraction of the gap to the predicted clearing fee closed each step (0-1) */
+  smoothing: number;
+  /** Maximum fractional fee change per step */
+  maxStepChange: number;
+}
+
+export const DEFAULT_LOOK_AHEAD_OPTIONS: LookAheadControllerOptions = {
+  forecastHorizon: 5,
+  demandElasticity: 1,
+  smoothing: 0.2,
+  maxStepChange: 0.25,
+};
+
+/**
+ * Create a controller that prices for the demand it expects, not the demand it saw.
+ *
+ * It rescales the current (uncapped) utilization by the ratio between the
+ * forecast demand and today's demand, then moves the fee toward the level
+ * that would bring that predicted utilization back to target.
+ */
+export function createLookAheadController(
+  options: Partial<LookAheadControllerOptions> = {}
+): FeeController {
+  const { forecastHorizon, demandElasticity, smoothing, maxStepChange } = {
+    ...DEFAULT_LOOK_AHEAD_OPTIONS,
+    ...options,
+  };
+
+  return {
+    id: 'look-ahead',
+    name: 'Look-Ahead Forecaster',
+    description: 'Prices for forecast demand over the next few seconds',
+    forecastHorizon,
+    nextBaseFee: ({ history, demandMultiplier, forecast, params }: FeeControllerContext) => {
+      const current = history[history.length - 1];
+
+      const expectedMultiplier =
+        forecast.length > 0
+          ? forecast.reduce((a, b) => a + b, 0) / forecast.length
+          : demandMultiplier;
+      const demandRatio = demandMultiplier > 0 ? expectedMultiplier / demandMultiplier : 1;
+
+      const predictedUtilization = getUncappedUtilization(current) * demandRatio;
+      if (predictedUtilization <= 0) {
+        return current.baseFee * (1 - maxStepChange);
+      }
+
+      const targetFactor = Math.pow(
+        predictedUtilization / params.targetUtilization,
+        1 / demandElasticity
+      );
+      const factor = 1 + (targetFactor - 1) * smoothing;
+
+      return current.baseFee * clampFactor(factor, maxStepChange);
+    },
+  };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const pidController = createPIDController();
+export const lookAheadController = createLookAheadController();
+
+/**
+ * All built-in fee controllers
+ */
+export const feeControllers: FeeController[] = [pidController, lookAheadController];
+
+/**
+ * Get a built-in fee controller by ID
+ */
+export function getFeeController(id: string): FeeController | undefined {
+  return feeControllers.find((c) => c.id === id);
+}
@@ -0,0 +1,96 @@
+/**
+ * Base Fee Rule Comparison
+ *
+ * Runs the unified engine once per base fee rule (fee-rules.ts) on the same
+ * config and measures how each prices it: fee level and volatility, how
+ * closely utilization tracks the rule's target, and how often it overshoots.
+ *
+ * Kept apart from the rules themselves because it drives the engine, which
+ * imports the default rule.
+ */
+
+import type { EngineConfig, SimulationSnapshot } from './engine';
+import { runEngine } from './engine';
+import { baseFeeRules, type BaseFeeRule } from './fee-rules';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How one rule priced a run
+ */
+export interface BaseFeeRuleRun {
+  ruleId: string;
+  snapshots: SimulationSnapshot[];
+  averageBaseFee: number;
+  peakBaseFee: number;
+  /** Stddev / mean of the base fee */
+  feeVolatility: number;
+  /** Mean |utilization - target| over the run */
+  trackingError: number;
+  /** Seconds until utilization first came within tolerance of target (null if never) */
+  convergenceTime: number | null;
+  /** Times utilization crossed the target; more means more oscillation */
+  targetCrossings: number;
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+function summarizeRun(
+  ruleId: string,
+  snapshots: SimulationSnapshot[],
+  targetUtilization: number,
+  tolerance: number
+): BaseFeeRuleRun {
+  const steps = snapshots.slice(1);
+  const fees = steps.map((s) => s.baseFee);
+  const averageBaseFee = fees.length > 0 ? fees.reduce((a, b) => a + b, 0) / fees.length : 0;
+  const variance =
+    fees.length > 0
+      ? fees.reduce((sum, fee) => sum + (fee - averageBaseFee) ** 2, 0) / fees.length
+      : 0;
+
+  let trackingError = 0;
+  let convergenceTime: number | null = null;
+  let targetCrossings = 0;
+  steps.forEach((snapshot, i) => {
+    const error = snapshot.utilization - targetUtilization;
+    trackingError += Math.abs(error);
+    if (convergenceTime === null && Math.abs(error) <= tolerance) {
+      convergenceTime = snapshot.timestamp;
+    }
+    const previous = i > 0 ? steps[i - 1].utilization - targetUtilization : error;
+    if (previous * error < 0) targetCrossings++;
+  });
+
+  return {
+    ruleId,
+    snapshots,
+    averageBaseFee,
+    peakBaseFee: Math.max(0, ...fees),
+    feeVolatility: averageBaseFee > 0 ? Math.sqrt(variance) / averageBaseFee : 0,
+    trackingError: steps.length > 0 ? trackingError / steps.length : 0,
+    convergenceTime,
+    targetCrossings,
+  };
+}
+
+/**
+ * Run the same config under each rule (on the 'eip1559' fee model) and
+ * measure how each converges to its target and oscillates around it.
+ * tolerance is the utilization distance from target that counts as converged.
+ */
+export function compareBaseFeeRules(
+  config: EngineConfig,
+  rules: BaseFeeRule[] = baseFeeRules,
+  tolerance: number = 0.05
+): BaseFeeRuleRun[] {
+  return rules.map((rule) => {
+    const { snapshots } = runEngine({ ...config, feeMarketModel: 'eip1559', baseFeeRule: rule });
+    const target = rule.targetUtilization ?? config.eip1559Params.targetUtilization;
+    return summarizeRun(rule.id, snapshots, target, tolerance);
+  });
+}
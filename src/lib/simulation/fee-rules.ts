@@ -0,0 +1,214 @@
+/**
+ * Base Fee Update Rules
+ *
+ * How the base fee moves from one block (or step) to the next given how
+ * full it was. Every engine takes a rule as config, so the same rule prices
+ * the simple per-block simulation, the block builder and the unified engine:
+ * - Linear (EIP-1559): fee × (1 + maxChangeRate × delta / target), with an
+ *   optional elasticity multiplier setting the target to 1 / N of the maximum
+ * - Exponential: fee × e^(maxChangeRate × delta / target), the integral
+ *   ("excess gas") pricing of EIP-4844
+ * - Additive: fee + increment × delta / target, a step in gwei that does not
+ *   grow with the fee
+ * - Windowed: the linear rule on utilization averaged over recent blocks
+ *
+ * Every rule clamps utilization to 0-1 and floors the fee at minBaseFee.
+ * Rules are pure: anything they remember comes from recentUtilization.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BaseFeeRuleParams {
+  /** Target utilization (0-1) */
+  targetUtilization: number;
+  /** Fractional fee change per block at full or empty blocks (linear rule) */
+  maxChangeRate: number;
+  /** Minimum base fee in gwei */
+  minBaseFee: number;
+}
+
+export interface BaseFeeRuleContext {
+  /** Base fee the block was priced at, in gwei */
+  baseFee: number;
+  /**
+   * Utilization (0-1) of recent blocks, oldest first; the last entry is the
+   * block just processed. Holds up to the rule's window.
+   */
+  recentUtilization: number[];
+  params: BaseFeeRuleParams;
+}
+
+/**
+ * Pluggable base fee update rule
+ */
+export interface BaseFeeRule {
+  id: string;
+  name: string;
+  description: string;
+  /** Blocks of utilization the rule reads (1 for memoryless rules) */
+  window: number;
+  /** Utilization the rule steers to when it sets its own (else params.targetUtilization) */
+  targetUtilization?: number;
+  /** Returns the base fee for the next block */
+  nextBaseFee: (context: BaseFeeRuleContext) => number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function clampUtilization(utilization: number): number {
+  return Math.max(0, Math.min(1, utilization));
+}
+
+function getLatestUtilization(recentUtilization: number[]): number {
+  return clampUtilization(recentUtilization[recentUtilization.length - 1] ?? 0);
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export interface LinearRuleOptions {
+  /**
+   * Maximum block size as a multiple of the target (mainnet: 2). When set,
+   * the target is 1 / elasticity of the maximum instead of targetUtilization.
+   */
+  elasticity?: number;
+}
+
+/**
+ * The EIP-1559 rule. With an elasticity of N the fee can rise by
+ * maxChangeRate × (N - 1) after a full block.
+ */
+export function createLinearRule(options: LinearRuleOptions = {}): BaseFeeRule {
+  const { elasticity } = options;
+
+  return {
+    id: elasticity ? `eip1559-x${elasticity}` : 'eip1559',
+    name: elasticity ? `EIP-1559 (${elasticity}× elasticity)` : 'EIP-1559',
+    description: elasticity
+      ? `Multiplicative change toward a target of 1/${elasticity} of the maximum block`
+      : 'Multiplicative change proportional to the distance from target',
+    window: 1,
+    ...(elasticity && { targetUtilization: 1 / elasticity }),
+    nextBaseFee: ({ baseFee, recentUtilization, params }) => {
+      const target = elasticity ? 1 / elasticity : params.targetUtilization;
+      const delta = getLatestUtilization(recentUtilization) - target;
+      return Math.max(params.minBaseFee, baseFee * (1 + params.maxChangeRate * (delta / target)));
+    },
+  };
+}
+
+/**
+ * Exponential update: a full block multiplies the fee by e^maxChangeRate.
+ * Because each block's factor multiplies into the last, the fee is an
+ * exponential of the running sum of gas above target (the excess gas), as
+ * in EIP-4844; the fee floor plays the role of excess never going negative.
+ */
+export function createExponentialRule(): BaseFeeRule {
+  return {
+    id: 'exponential',
+    name: 'Exponential (excess gas)',
+    description: 'Fee is an exponential of the accumulated gas above target',
+    window: 1,
+    nextBaseFee: ({ baseFee, recentUtilization, params }) => {
+      const delta = getLatestUtilization(recentUtilization) - params.targetUtilization;
+      const exponent = params.maxChangeRate * (delta / params.targetUtilization);
+      return Math.max(params.minBaseFee, baseFee * Math.exp(exponent));
+    },
+  };
+}
+
+export interface AdditiveRuleOptions {
+  /** Gwei added when utilization is twice the target (default 2.5) */
+  increment: number;
+}
+
+export const DEFAULT_ADDITIVE_OPTIONS: AdditiveRuleOptions = {
+  increment: 2.5,
+};
+
+/**
+ * Additive update: the fee moves by the same gwei at any fee level, so it
+ * reacts slowly when fees are high and quickly when they are low
+ */
+export function createAdditiveRule(options: Partial<AdditiveRuleOptions> = {}): BaseFeeRule {
+  const { increment } = { ...DEFAULT_ADDITIVE_OPTIONS, ...options };
+
+  return {
+    id: 'additive',
+    name: 'Additive',
+    description: 'Fixed gwei step proportional to the distance from target',
+    window: 1,
+    nextBaseFee: ({ baseFee, recentUtilization, params }) => {
+      const delta = getLatestUtilization(recentUtilization) - params.targetUtilization;
+      return Math.max(params.minBaseFee, baseFee + increment * (delta / params.targetUtilization));
+    },
+  };
+}
+
+export interface WindowedRuleOptions {
+  /** Blocks averaged (default 8) */
+  window: number;
+}
+
+export const DEFAULT_WINDOWED_OPTIONS: WindowedRuleOptions = {
+  window: 8,
+};
+
+/**
+ * The linear rule on average utilization over recent blocks: single full
+ * blocks barely move the fee, sustained demand still does
+ */
+export function createWindowedRule(options: Partial<WindowedRuleOptions> = {}): BaseFeeRule {
+  const { window } = { ...DEFAULT_WINDOWED_OPTIONS, ...options };
+
+  return {
+    id: 'windowed',
+    name: `Windowed (${window} blocks)`,
+    description: 'Linear change on utilization averaged over recent blocks',
+    window,
+    nextBaseFee: ({ baseFee, recentUtilization, params }) => {
+      const recent = recentUtilization.slice(-window).map(clampUtilization);
+      const average =
+        recent.length > 0 ? recent.reduce((a, b) => a + b, 0) / recent.length : 0;
+      const delta = average - params.targetUtilization;
+      return Math.max(
+        params.minBaseFee,
+        baseFee * (1 + params.maxChangeRate * (delta / params.targetUtilization))
+      );
+    },
+  };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const eip1559Rule = createLinearRule();
+/** Blocks up to 4× the target, so a full block raises the fee by 3 × maxChangeRate */
+export const elasticEip1559Rule = createLinearRule({ elasticity: 4 });
+export const exponentialRule = createExponentialRule();
+export const additiveRule = createAdditiveRule();
+export const windowedRule = createWindowedRule();
+
+/**
+ * All built-in base fee rules
+ */
+export const baseFeeRules: BaseFeeRule[] = [
+  eip1559Rule,
+  elasticEip1559Rule,
+  exponentialRule,
+  additiveRule,
+  windowedRule,
+];
+
+/**
+ * Get a built-in base fee rule by ID
+ */
+export function getBaseFeeRule(id: string): BaseFeeRule | undefined {
+  return baseFeeRules.find((r) => r.id === id);
+}
@@ -0,0 +1,202 @@
+/**
+ * State & History Growth Projection
+ *
+ * The sync/archive resources are capped per second, but what node operators
+ * pay for is the storage they accumulate. This module integrates each
+ * transaction type's state-growth and history-growth consumption over months
+ * or years:
+ * - Written state and history accumulate in monthly cohorts
+ * - Solutions with a state-growth or history-growth multiplier store less
+ * - Solutions with an expiry period prune state cohorts once they age out
+ *
+ * Multipliers are composed like capacity multipliers (composition.ts): only
+ * active solutions count, and stacked ones diminish up to the resource's cap.
+ *
+ * Sizes are in GB; per-transaction consumption is in KB.
+ */
+
+import { KB_PER_GB, SECONDS_PER_YEAR } from '@/data/resources/units';
+import type { ScalingSolution } from '@/data/scaling-solutions/types';
+import { composeActive, composeMultiplier, resolveSolutions } from './composition';
+import type { TransactionMixEntry } from './engine';
+
+export const SECONDS_PER_MONTH = SECONDS_PER_YEAR / 12;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GrowthConfig {
+  transactionMix: TransactionMixEntry[];
+  scalingSolutions: ScalingSolution[];
+  /** Transactions per second at the start of the projection */
+  tps: number;
+  /** Projection length in months */
+  months: number;
+  /** Months per step (default 1) */
+  stepMonths?: number;
+  /** Yearly TPS growth as a fraction (0.5 = +50%/year, default 0) */
+  tpsGrowthRate?: number;
+  /** State size at the start in GB (default 0) */
+  initialStateSize?: number;
+  /** History size at the start in GB (default 0) */
+  initialHistorySize?: number;
+}
+
+/**
+ * Average growth of one transaction drawn from the mix, in KB
+ */
+export interface GrowthPerTransaction {
+  state: number;
+  history: number;
+}
+
+export interface GrowthPoint {
+  month: number;
+  tps: number;
+  /** Active state in GB */
+  stateSize: number;
+  /** State pruned by expiry so far in GB */
+  expiredState: number;
+  /** Stored history in GB */
+  historySize: number;
+  /** State plus history in GB */
+  totalSize: number;
+}
+
+export interface GrowthProjection {
+  points: GrowthPoint[];
+  perTransaction: GrowthPerTransaction;
+  /** GB/year of new state at the starting TPS, before expiry */
+  annualStateGrowth: number;
+  /** GB/year of stored history at the starting TPS */
+  annualHistoryGrowth: number;
+  /** Total disk size at the end of the projection in GB */
+  finalSize: number;
+}
+
+interface StateCohort {
+  writtenAt: number;
+  size: number;
+}
+
+// ============================================================================
+// Growth Rates
+// ============================================================================
+
+/**
+ * Weighted average state and history growth per transaction
+ */
+export function getGrowthPerTransaction(mix: TransactionMixEntry[]): GrowthPerTransaction {
+  const totalWeight = mix.reduce((sum, { weight }) => sum + weight, 0);
+  if (totalWeight <= 0) return { state: 0, history: 0 };
+
+  let state = 0;
+  let history = 0;
+  for (const { txType, weight } of mix) {
+    state += (txType.resourceConsumption['state-growth'] || 0) * weight;
+    history += (txType.resourceConsumption['history-growth'] || 0) * weight;
+  }
+  return { state: state / totalWeight, history: history / totalWeight };
+}
+
+/**
+ * Factor by which the active solutions shrink newly stored state.
+ * Expiry solutions are excluded: they prune later rather than store less.
+ */
+export function getStateStorageFactor(solutions: ScalingSolution[]): number {
+  const storing = resolveSolutions(solutions).active.filter((s) => s.expiryPeriod === undefined);
+  return composeActive('state-growth', storing).multiplier;
+}
+
+/**
+ * Factor by which the active solutions shrink stored history
+ */
+export function getHistoryStorageFactor(solutions: ScalingSolution[]): number {
+  return composeMultiplier('history-growth', solutions).multiplier;
+}
+
+/**
+ * Fraction of a state cohort still active after it has aged `age` seconds
+ * @param expiring - Active solutions with an expiry period
+ */
+function getRetainedFraction(age: number, expiring: ScalingSolution[]): number {
+  const expired = expiring.filter((s) => age >= (s.expiryPeriod ?? Infinity));
+  return 1 / composeActive('state-growth', expired).multiplier;
+}
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+/**
+ * Project state, history and total node disk size over time
+ */
+export function projectGrowth(config: GrowthConfig): GrowthProjection {
+  const {
+    transactionMix,
+    scalingSolutions,
+    tps,
+    months,
+    stepMonths = 1,
+    tpsGrowthRate = 0,
+    initialStateSize = 0,
+    initialHistorySize = 0,
+  } = config;
+
+  const perTransaction = getGrowthPerTransaction(transactionMix);
+  const stateFactor = getStateStorageFactor(scalingSolutions);
+  const historyFactor = getHistoryStorageFactor(scalingSolutions);
+  const expiring = resolveSolutions(scalingSolutions).active.filter(
+    (s) => s.expiryPeriod !== undefined
+  );
+  const dt = stepMonths * SECONDS_PER_MONTH;
+  const tpsAt = (time: number) => tps * Math.pow(1 + tpsGrowthRate, time / SECONDS_PER_YEAR);
+
+  // Existing state ages like state written at the start
+  const cohorts: StateCohort[] = [{ writtenAt: 0, size: initialStateSize }];
+  let historySize = initialHistorySize;
+
+  const snapshot = (time: number, month: number): GrowthPoint => {
+    let stateSize = 0;
+    let writtenState = 0;
+    for (const cohort of cohorts) {
+      writtenState += cohort.size;
+      stateSize += cohort.size * getRetainedFraction(time - cohort.writtenAt, expiring);
+    }
+    return {
+      month,
+      tps: tpsAt(time),
+      stateSize,
+      expiredState: writtenState - stateSize,
+      historySize,
+      totalSize: stateSize + historySize,
+    };
+  };
+
+  const points: GrowthPoint[] = [snapshot(0, 0)];
+  const steps = Math.ceil(months / stepMonths);
+
+  for (let i = 1; i <= steps; i++) {
+    const time = i * dt;
+    // Midpoint rate keeps compounding TPS growth accurate per step
+    const transactions = tpsAt(time - dt / 2) * dt;
+
+    cohorts.push({
+      writtenAt: time,
+      size: (transactions * perTransaction.state) / KB_PER_GB / stateFactor,
+    });
+    historySize += (transactions * perTransaction.history) / KB_PER_GB / historyFactor;
+
+    points.push(snapshot(time, i * stepMonths));
+  }
+
+  return {
+    points,
+    perTransaction,
+    annualStateGrowth: (tps * perTransaction.state * SECONDS_PER_YEAR) / KB_PER_GB / stateFactor,
+    annualHistoryGrowth:
+      (tps * perTransaction.history * SECONDS_PER_YEAR) / KB_PER_GB / historyFactor,
+    finalSize: points[points.length - 1].totalSize,
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * Historical Block Replay
+ *
+ * Imports real blocks from a local CSV or JSON export so the model can be
+ * checked against mainnet:
+ * - Replay: block utilization becomes an empirical demand scenario that any
+ *   engine can run
+ * - Backtest: calculateNewBaseFee is run over the recorded gas usage and its
+ *   base fees are compared with the recorded ones
+ *
+ * Accepted fields (CSV headers or JSON keys, in camelCase or snake_case):
+ * number, timestamp, gasUsed, gasLimit, baseFee (gwei) or baseFeePerGas
+ * (wei, as returned by eth_getBlockByNumber), blobGasUsed, excessBlobGas.
+ * Values may be decimal or 0x-prefixed hex.
+ */
+
+import type { ScenarioDefinition } from '@/data/scenarios/types';
+import type { DemandScenario } from './engine';
+import { calculateNewBaseFee, DEFAULT_CONFIG, type EIP1559Config } from './eip1559';
+import { eip1559Rule } from './fee-rules';
+import { compileScenario } from './scenario-dsl';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HistoricalBlock {
+  number: number;
+  /** Unix time in seconds */
+  timestamp: number;
+  gasUsed: number;
+  gasLimit: number;
+  /** Base fee in gwei */
+  baseFee: number;
+  /** Blob gas used (EIP-4844 blocks only) */
+  blobGasUsed?: number;
+  /** Excess blob gas carried into the block (EIP-4844 blocks only) */
+  excessBlobGas?: number;
+}
+
+export type BlockFileFormat = 'csv' | 'json';
+
+/**
+ * One block transition in a backtest
+ */
+export interface BaseFeePrediction {
+  /** The block whose base fee was predicted */
+  number: number;
+  actual: number;
+  predicted: number;
+  /** predicted - actual, in gwei */
+  error: number;
+}
+
+export interface BacktestErrors {
+  /** Mean absolute error in gwei */
+  meanAbsoluteError: number;
+  rootMeanSquaredError: number;
+  /** Mean of |error| / actual */
+  meanAbsolutePercentageError: number;
+  maxAbsoluteError: number;
+  /** Mean signed error; positive means the model overprices */
+  bias: number;
+}
+
+/**
+ * How predictions are chained
+ * - 'one-step': each block from the previous recorded base fee, testing the
+ *   update rule alone
+ * - 'recursive': each block from the previous prediction, showing how far
+ *   the model drifts from reality over the series
+ */
+export type BacktestMode = 'one-step' | 'recursive';
+
+export interface BacktestResult {
+  mode: BacktestMode;
+  predictions: BaseFeePrediction[];
+  errors: BacktestErrors;
+  /** Transitions skipped because block numbers were not consecutive */
+  skipped: number;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+const FIELD_ALIASES: Record<string, keyof HistoricalBlock | 'baseFeePerGas'> = {
+  number: 'number',
+  blocknumber: 'number',
+  timestamp: 'timestamp',
+  gasused: 'gasUsed',
+  gaslimit: 'gasLimit',
+  basefee: 'baseFee',
+  basefeepergas: 'baseFeePerGas',
+  blobgasused: 'blobGasUsed',
+  excessblobgas: 'excessBlobGas',
+};
+
+const WEI_PER_GWEI = 1e9;
+
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/[_\s-]/g, '');
+}
+
+function parseValue(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (text === '') return NaN;
+    return /^0x/i.test(text) ? Number(BigInt(text)) : Number(text);
+  }
+  return NaN;
+}
+
+/**
+ * Build a block from one record, keyed by any accepted field name
+ * @throws If a required field is missing or not a number
+ */
+function toBlock(record: Record<string, unknown>, row: number): HistoricalBlock {
+  const fields: Partial<Record<keyof HistoricalBlock | 'baseFeePerGas', number>> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = FIELD_ALIASES[normalizeKey(key)];
+    if (field && value !== undefined && value !== null && value !== '') {
+      fields[field] = parseValue(value);
+    }
+  }
+  if (fields.baseFee === undefined && fields.baseFeePerGas !== undefined) {
+    fields.baseFee = fields.baseFeePerGas / WEI_PER_GWEI;
+  }
+
+  for (const field of ['number', 'timestamp', 'gasUsed', 'gasLimit', 'baseFee'] as const) {
+    if (!Number.isFinite(fields[field])) {
+      throw new Error(`Block ${row}: missing or invalid ${field}`);
+    }
+  }
+  if (fields.gasLimit! <= 0) throw new Error(`Block ${row}: gasLimit must be positive`);
+
+  const block: HistoricalBlock = {
+    number: fields.number!,
+    timestamp: fields.timestamp!,
+    gasUsed: fields.gasUsed!,
+    gasLimit: fields.gasLimit!,
+    baseFee: fields.baseFee!,
+  };
+  if (Number.isFinite(fields.blobGasUsed)) block.blobGasUsed = fields.blobGasUsed;
+  if (Number.isFinite(fields.excessBlobGas)) block.excessBlobGas = fields.excessBlobGas;
+  return block;
+}
+
+function sortBlocks(blocks: HistoricalBlock[]): HistoricalBlock[] {
+  return blocks.sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Split one CSV line into cells. Quoted cells may contain commas, and a
+ * doubled quote inside one stands for a quote.
+ * @throws If a quoted cell is not closed
+ */
+function splitCSVLine(line: string, row: number): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new Error(`Row ${row}: unterminated quoted field`);
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse a CSV export with a header row
+ * @throws If a row's cell count differs from the header's, or a row lacks a
+ *   required field
+ */
+export function parseBlocksCSV(text: string): HistoricalBlock[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const headers = splitCSVLine(lines[0], 0);
+  const blocks = lines.slice(1).map((line, i) => {
+    const cells = splitCSVLine(line, i + 1);
+    if (cells.length !== headers.length) {
+      throw new Error(`Row ${i + 1}: expected ${headers.length} cells, found ${cells.length}`);
+    }
+    const record = Object.fromEntries(headers.map((h, j) => [h, cells[j]]));
+    return toBlock(record, i + 1);
+  });
+  return sortBlocks(blocks);
+}
+
+/**
+ * Parse a JSON export: an array of blocks, or an object with a `blocks` array
+ * @throws If the JSON has no blocks or a block lacks a required field
+ */
+export function parseBlocksJSON(text: string): HistoricalBlock[] {
+  const data: unknown = JSON.parse(text);
+  const records = Array.isArray(data) ? data : (data as { blocks?: unknown })?.blocks;
+  if (!Array.isArray(records)) {
+    throw new Error('Expected an array of blocks or an object with a blocks array');
+  }
+  return sortBlocks(records.map((record, i) => toBlock(record as Record<string, unknown>, i + 1)));
+}
+
+/**
+ * Parse a block export, detecting JSON from its first character unless the
+ * format is given
+ */
+export function importBlocks(text: string, format?: BlockFileFormat): HistoricalBlock[] {
+  const detected = format ?? (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+  return detected === 'json' ? parseBlocksJSON(text) : parseBlocksCSV(text);
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Fraction of the gas limit a block used
+ */
+export function getBlockUtilization(block: HistoricalBlock): number {
+  return block.gasUsed / block.gasLimit;
+}
+
+/**
+ * Scenario definition replaying the blocks' gas usage. Demand at each block
+ * is its utilization over the target, so a block exactly at target is 1.0.
+ * Recorded usage is demand after the base fee priced some users out, and
+ * capped at the gas limit, so it understates demand during spikes.
+ */
+export function historicalScenarioDefinition(
+  blocks: HistoricalBlock[],
+  options: { id?: string; name?: string; targetUtilization?: number } = {}
+): ScenarioDefinition {
+  if (blocks.length === 0) throw new Error('Cannot replay an empty block series');
+  const { targetUtilization = DEFAULT_CONFIG.targetUtilization } = options;
+  const first = blocks[0];
+  const last = blocks[blocks.length - 1];
+  const span = last.timestamp - first.timestamp;
+
+  return {
+    id: options.id ?? `history-${first.number}-${last.number}`,
+    name: options.name ?? `Blocks ${first.number}–${last.number}`,
+    description: `Replay of ${blocks.length} recorded blocks`,
+    duration: Math.max(span, 1),
+    components: [
+      {
+        type: 'piecewise',
+        points: blocks
+          // Blocks sharing a timestamp cannot be told apart on the curve
+          .filter((block, i) => i === 0 || block.timestamp > blocks[i - 1].timestamp)
+          .map((block) => ({
+            t: span > 0 ? (block.timestamp - first.timestamp) / span : 0,
+            value: getBlockUtilization(block) / targetUtilization,
+          })),
+      },
+    ],
+  };
+}
+
+/**
+ * Empirical demand scenario replaying the blocks (see
+ * historicalScenarioDefinition)
+ */
+export function createHistoricalScenario(
+  blocks: HistoricalBlock[],
+  options: { id?: string; name?: string; targetUtilization?: number } = {}
+): DemandScenario {
+  return compileScenario(historicalScenarioDefinition(blocks, options));
+}
+
+// ============================================================================
+// Backtest
+// ============================================================================
+
+function summarizeErrors(predictions: BaseFeePrediction[]): BacktestErrors {
+  const n = predictions.length;
+  if (n === 0) {
+    return {
+      meanAbsoluteError: 0,
+      rootMeanSquaredError: 0,
+      meanAbsolutePercentageError: 0,
+      maxAbsoluteError: 0,
+      bias: 0,
+    };
+  }
+
+  let absolute = 0;
+  let squared = 0;
+  let percentage = 0;
+  let signed = 0;
+  let max = 0;
+  for (const { error, actual } of predictions) {
+    absolute += Math.abs(error);
+    squared += error * error;
+    percentage += actual > 0 ? Math.abs(error) / actual : 0;
+    signed += error;
+    max = Math.max(max, Math.abs(error));
+  }
+
+  return {
+    meanAbsoluteError: absolute / n,
+    rootMeanSquaredError: Math.sqrt(squared / n),
+    meanAbsolutePercentageError: percentage / n,
+    maxAbsoluteError: max,
+    bias: signed / n,
+  };
+}
+
+/**
+ * Run calculateNewBaseFee over the recorded gas usage and compare its base
+ * fees with the recorded series. Mainnet has no base fee floor, so minBaseFee
+ * defaults to 0 here; config.rule backtests another update rule. A recursive
+ * backtest restarts from the recorded base fee after a gap in block numbers.
+ */
+export function backtestBaseFee(
+  blocks: HistoricalBlock[],
+  config: Partial<EIP1559Config> = {},
+  mode: BacktestMode = 'one-step'
+): BacktestResult {
+  const feeConfig = { ...DEFAULT_CONFIG, minBaseFee: 0, ...config };
+  const { window } = feeConfig.rule ?? eip1559Rule;
+  const predictions: BaseFeePrediction[] = [];
+  let skipped = 0;
+  let previousPrediction: number | null = null;
+
+  for (let i = 1; i < blocks.length; i++) {
+    const parent = blocks[i - 1];
+    const block = blocks[i];
+    if (block.number !== parent.number + 1) {
+      skipped++;
+      previousPrediction = null;
+      continue;
+    }
+
+    const parentFee =
+      mode === 'recursive' && previousPrediction !== null ? previousPrediction : parent.baseFee;
+    const predicted = calculateNewBaseFee(
+      parentFee,
+      getBlockUtilization(parent),
+      feeConfig,
+      blocks.slice(Math.max(0, i - window), i - 1).map(getBlockUtilization)
+    );
+    predictions.push({
+      number: block.number,
+      actual: block.baseFee,
+      predicted,
+      error: predicted - block.baseFee,
+    });
+    previousPrediction = predicted;
+  }
+
+  return { mode, predictions, errors: summarizeErrors(predictions), skipped };
+}
@@ -0,0 +1,137 @@
+/**
+ * Linear Programming
+ *
+ * A small dense simplex solver for problems of the form
+ *
+ *   maximize  c·x   subject to  A x ≤ b,  x ≥ 0,  b ≥ 0
+ *
+ * With b ≥ 0 the origin is feasible, so a single phase starting from the
+ * slack basis is enough. The solver also returns the dual value of every
+ * constraint: how much the objective would improve per unit of extra b.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LinearProgram {
+  /** Objective coefficients c (maximized) */
+  objective: number[];
+  /** Constraint rows of A */
+  constraints: number[][];
+  /** Right-hand sides b; must be non-negative */
+  bounds: number[];
+}
+
+export type LPStatus = 'optimal' | 'unbounded';
+
+export interface LPSolution {
+  status: LPStatus;
+  /** Objective value at x (Infinity when unbounded) */
+  value: number;
+  x: number[];
+  /** Dual value (shadow price) per constraint */
+  duals: number[];
+}
+
+const EPSILON = 1e-9;
+
+/** Degenerate pivots allowed before switching to Bland's rule to avoid cycling */
+const MAX_DEGENERATE_PIVOTS = 50;
+
+// ============================================================================
+// Simplex
+// ============================================================================
+
+function pivot(tableau: number[][], row: number, col: number): void {
+  const pivotRow = tableau[row];
+  const factor = pivotRow[col];
+  for (let j = 0; j < pivotRow.length; j++) pivotRow[j] /= factor;
+
+  for (let i = 0; i < tableau.length; i++) {
+    if (i === row) continue;
+    const current = tableau[i];
+    const multiple = current[col];
+    if (Math.abs(multiple) < EPSILON) continue;
+    for (let j = 0; j < current.length; j++) current[j] -= multiple * pivotRow[j];
+  }
+}
+
+/**
+ * Solve a linear program with the simplex method.
+ * Uses the most negative reduced cost, falling back to Bland's rule when
+ * pivots stop making progress.
+ */
+export function solveLP(lp: LinearProgram): LPSolution {
+  const { objective, constraints, bounds } = lp;
+  const n = objective.length;
+  const m = constraints.length;
+  const rhs = n + m;
+
+  if (bounds.some((b) => b < 0)) {
+    throw new Error('solveLP requires non-negative bounds');
+  }
+
+  // Rows: constraints with slack columns, then the objective row (-c)
+  const tableau: number[][] = constraints.map((row, i) => {
+    const line = new Array(rhs + 1).fill(0);
+    for (let j = 0; j < n; j++) line[j] = row[j] ?? 0;
+    line[n + i] = 1;
+    line[rhs] = bounds[i];
+    return line;
+  });
+  const objectiveRow = new Array(rhs + 1).fill(0);
+  for (let j = 0; j < n; j++) objectiveRow[j] = -objective[j];
+  tableau.push(objectiveRow);
+
+  const basis = Array.from({ length: m }, (_, i) => n + i);
+  let degeneratePivots = 0;
+
+  for (;;) {
+    const bland = degeneratePivots > MAX_DEGENERATE_PIVOTS;
+
+    // Entering column
+    let col = -1;
+    for (let j = 0; j < rhs; j++) {
+      if (objectiveRow[j] < -EPSILON && (col < 0 || (!bland && objectiveRow[j] < objectiveRow[col]))) {
+        col = j;
+        if (bland) break;
+      }
+    }
+    if (col < 0) break;
+
+    // Leaving row by minimum ratio; ties go to the lowest basic variable
+    let row = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < m; i++) {
+      if (tableau[i][col] <= EPSILON) continue;
+      const ratio = tableau[i][rhs] / tableau[i][col];
+      if (
+        ratio < bestRatio - EPSILON ||
+        (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[row])
+      ) {
+        bestRatio = ratio;
+        row = i;
+      }
+    }
+    if (row < 0) {
+      return { status: 'unbounded', value: Infinity, x: new Array(n).fill(0), duals: new Array(m).fill(0) };
+    }
+
+    degeneratePivots = bestRatio <= EPSILON ? degeneratePivots + 1 : 0;
+    pivot(tableau, row, col);
+    basis[row] = col;
+  }
+
+  const x = new Array(n).fill(0);
+  basis.forEach((variable, i) => {
+    if (variable < n) x[variable] = tableau[i][rhs];
+  });
+
+  return {
+    status: 'optimal',
+    value: objectiveRow[rhs],
+    x,
+    duals: Array.from({ length: m }, (_, i) => objectiveRow[n + i]),
+  };
+}
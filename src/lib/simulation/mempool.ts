@@ -0,0 +1,354 @@
+/**
+ * Mempool Simulation
+ *
+ * Discrete, individual-transaction view of the fee market:
+ * - Arrivals are sampled per transaction type from its demand curve
+ * - Each transaction carries a willingness to pay (max fee) and a tip
+ * - Builders include pending transactions in order of effective tip
+ * - Transactions that wait longer than the TTL are dropped
+ *
+ * This complements the aggregate TPS model in engine.ts: it is driven by the
+ * same base fee and resource capacity, but tracks who got in and how long
+ * they waited, which aggregate flows cannot answer.
+ *
+ * Randomness is injected (defaults to a source seeded with DEFAULT_SEED) so
+ * runs can be reproduced.
+ */
+
+import type { Resource } from '@/data/resources/types';
+import type { Transaction, TransactionType } from '@/data/transactions/types';
+import {
+  getDemandAtPrice,
+  getPriceAtDemand,
+  MIN_DEMAND_PRICE,
+} from '@/data/transactions/demand';
+import { calculateDemand, type TransactionMixEntry } from './engine';
+import {
+  createRandom,
+  DEFAULT_SEED,
+  percentile,
+  sampleNormal,
+  type RandomSource,
+} from './random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MempoolConfig {
+  /** Seconds a transaction may wait before it is dropped */
+  ttl: number;
+  /** Maximum tip as a share of the transaction's max fee (0-1) */
+  maxTipShare: number;
+  /** Number of finished (executed or dropped) transactions kept for display */
+  maxRecent: number;
+  /** Inclusion delays kept per transaction type for percentiles */
+  maxDelaySamples: number;
+  /**
+   * Seconds of unused capacity carried into later steps (one slot by default),
+   * so types larger than a single step's capacity can still be included
+   */
+  maxCarrySeconds: number;
+}
+
+export interface MempoolState {
+  /** Transactions waiting for inclusion */
+  pending: Transaction[];
+  /** Most recently executed or dropped transactions, newest first */
+  recent: Transaction[];
+  /** Inclusion delays in seconds per transaction type, oldest first */
+  delays: Record<string, number[]>;
+  /** Next transaction sequence number */
+  nextId: number;
+  /** Unused per-resource capacity carried from earlier steps */
+  carriedCapacity: Record<string, number>;
+}
+
+export interface InclusionDelayStats {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export const DEFAULT_MEMPOOL_CONFIG: MempoolConfig = {
+  ttl: 60,
+  maxTipShare: 0.2,
+  maxRecent: 100,
+  maxDelaySamples: 1000,
+  maxCarrySeconds: 12,
+};
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Sample a Poisson-distributed count.
+ * Uses Knuth's method for small means and a normal approximation above 30.
+ */
+export function samplePoisson(
+  mean: number,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): number {
+  if (mean <= 0) return 0;
+
+  if (mean > 30) {
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * sampleNormal(random)));
+  }
+
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * Sample a willingness to pay from a type's demand curve, given the user is
+ * not priced out at the current base fee.
+ *
+ * The share of users willing to pay at least p is Q(p) / Q(baseFee), so
+ * drawing that share uniformly and inverting the curve gives a max fee.
+ */
+export function sampleWillingnessToPay(
+  txType: TransactionType,
+  timestamp: number,
+  baseFee: number,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): number {
+  const floor = Math.max(baseFee, MIN_DEMAND_PRICE);
+  const share = random() * getDemandAtPrice(txType, timestamp, floor);
+
+  // Less demand than at the top of the curve: these users pay the top price
+  return Math.max(floor, getPriceAtDemand(txType, timestamp, share));
+}
+
+/**
+ * Sample the transactions arriving during one step.
+ * Arrival rates are each type's demand at the current base fee, so users
+ * who are priced out never broadcast.
+ */
+export function sampleArrivals(
+  state: MempoolState,
+  transactionMix: TransactionMixEntry[],
+  baseFee: number,
+  timestamp: number,
+  dt: number,
+  demandMultiplier: number,
+  typeMultipliers: Record<string, number> = {},
+  config: MempoolConfig = DEFAULT_MEMPOOL_CONFIG,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): { arrivals: Transaction[]; nextId: number } {
+  const demand = calculateDemand(transactionMix, baseFee, demandMultiplier, {
+    timestamp,
+    typeMultipliers,
+  });
+  const arrivals: Transaction[] = [];
+  let nextId = state.nextId;
+
+  for (const { txType } of transactionMix) {
+    const count = samplePoisson((demand.byType[txType.id] ?? 0) * dt, random);
+
+    for (let i = 0; i < count; i++) {
+      const gasPrice = sampleWillingnessToPay(txType, timestamp, baseFee, random);
+      arrivals.push({
+        id: `tx-${nextId++}`,
+        typeId: txType.id,
+        timestamp,
+        gasPrice,
+        priorityFee: gasPrice * config.maxTipShare * random(),
+        status: 'pending',
+      });
+    }
+  }
+
+  return { arrivals, nextId };
+}
+
+// ============================================================================
+// Block Building
+// ============================================================================
+
+/**
+ * Tip a builder actually receives at a given base fee
+ */
+export function getEffectiveTip(tx: Transaction, baseFee: number): number {
+  return Math.min(tx.priorityFee, tx.gasPrice - baseFee);
+}
+
+/**
+ * Include pending transactions in order of effective tip.
+ *
+ * Transactions whose max fee is below the base fee are skipped. A transaction
+ * that does not fit in some resource is skipped so smaller ones can still fill
+ * the remaining space.
+ */
+export function buildBlock(
+  pending: Transaction[],
+  baseFee: number,
+  resources: Resource[],
+  capacity: Record<string, number>,
+  transactionTypes: Record<string, TransactionType>
+): { included: Transaction[]; remaining: Transaction[]; used: Record<string, number> } {
+  const used: Record<string, number> = {};
+  for (const resource of resources) used[resource.id] = 0;
+
+  const ordered = pending
+    .filter((tx) => tx.gasPrice >= baseFee)
+    .sort((a, b) => getEffectiveTip(b, baseFee) - getEffectiveTip(a, baseFee));
+
+  const includedIds = new Set<string>();
+  const included: Transaction[] = [];
+
+  for (const tx of ordered) {
+    const txType = transactionTypes[tx.typeId];
+    if (!txType) continue;
+
+    const fits = resources.every(
+      (r) =>
+        used[r.id] + (txType.resourceConsumption[r.id] || 0) <= (capacity[r.id] ?? Infinity)
+    );
+    if (!fits) continue;
+
+    for (const resource of resources) {
+      used[resource.id] += txType.resourceConsumption[resource.id] || 0;
+    }
+    includedIds.add(tx.id);
+    included.push(tx);
+  }
+
+  return {
+    included,
+    remaining: pending.filter((tx) => !includedIds.has(tx.id)),
+    used,
+  };
+}
+
+// ============================================================================
+// Mempool Step
+// ============================================================================
+
+/**
+ * Create an empty mempool
+ */
+export function createMempoolState(): MempoolState {
+  return { pending: [], recent: [], delays: {}, nextId: 0, carriedCapacity: {} };
+}
+
+/**
+ * Advance the mempool by one step: sample arrivals, build a block against the
+ * capacity available in dt plus any carried over, then drop transactions older
+ * than the TTL.
+ */
+export function stepMempool(
+  state: MempoolState,
+  params: {
+    transactionMix: TransactionMixEntry[];
+    resources: Resource[];
+    /** Per-resource capacity in units per second */
+    capacity: Record<string, number>;
+    baseFee: number;
+    timestamp: number;
+    dt: number;
+    demandMultiplier?: number;
+    /** Per-type multipliers on top of demandMultiplier */
+    typeMultipliers?: Record<string, number>;
+  },
+  config: MempoolConfig = DEFAULT_MEMPOOL_CONFIG,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): MempoolState {
+  const { transactionMix, resources, capacity, baseFee, timestamp, dt } = params;
+
+  const { arrivals, nextId } = sampleArrivals(
+    state,
+    transactionMix,
+    baseFee,
+    timestamp,
+    dt,
+    params.demandMultiplier ?? 1,
+    params.typeMultipliers,
+    config,
+    random
+  );
+
+  // Unused capacity accumulates up to maxCarrySeconds, so a step that is
+  // shorter than a large transaction's footprint does not starve it
+  const stepCapacity: Record<string, number> = {};
+  for (const [resourceId, perSecond] of Object.entries(capacity)) {
+    stepCapacity[resourceId] = Math.min(
+      (state.carriedCapacity[resourceId] ?? 0) + perSecond * dt,
+      perSecond * Math.max(dt, config.maxCarrySeconds)
+    );
+  }
+
+  const typesById = Object.fromEntries(transactionMix.map((m) => [m.txType.id, m.txType]));
+  const { included, remaining, used } = buildBlock(
+    [...state.pending, ...arrivals],
+    baseFee,
+    resources,
+    stepCapacity,
+    typesById
+  );
+
+  const carriedCapacity: Record<string, number> = {};
+  for (const [resourceId, available] of Object.entries(stepCapacity)) {
+    carriedCapacity[resourceId] = Math.max(0, available - (used[resourceId] ?? 0));
+  }
+
+  const executed: Transaction[] = included.map((tx) => ({
+    ...tx,
+    status: 'executed',
+    resolvedAt: timestamp,
+  }));
+  const expired = remaining.filter((tx) => timestamp - tx.timestamp >= config.ttl);
+  const dropped: Transaction[] = expired.map((tx) => ({
+    ...tx,
+    status: 'dropped',
+    resolvedAt: timestamp,
+  }));
+  const pending = remaining.filter((tx) => timestamp - tx.timestamp < config.ttl);
+
+  // Record inclusion delays per type
+  const delays: Record<string, number[]> = { ...state.delays };
+  for (const tx of executed) {
+    const samples = [...(delays[tx.typeId] ?? []), timestamp - tx.timestamp];
+    delays[tx.typeId] = samples.slice(-config.maxDelaySamples);
+  }
+
+  return {
+    pending,
+    recent: [...executed, ...dropped, ...state.recent].slice(0, config.maxRecent),
+    delays,
+    nextId,
+    carriedCapacity,
+  };
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Inclusion delay percentiles per transaction type
+ */
+export function calculateInclusionDelays(
+  state: MempoolState
+): Record<string, InclusionDelayStats> {
+  const stats: Record<string, InclusionDelayStats> = {};
+
+  for (const [typeId, samples] of Object.entries(state.delays)) {
+    const sorted = [...samples].sort((a, b) => a - b);
+    stats[typeId] = {
+      count: sorted.length,
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      p99: percentile(sorted, 0.99),
+    };
+  }
+
+  return stats;
+}
@@ -0,0 +1,113 @@
+/**
+ * Monte Carlo Runner
+ *
+ * Runs one engine config many times with independent seeds and reduces the
+ * runs to percentile bands, so results can be quoted as a range instead of a
+ * single deterministic line.
+ *
+ * Runs only differ where the config draws randomness (e.g. demandNoise);
+ * without any noise every run is identical and the bands collapse.
+ */
+
+import { runEngine, type EngineConfig, type SimulationResult } from './engine';
+import { deriveSeed, percentile, DEFAULT_SEED } from './random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MonteCarloMetric = 'tps' | 'baseFee' | 'transactionsPending';
+
+export const MONTE_CARLO_METRICS: MonteCarloMetric[] = ['tps', 'baseFee', 'transactionsPending'];
+
+export interface MonteCarloOptions {
+  /** Number of runs */
+  runs: number;
+  /** Base seed; run k uses deriveSeed(seed, k) (defaults to config.seed) */
+  seed?: number;
+}
+
+/**
+ * Percentiles of a metric across runs
+ */
+export interface Percentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+  mean: number;
+  stdDev: number;
+}
+
+/**
+ * Percentiles of a metric across runs at one timestamp
+ */
+export interface PercentileBand extends Percentiles {
+  timestamp: number;
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  /** Per-timestep bands for each metric */
+  bands: Record<MonteCarloMetric, PercentileBand[]>;
+  /** Distribution of each run's peak value, e.g. "peak fee is X ± Y" */
+  peaks: Record<MonteCarloMetric, Percentiles>;
+  /** Summary of every run, in seed order */
+  summaries: SimulationResult['summary'][];
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * p5 / p50 / p95, mean and standard deviation of a sample
+ */
+export function summarizeSamples(samples: number[]): Percentiles {
+  if (samples.length === 0) return { p5: 0, p50: 0, p95: 0, mean: 0, stdDev: 0 };
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+  const variance = samples.reduce((sum, v) => sum + (v - mean) ** 2, 0) / samples.length;
+
+  return {
+    p5: percentile(sorted, 0.05),
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    mean,
+    stdDev: Math.sqrt(variance),
+  };
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run a config K times and reduce the runs to percentile bands
+ */
+export function runMonteCarlo(config: EngineConfig, options: MonteCarloOptions): MonteCarloResult {
+  const runs = Math.max(1, Math.floor(options.runs));
+  const seed = options.seed ?? config.seed ?? DEFAULT_SEED;
+
+  const results: SimulationResult[] = [];
+  for (let k = 0; k < runs; k++) {
+    results.push(runEngine({ ...config, seed: deriveSeed(seed, k) }));
+  }
+
+  // Every run steps through the same timestamps
+  const timestamps = results[0].snapshots.map((s) => s.timestamp);
+
+  const bands = {} as Record<MonteCarloMetric, PercentileBand[]>;
+  const peaks = {} as Record<MonteCarloMetric, Percentiles>;
+  for (const metric of MONTE_CARLO_METRICS) {
+    bands[metric] = timestamps.map((timestamp, i) => ({
+      timestamp,
+      ...summarizeSamples(results.map((r) => r.snapshots[i][metric])),
+    }));
+    peaks[metric] = summarizeSamples(
+      results.map((r) => Math.max(...r.snapshots.map((s) => s[metric])))
+    );
+  }
+
+  return { runs, bands, peaks, summaries: results.map((r) => r.summary) };
+}
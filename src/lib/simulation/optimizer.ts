@@ -0,0 +1,238 @@
+/**
+ * Throughput Optimizer
+ *
+ * estimateTPS averages consumption over a fixed mix and takes the tightest
+ * resource. When the mix can shift, the real limit is a linear program over
+ * resources × transaction types:
+ *
+ *   maximize  objective(x)  subject to  Σ_t consumption[t][r] · x_t ≤ capacity[r]
+ *
+ * where x_t is the TPS of type t. The dual of each capacity constraint is the
+ * resource's shadow price. For the 'surplus' objective those are the
+ * per-resource fees a multidimensional fee market should converge to.
+ */
+
+import type { Resource, ResourceId } from '@/data/resources/types';
+import type { ScalingSolution } from '@/data/scaling-solutions/types';
+import { DEFAULT_CONFIG as EIP1559_CONFIG } from './eip1559';
+import {
+  calculateDemand,
+  getEffectiveMaxThroughput,
+  withTransactionEffects,
+  type DemandModel,
+  type TransactionMixEntry,
+} from './engine';
+import { solveLP, type LPStatus } from './lp';
+import { getParallelSpeedup } from './parallel';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What the optimizer maximizes:
+ * - 'tps': transactions per second
+ * - 'revenue': fees at a fixed base fee (averageGas × baseFee per transaction)
+ * - 'surplus': users' total willingness to pay, from the demand curves
+ */
+export type ThroughputObjective = 'tps' | 'revenue' | 'surplus';
+
+export interface OptimizerConfig {
+  resources: Resource[];
+  transactionMix: TransactionMixEntry[];
+  scalingSolutions?: ScalingSolution[];
+  objective: ThroughputObjective;
+  /**
+   * Base fee in gwei. For 'tps' and 'revenue' each type is capped at its
+   * demand at this fee; without it only capacity limits 'tps'.
+   * 'revenue' defaults to the initial base fee. Ignored by 'surplus'.
+   */
+  baseFee?: number;
+  /**
+   * Keep each type's share of TPS within ± this fraction of its mix share
+   * (0 fixes the mix exactly). Without it the mix is free to shift.
+   */
+  mixTolerance?: number;
+  demandModel?: DemandModel;
+  /** Prices in gwei used to piece together demand curves for 'surplus' */
+  priceGrid?: number[];
+}
+
+export interface OptimizerResult {
+  status: LPStatus;
+  objective: ThroughputObjective;
+  objectiveValue: number;
+  tps: number;
+  /** Optimal TPS per transaction type */
+  allocation: Record<string, number>;
+  /**
+   * Objective gained per extra unit of each resource's capacity (per second).
+   * In gwei per resource unit for 'revenue' and 'surplus', TPS per unit for 'tps'.
+   */
+  shadowPrices: Record<string, number>;
+  /** Fee each type would pay at the shadow prices (Σ consumption × price) */
+  feePerTransaction: Record<string, number>;
+  utilization: Record<string, number>;
+  /** Resources at capacity with a positive shadow price */
+  bindingResources: ResourceId[];
+}
+
+/**
+ * One LP variable: TPS of a type, optionally limited to a slice of its demand
+ */
+interface Variable {
+  typeId: string;
+  value: number;
+  cap: number;
+}
+
+/** Geometric grid from 1 to 1000 gwei */
+export const DEFAULT_PRICE_GRID = Array.from({ length: 25 }, (_, i) => Math.pow(1000, i / 24));
+
+// ============================================================================
+// Variables
+// ============================================================================
+
+/**
+ * Slice each type's demand curve into segments between grid prices.
+ * A segment is worth its midpoint price, so the LP fills the most valuable
+ * transactions first and total value approximates the area under the curve.
+ */
+function getSurplusVariables(config: OptimizerConfig): Variable[] {
+  const { transactionMix, demandModel } = config;
+  const prices = [...(config.priceGrid ?? DEFAULT_PRICE_GRID)].sort((a, b) => b - a);
+  const demands = prices.map((price) => calculateDemand(transactionMix, price, 1, { demandModel }).byType);
+  const variables: Variable[] = [];
+
+  for (const { txType } of transactionMix) {
+    // Demand already there at the highest price is worth at least that price
+    variables.push({
+      typeId: txType.id,
+      value: prices[0] * txType.averageGas,
+      cap: demands[0][txType.id] ?? 0,
+    });
+    for (let k = 1; k < prices.length; k++) {
+      const cap = (demands[k][txType.id] ?? 0) - (demands[k - 1][txType.id] ?? 0);
+      if (cap <= 0) continue;
+      variables.push({
+        typeId: txType.id,
+        value: ((prices[k - 1] + prices[k]) / 2) * txType.averageGas,
+        cap,
+      });
+    }
+  }
+  return variables;
+}
+
+function getVariables(config: OptimizerConfig): Variable[] {
+  if (config.objective === 'surplus') return getSurplusVariables(config);
+
+  const baseFee =
+    config.baseFee ?? (config.objective === 'revenue' ? EIP1559_CONFIG.initialBaseFee : undefined);
+  const demand =
+    baseFee !== undefined
+      ? calculateDemand(config.transactionMix, baseFee, 1, { demandModel: config.demandModel }).byType
+      : {};
+
+  return config.transactionMix.map(({ txType }) => ({
+    typeId: txType.id,
+    value: config.objective === 'revenue' ? txType.averageGas * baseFee! : 1,
+    cap: demand[txType.id] ?? Infinity,
+  }));
+}
+
+// ============================================================================
+// Optimizer
+// ============================================================================
+
+/**
+ * Find the per-type allocation that maximizes the objective under every
+ * resource's capacity, and the shadow price of each resource
+ */
+export function optimizeThroughput(config: OptimizerConfig): OptimizerResult {
+  const { resources, scalingSolutions = [], mixTolerance } = config;
+  // Workload-specific effects shrink consumption before capacity is shared out
+  const { transactionMix } = withTransactionEffects({ ...config, scalingSolutions });
+  const types = transactionMix.map((m) => m.txType);
+  const variables = getVariables(config);
+  const columns = variables.length;
+
+  // Parallel lanes are scheduled for the mix weights
+  const weights = Object.fromEntries(transactionMix.map(({ txType, weight }) => [txType.id, weight]));
+  const speedup = getParallelSpeedup(scalingSolutions, weights, types);
+  const capacity = Object.fromEntries(
+    resources.map((r) => [r.id, getEffectiveMaxThroughput(r, scalingSolutions, {}, speedup)])
+  );
+  const typesById = Object.fromEntries(types.map((t) => [t.id, t]));
+
+  const constraints: number[][] = [];
+  const bounds: number[] = [];
+
+  // Capacity per resource (these rows come first, so their duals are the shadow prices)
+  for (const resource of resources) {
+    constraints.push(
+      variables.map((v) => typesById[v.typeId].resourceConsumption[resource.id] || 0)
+    );
+    bounds.push(capacity[resource.id]);
+  }
+
+  // Demand caps per variable
+  variables.forEach((v, j) => {
+    if (!Number.isFinite(v.cap)) return;
+    const row = new Array(columns).fill(0);
+    row[j] = 1;
+    constraints.push(row);
+    bounds.push(v.cap);
+  });
+
+  // Mix shares within tolerance: (1 - tol)·s·X ≤ x_t ≤ (1 + tol)·s·X
+  if (mixTolerance !== undefined) {
+    const totalWeight = transactionMix.reduce((sum, m) => sum + m.weight, 0);
+    for (const { txType, weight } of transactionMix) {
+      const share = totalWeight > 0 ? weight / totalWeight : 0;
+      const upper = variables.map((v) => (v.typeId === txType.id ? 1 : 0) - (1 + mixTolerance) * share);
+      const lower = variables.map((v) => (1 - mixTolerance) * share - (v.typeId === txType.id ? 1 : 0));
+      constraints.push(upper, lower);
+      bounds.push(0, 0);
+    }
+  }
+
+  const solution = solveLP({ objective: variables.map((v) => v.value), constraints, bounds });
+
+  const allocation: Record<string, number> = Object.fromEntries(types.map((t) => [t.id, 0]));
+  variables.forEach((v, j) => {
+    allocation[v.typeId] += solution.x[j];
+  });
+
+  const shadowPrices: Record<string, number> = {};
+  const utilization: Record<string, number> = {};
+  const bindingResources: ResourceId[] = [];
+  resources.forEach((resource, i) => {
+    shadowPrices[resource.id] = solution.duals[i];
+    const used = types.reduce(
+      (sum, t) => sum + (t.resourceConsumption[resource.id] || 0) * allocation[t.id],
+      0
+    );
+    utilization[resource.id] = capacity[resource.id] > 0 ? used / capacity[resource.id] : 0;
+    if (solution.duals[i] > 1e-9) bindingResources.push(resource.id);
+  });
+
+  const feePerTransaction = Object.fromEntries(
+    types.map((t) => [
+      t.id,
+      resources.reduce((sum, r) => sum + (t.resourceConsumption[r.id] || 0) * shadowPrices[r.id], 0),
+    ])
+  );
+
+  return {
+    status: solution.status,
+    objective: config.objective,
+    objectiveValue: solution.value,
+    tps: Object.values(allocation).reduce((a, b) => a + b, 0),
+    allocation,
+    shadowPrices,
+    feePerTransaction,
+    utilization,
+    bindingResources,
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Parallel Execution Scheduler
+ *
+ * Computes the speedup parallel execution achieves on an actual block instead
+ * of a flat multiplier:
+ * - Transaction types that touch the same hot ('specific') slot conflict
+ * - Conflicting types form serial groups that must run on a single lane
+ * - Expected collisions on bounded namespaces are re-executed serially
+ * - Conflict-free work is spread over whichever lanes are least loaded
+ *
+ * Work is measured in evm-compute units, so the speedup can directly scale
+ * that resource's capacity.
+ */
+
+import type { ResourceId } from '@/data/resources/types';
+import type { TransactionType } from '@/data/transactions/types';
+import { getExpectedConflictRate, groupByHotSlot, hasStateConflict } from '@/data/transactions';
+import type { ScalingSolution } from '@/data/scaling-solutions/types';
+
+/** Resource whose capacity parallel scheduling scales */
+export const PARALLEL_RESOURCE_ID: ResourceId = 'evm-compute';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Transaction types whose transactions cannot run concurrently
+ */
+export interface ConflictGroup {
+  typeIds: string[];
+  /** Hot slots shared within the group */
+  slots: string[];
+}
+
+export interface SerialGroup extends ConflictGroup {
+  /** Work the group contributes to the block */
+  work: number;
+}
+
+export interface LaneSchedule {
+  lanes: number;
+  /** Time to execute the block on one lane */
+  sequentialWork: number;
+  /** Time to execute the block on all lanes */
+  makespan: number;
+  /** sequentialWork / makespan (lanes when the block is empty) */
+  speedup: number;
+  /** Work assigned to each lane */
+  laneLoads: number[];
+  /**
+   * Conflicting groups that ran serially, largest first. Expected collisions
+   * on bounded namespaces form a group without slots.
+   */
+  serialGroups: SerialGroup[];
+}
+
+// ============================================================================
+// Conflict Graph
+// ============================================================================
+
+/**
+ * Build the conflict graph between transaction types and return its
+ * connected components that contain at least one conflict.
+ *
+ * Types sharing a hot slot are candidate edges; an edge exists when one of
+ * them writes the slot (hasStateConflict). A type conflicts with itself when
+ * it writes a hot slot, e.g. every swap on a pool updates its reserves.
+ * Components are serialized as a whole, which is conservative when a
+ * component is only connected transitively.
+ */
+export function getConflictGroups(types: TransactionType[]): ConflictGroup[] {
+  const parent: Record<string, string> = {};
+  const find = (id: string): string => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]];
+      id = parent[id];
+    }
+    return id;
+  };
+
+  const conflicting = new Set<string>();
+  for (const txType of types) parent[txType.id] = txType.id;
+
+  const slotsByType: Record<string, Set<string>> = {};
+  for (const [slot, members] of Object.entries(groupByHotSlot(types))) {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i; j < members.length; j++) {
+        const a = members[i];
+        const b = members[j];
+        if (!hasStateConflict(a, b)) continue;
+
+        conflicting.add(a.id);
+        conflicting.add(b.id);
+        parent[find(a.id)] = find(b.id);
+        for (const id of [a.id, b.id]) {
+          (slotsByType[id] ??= new Set()).add(slot);
+        }
+      }
+    }
+  }
+
+  const groups: Record<string, ConflictGroup> = {};
+  for (const txType of types) {
+    if (!conflicting.has(txType.id)) continue;
+
+    const root = find(txType.id);
+    const group = (groups[root] ??= { typeIds: [], slots: [] });
+    group.typeIds.push(txType.id);
+    for (const slot of Array.from(slotsByType[txType.id] ?? [])) {
+      if (!group.slots.includes(slot)) group.slots.push(slot);
+    }
+  }
+
+  return Object.values(groups);
+}
+
+/**
+ * Work of the otherwise conflict-free types that is expected to collide on
+ * bounded 'random' or account namespaces. Colliding transactions are
+ * re-executed one after another, so that work forms one more serial group.
+ */
+function getCollisionGroup(
+  countsByType: Record<string, number>,
+  types: TransactionType[],
+  workByType: Record<string, number>,
+  conflictGroups: ConflictGroup[]
+): SerialGroup {
+  const serialIds = new Set(conflictGroups.flatMap((g) => g.typeIds));
+  const mix = types
+    .filter((t) => !serialIds.has(t.id) && (countsByType[t.id] ?? 0) > 0)
+    .map((txType) => ({ txType, weight: countsByType[txType.id] }));
+  const batchSize = mix.reduce((sum, m) => sum + m.weight, 0);
+
+  const { conflictRateByType } = getExpectedConflictRate(mix, batchSize);
+  const typeIds = mix.map((m) => m.txType.id).filter((id) => conflictRateByType[id] > 0);
+
+  return {
+    typeIds,
+    slots: [],
+    work: typeIds.reduce((sum, id) => sum + workByType[id] * conflictRateByType[id], 0),
+  };
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Schedule a block onto lanes.
+ *
+ * Serial groups are placed largest first on the least loaded lane; the
+ * conflict-free work is then poured into the lanes until they level out.
+ *
+ * @param countsByType - Transactions of each type in the block
+ * @param types - Transaction types that may appear in the block
+ * @param lanes - Number of execution lanes
+ */
+export function scheduleBlock(
+  countsByType: Record<string, number>,
+  types: TransactionType[],
+  lanes: number
+): LaneSchedule {
+  const laneCount = Math.max(1, Math.floor(lanes));
+  const workByType: Record<string, number> = {};
+  let sequentialWork = 0;
+  for (const txType of types) {
+    const work =
+      (countsByType[txType.id] ?? 0) * (txType.resourceConsumption[PARALLEL_RESOURCE_ID] || 0);
+    workByType[txType.id] = work;
+    sequentialWork += work;
+  }
+
+  const conflictGroups = getConflictGroups(types);
+  const serialGroups: SerialGroup[] = conflictGroups
+    .map((group) => ({
+      ...group,
+      work: group.typeIds.reduce((sum, id) => sum + workByType[id], 0),
+    }))
+    .concat(getCollisionGroup(countsByType, types, workByType, conflictGroups))
+    .filter((group) => group.work > 0)
+    .sort((a, b) => b.work - a.work);
+
+  const laneLoads: number[] = new Array(laneCount).fill(0);
+  for (const group of serialGroups) {
+    const lightest = laneLoads.indexOf(Math.min(...laneLoads));
+    laneLoads[lightest] += group.work;
+  }
+
+  // Pour the parallel work into the lanes, lowest first
+  const serialWork = serialGroups.reduce((sum, g) => sum + g.work, 0);
+  const parallelWork = sequentialWork - serialWork;
+  const sorted = [...laneLoads].sort((a, b) => a - b);
+  let level = 0;
+  let filledBelow = 0;
+  for (let k = 1; k <= sorted.length; k++) {
+    filledBelow += sorted[k - 1];
+    level = (parallelWork + filledBelow) / k;
+    if (k === sorted.length || level <= sorted[k]) break;
+  }
+  const makespan = Math.max(...laneLoads, level);
+
+  return {
+    lanes: laneCount,
+    sequentialWork,
+    makespan,
+    speedup: makespan > 0 ? sequentialWork / makespan : laneCount,
+    laneLoads: laneLoads.map((load) => Math.max(load, level)),
+    serialGroups,
+  };
+}
+
+/**
+ * Lanes provided by the enabled scaling solutions (0 without parallel execution)
+ */
+export function getParallelLanes(scalingSolutions: ScalingSolution[]): number {
+  return scalingSolutions.reduce((lanes, s) => Math.max(lanes, s.parallelLanes ?? 0), 0);
+}
+
+/**
+ * Capacity multiplier parallel execution provides for a block of this mix
+ * (1 when no enabled solution schedules lanes)
+ */
+export function getParallelSpeedup(
+  scalingSolutions: ScalingSolution[],
+  countsByType: Record<string, number>,
+  types: TransactionType[]
+): number {
+  const lanes = getParallelLanes(scalingSolutions);
+  if (lanes <= 1) return 1;
+  return scheduleBlock(countsByType, types, lanes).speedup;
+}
@@ -0,0 +1,299 @@
+/**
+ * Inverse Capacity Planner
+ *
+ * estimateTPS answers "what TPS does this setup give". The planner answers
+ * the reverse: given a mix, a target TPS and a max acceptable base fee, how
+ * much more capacity does each resource need, and which scaling solutions
+ * provide it?
+ *
+ * Under EIP-1559 the base fee settles where usage sits at the target
+ * utilization. Keeping the fee at or below the max therefore means every
+ * resource must carry max(target TPS, demand at the max fee) at the target
+ * utilization.
+ */
+
+import type { Resource, ResourceId } from '@/data/resources/types';
+import type { ScalingSolution } from '@/data/scaling-solutions/types';
+import { scalingSolutions as allSolutions } from '@/data/scaling-solutions';
+import { DEFAULT_CONFIG as EIP1559_CONFIG } from './eip1559';
+import {
+  calculateDemand,
+  getEffectiveMaxThroughput,
+  withTransactionEffects,
+  type DemandModel,
+  type TransactionMixEntry,
+} from './engine';
+import { getParallelSpeedup } from './parallel';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PlannerConfig {
+  resources: Resource[];
+  transactionMix: TransactionMixEntry[];
+  targetTPS: number;
+  /** Highest acceptable steady-state base fee in gwei */
+  maxBaseFee: number;
+  /** Solutions the planner may pick from (defaults to the registry) */
+  candidates?: ScalingSolution[];
+  /** EIP-1559 target utilization (defaults to 0.5) */
+  targetUtilization?: number;
+  /** Lowest possible base fee in gwei (defaults to 1) */
+  minBaseFee?: number;
+  demandModel?: DemandModel;
+  /** Largest bundle to consider (default 4) */
+  maxBundleSize?: number;
+  /** Number of bundles to return (default 5) */
+  maxBundles?: number;
+}
+
+export interface ResourceRequirement {
+  resourceId: ResourceId;
+  /** Usage the resource must carry at the target utilization, per second */
+  requiredCapacity: number;
+  /** Current capacity without any scaling solution */
+  baseCapacity: number;
+  /** requiredCapacity / baseCapacity; at most 1 means no scaling is needed */
+  requiredMultiplier: number;
+}
+
+export interface PlanStep {
+  /** Solution added at this step (null for the starting point) */
+  solutionId: string | null;
+  /** Resource furthest from its requirement after this step (null without resources) */
+  bindingResource: ResourceId | null;
+  /** Capacity over requirement on the binding resource; 1 or more meets the target */
+  coverage: number;
+}
+
+export interface SolutionBundle {
+  solutionIds: string[];
+  /** Lowest capacity-over-requirement ratio across resources */
+  coverage: number;
+  bindingResource: ResourceId | null;
+  /** Solutions added one at a time, always relieving the binding resource most */
+  steps: PlanStep[];
+}
+
+export interface CapacityPlan {
+  /** TPS every resource must carry: max(target, demand at the max fee) */
+  requiredTPS: number;
+  demandAtMaxFee: number;
+  /** Demand at the minimum base fee: the most TPS the mix will ever ask for */
+  maxDemand: number;
+  /** True when even the minimum fee does not attract the target TPS */
+  demandLimited: boolean;
+  /** Sorted by required multiplier, the binding resource first */
+  requirements: ResourceRequirement[];
+  /** Resource with the highest required multiplier (null without resources) */
+  bindingResource: ResourceId | null;
+  /** Minimal solution sets that meet every requirement, best first */
+  bundles: SolutionBundle[];
+}
+
+interface Coverage {
+  value: number;
+  bindingResource: ResourceId | null;
+}
+
+// ============================================================================
+// Requirements
+// ============================================================================
+
+/**
+ * Per-resource usage of one transaction at the demand composition
+ */
+function getUsagePerTransaction(
+  resources: Resource[],
+  transactionMix: TransactionMixEntry[],
+  byType: Record<string, number>
+): Record<string, number> {
+  const total = Object.values(byType).reduce((a, b) => a + b, 0);
+  const usage: Record<string, number> = {};
+
+  for (const resource of resources) {
+    usage[resource.id] = 0;
+    for (const { txType } of transactionMix) {
+      const share = total > 0 ? (byType[txType.id] ?? 0) / total : 0;
+      usage[resource.id] += share * (txType.resourceConsumption[resource.id] || 0);
+    }
+  }
+  return usage;
+}
+
+/**
+ * Capacity over requirement for the resource furthest from it
+ */
+function getCoverage(
+  requirements: ResourceRequirement[],
+  requiredCapacity: Record<string, number>,
+  resources: Resource[],
+  solutions: ScalingSolution[],
+  parallelSpeedup: number
+): Coverage {
+  let coverage: Coverage = {
+    value: Infinity,
+    bindingResource: requirements.length > 0 ? requirements[0].resourceId : null,
+  };
+
+  for (const { resourceId } of requirements) {
+    const required = requiredCapacity[resourceId];
+    if (required <= 0) continue;
+    const resource = resources.find((r) => r.id === resourceId);
+    if (!resource) continue;
+    const capacity = getEffectiveMaxThroughput(resource, solutions, {}, parallelSpeedup);
+    const value = capacity / required;
+    if (value < coverage.value) {
+      coverage = { value, bindingResource: resourceId };
+    }
+  }
+  return coverage;
+}
+
+// ============================================================================
+// Bundles
+// ============================================================================
+
+/**
+ * All subsets of size k, in lexicographic order of indices
+ */
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - k; i++) {
+    for (const rest of combinations(items.slice(i + 1), k - 1)) {
+      result.push([items[i], ...rest]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Add a bundle's solutions one at a time, each time picking the one that
+ * leaves the highest coverage
+ */
+function orderSteps(
+  bundle: ScalingSolution[],
+  evaluate: (solutions: ScalingSolution[]) => Coverage
+): PlanStep[] {
+  const start = evaluate([]);
+  const steps: PlanStep[] = [
+    { solutionId: null, bindingResource: start.bindingResource, coverage: start.value },
+  ];
+
+  const chosen: ScalingSolution[] = [];
+  const remaining = [...bundle];
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let best = evaluate([...chosen, remaining[0]]);
+    for (let i = 1; i < remaining.length; i++) {
+      const candidate = evaluate([...chosen, remaining[i]]);
+      if (candidate.value > best.value) {
+        best = candidate;
+        bestIndex = i;
+      }
+    }
+    const [solution] = remaining.splice(bestIndex, 1);
+    chosen.push(solution);
+    steps.push({
+      solutionId: solution.id,
+      bindingResource: best.bindingResource,
+      coverage: best.value,
+    });
+  }
+
+  return steps;
+}
+
+// ============================================================================
+// Planner
+// ============================================================================
+
+/**
+ * Solve for the capacity and scaling solutions needed to hit a target TPS
+ * without the base fee exceeding a maximum
+ */
+export function planCapacity(config: PlannerConfig): CapacityPlan {
+  const {
+    resources,
+    transactionMix,
+    targetTPS,
+    maxBaseFee,
+    candidates = allSolutions,
+    targetUtilization = EIP1559_CONFIG.targetUtilization,
+    minBaseFee = EIP1559_CONFIG.minBaseFee,
+    demandModel,
+    maxBundleSize = 4,
+    maxBundles = 5,
+  } = config;
+
+  const demand = calculateDemand(transactionMix, maxBaseFee, 1, { demandModel });
+  const maxDemand = calculateDemand(transactionMix, minBaseFee, 1, { demandModel }).total;
+  const requiredTPS = Math.max(targetTPS, demand.total);
+
+  // Composition at the max fee; fall back to mix weights if nothing is demanded
+  const byType =
+    demand.total > 0
+      ? demand.byType
+      : Object.fromEntries(transactionMix.map(({ txType, weight }) => [txType.id, weight]));
+  const usagePerTx = getUsagePerTransaction(resources, transactionMix, byType);
+
+  const requirements: ResourceRequirement[] = resources
+    .map((resource) => {
+      const requiredCapacity = (requiredTPS * usagePerTx[resource.id]) / targetUtilization;
+      return {
+        resourceId: resource.id,
+        requiredCapacity,
+        baseCapacity: resource.maxThroughput,
+        requiredMultiplier: requiredCapacity / resource.maxThroughput,
+      };
+    })
+    .sort((a, b) => b.requiredMultiplier - a.requiredMultiplier);
+
+  // Workload-specific effects shrink what each resource must carry; parallel
+  // lanes are scheduled for the same composition
+  const evaluate = (solutions: ScalingSolution[]) => {
+    const mix = withTransactionEffects({ transactionMix, scalingSolutions: solutions }).transactionMix;
+    const usage = getUsagePerTransaction(resources, mix, byType);
+    const requiredCapacity = Object.fromEntries(
+      resources.map((r) => [r.id, (requiredTPS * usage[r.id]) / targetUtilization])
+    );
+    const speedup = getParallelSpeedup(solutions, byType, mix.map((m) => m.txType));
+    return getCoverage(requirements, requiredCapacity, resources, solutions, speedup);
+  };
+
+  // Smallest sets first; a set is minimal when no feasible set is inside it
+  const feasible: ScalingSolution[][] = [];
+  for (let size = 0; size <= Math.min(maxBundleSize, candidates.length); size++) {
+    for (const bundle of combinations(candidates, size)) {
+      const containsFeasible = feasible.some((f) => f.every((s) => bundle.includes(s)));
+      if (!containsFeasible && evaluate(bundle).value >= 1) {
+        feasible.push(bundle);
+      }
+    }
+  }
+
+  const bundles: SolutionBundle[] = feasible
+    .map((bundle) => {
+      const coverage = evaluate(bundle);
+      return {
+        solutionIds: bundle.map((s) => s.id),
+        coverage: coverage.value,
+        bindingResource: coverage.bindingResource,
+        steps: orderSteps(bundle, evaluate),
+      };
+    })
+    .sort((a, b) => a.solutionIds.length - b.solutionIds.length || b.coverage - a.coverage)
+    .slice(0, maxBundles);
+
+  return {
+    requiredTPS,
+    demandAtMaxFee: demand.total,
+    maxDemand,
+    demandLimited: maxDemand < targetTPS,
+    requirements,
+    bindingResource: requirements.length > 0 ? requirements[0].resourceId : null,
+    bundles,
+  };
+}
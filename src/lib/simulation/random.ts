@@ -0,0 +1,83 @@
+/**
+ * Seeded Randomness
+ *
+ * A small, fast PRNG (Mulberry32) so every engine can be replayed exactly:
+ * - The state is a single 32-bit integer, cheap to store between steps
+ * - Independent streams are derived from one seed per run or subsystem
+ *
+ * Also holds the sampling and percentile helpers shared by the engines.
+ */
+
+/** Uniform random numbers in [0, 1) */
+export type RandomSource = () => number;
+
+/**
+ * Random source that can report the state to resume from
+ */
+export type SeededRandom = RandomSource & { getState: () => number };
+
+/** Seed used when a config does not set one */
+export const DEFAULT_SEED = 1;
+
+// ============================================================================
+// PRNG
+// ============================================================================
+
+/**
+ * One Mulberry32 step
+ * @returns The draw in [0, 1) and the state for the next draw
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+}
+
+/**
+ * Create a random source starting from a seed or a saved state
+ */
+export function createRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+  const random = () => {
+    const draw = nextRandom(state);
+    state = draw.state;
+    return draw.value;
+  };
+  return Object.assign(random, { getState: () => state });
+}
+
+/**
+ * Seed for an independent stream (a Monte Carlo run, a subsystem)
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  return nextRandom((seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0).state;
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function sampleNormal(random: RandomSource = createRandom(DEFAULT_SEED)): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Nearest-rank percentile of an ascending array
+ * @param p - Fraction in [0, 1]
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
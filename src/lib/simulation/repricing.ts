@@ -0,0 +1,107 @@
+/**
+ * Gas Repricing What-Ifs
+ *
+ * A repricing changes what operations cost, not the work they do. Applying a
+ * gas schedule to each transaction type's operation histogram shows:
+ * - How much gas each type, and the mix on average, is charged
+ * - How much of the gas limit (evm-compute) the mix takes
+ * - Which resource then limits TPS
+ *
+ * Raising the price of a resource-heavy operation makes the gas limit bind
+ * before that resource does; lowering an overpriced one frees gas for other
+ * work until a real resource binds.
+ */
+
+import type { Resource } from '@/data/resources/types';
+import type { ScalingSolution } from '@/data/scaling-solutions/types';
+import type { TransactionType } from '@/data/transactions/types';
+import { withGasSchedule } from '@/data/transactions/consumption';
+import { mainnetGasSchedule, type GasSchedule } from '@/data/gas-schedules';
+import { evaluateMixCapacity, type MixCapacity } from './engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RepricingConfig {
+  resources: Resource[];
+  /** Weighted by their share of mainnet transactions, as in estimateTPS */
+  transactionTypes: TransactionType[];
+  scalingSolutions?: ScalingSolution[];
+}
+
+export interface ScheduleEvaluation extends MixCapacity {
+  scheduleId: string;
+  gasByType: Record<string, number>;
+}
+
+export interface ScheduleComparison extends ScheduleEvaluation {
+  /** averageGas over the baseline's; 1 means unchanged */
+  gasRatio: number;
+  /** tps over the baseline's */
+  tpsRatio: number;
+  bottleneckChanged: boolean;
+}
+
+export interface RepricingComparison {
+  baseline: ScheduleEvaluation;
+  schedules: ScheduleComparison[];
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * The transaction types repriced under a schedule. Types without an
+ * operation histogram keep their gas.
+ */
+export function repriceTransactionTypes(
+  transactionTypes: TransactionType[],
+  schedule: GasSchedule
+): TransactionType[] {
+  return transactionTypes.map((txType) => withGasSchedule(txType, schedule));
+}
+
+/**
+ * Gas and TPS of the mix under one schedule
+ */
+export function evaluateGasSchedule(
+  config: RepricingConfig,
+  schedule: GasSchedule
+): ScheduleEvaluation {
+  const { resources, transactionTypes, scalingSolutions = [] } = config;
+  const types = repriceTransactionTypes(transactionTypes, schedule);
+
+  const gasByType = Object.fromEntries(types.map((txType) => [txType.id, txType.averageGas]));
+
+  return {
+    scheduleId: schedule.id,
+    gasByType,
+    ...evaluateMixCapacity(resources, types, scalingSolutions),
+  };
+}
+
+/**
+ * Evaluate each schedule against a baseline (mainnet by default)
+ */
+export function compareGasSchedules(
+  config: RepricingConfig,
+  schedules: GasSchedule[],
+  baselineSchedule: GasSchedule = mainnetGasSchedule
+): RepricingComparison {
+  const baseline = evaluateGasSchedule(config, baselineSchedule);
+
+  return {
+    baseline,
+    schedules: schedules.map((schedule) => {
+      const evaluation = evaluateGasSchedule(config, schedule);
+      return {
+        ...evaluation,
+        gasRatio: baseline.averageGas > 0 ? evaluation.averageGas / baseline.averageGas : 1,
+        tpsRatio: baseline.tps > 0 ? evaluation.tps / baseline.tps : 1,
+        bottleneckChanged: evaluation.bottleneck !== baseline.bottleneck,
+      };
+    }),
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Scenario DSL Compiler
+ *
+ * Turns a declarative ScenarioDefinition (see src/data/scenarios/types.ts)
+ * into a DemandScenario. Each curve (the scenario's, and each shock's):
+ * - Sums its piecewise-linear, sine, spike and step components
+ * - Scales the sum by its noise components
+ * - Is clamped at zero
+ *
+ * Shocks multiply the demand of the transaction types they target.
+ *
+ * Definitions are plain JSON, so scenarios can be saved, loaded from a file
+ * or edited in a UI. Every compiled scenario keeps its definition.
+ */
+
+import type {
+  ScenarioComponent,
+  ScenarioComponentType,
+  ScenarioDefinition,
+  ScenarioPoint,
+  ScenarioShock,
+} from '@/data/scenarios/types';
+import type { TransactionType } from '@/data/transactions/types';
+import type { DemandScenario } from './engine';
+import { createRandom, deriveSeed, sampleNormal } from './random';
+
+/** Noise slices when a noise component does not set a resolution */
+export const DEFAULT_NOISE_RESOLUTION = 100;
+
+const COMPONENT_TYPES: ScenarioComponentType[] = ['piecewise', 'sine', 'spike', 'step', 'noise'];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || isFiniteNumber(value);
+}
+
+function validateComponent(component: unknown, path: string): string[] {
+  if (typeof component !== 'object' || component === null) return [`${path} must be an object`];
+  const c = component as Record<string, unknown>;
+  const errors: string[] = [];
+  const requireNumber = (key: string) => {
+    if (!isFiniteNumber(c[key])) errors.push(`${path}.${key} must be a number`);
+  };
+  const allowNumber = (key: string) => {
+    if (!isOptionalNumber(c[key])) errors.push(`${path}.${key} must be a number`);
+  };
+
+  switch (c.type) {
+    case 'piecewise': {
+      const points = c.points;
+      if (!Array.isArray(points) || points.length === 0) {
+        errors.push(`${path}.points must be a non-empty array`);
+        break;
+      }
+      points.forEach((point: Partial<ScenarioPoint>, i) => {
+        if (!isFiniteNumber(point?.t) || !isFiniteNumber(point?.value)) {
+          errors.push(`${path}.points[${i}] must have numeric t and value`);
+        } else if (i > 0 && point.t <= (points[i - 1] as ScenarioPoint).t) {
+          errors.push(`${path}.points must be sorted by strictly increasing t`);
+        }
+      });
+      break;
+    }
+    case 'sine':
+      requireNumber('amplitude');
+      requireNumber('frequency');
+      allowNumber('phase');
+      allowNumber('from');
+      allowNumber('until');
+      break;
+    case 'spike':
+      requireNumber('at');
+      requireNumber('height');
+      requireNumber('decay');
+      if (isFiniteNumber(c.decay) && c.decay <= 0) errors.push(`${path}.decay must be positive`);
+      break;
+    case 'step':
+      requireNumber('at');
+      requireNumber('height');
+      allowNumber('until');
+      break;
+    case 'noise':
+      requireNumber('stdDev');
+      allowNumber('seed');
+      if (isFiniteNumber(c.stdDev) && c.stdDev < 0) errors.push(`${path}.stdDev must not be negative`);
+      if (
+        c.resolution !== undefined &&
+        !(Number.isInteger(c.resolution) && (c.resolution as number) > 0)
+      ) {
+        errors.push(`${path}.resolution must be a positive integer`);
+      }
+      break;
+    default:
+      errors.push(`${path}.type must be one of ${COMPONENT_TYPES.join(', ')}`);
+  }
+  return errors;
+}
+
+function validateComponents(components: unknown, path: string): string[] {
+  if (!Array.isArray(components)) return [`${path} must be an array`];
+  return components.flatMap((component, i) => validateComponent(component, `${path}[${i}]`));
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateShock(shock: unknown, path: string): string[] {
+  if (typeof shock !== 'object' || shock === null) return [`${path} must be an object`];
+  const s = shock as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of ['typeIds', 'categories']) {
+    if (s[key] !== undefined && !isStringArray(s[key])) {
+      errors.push(`${path}.${key} must be an array of strings`);
+    }
+  }
+  const targets = [s.typeIds, s.categories].filter(Array.isArray).flat();
+  if (targets.length === 0) errors.push(`${path} must target typeIds or categories`);
+
+  if (Array.isArray(s.components) && s.components.length === 0) {
+    errors.push(`${path}.components must not be empty`);
+  }
+  errors.push(...validateComponents(s.components, `${path}.components`));
+  return errors;
+}
+
+/**
+ * Problems that would stop a definition from compiling (empty when valid).
+ * Accepts any value, so parsed JSON can be checked before use.
+ */
+export function validateScenario(definition: unknown): string[] {
+  if (typeof definition !== 'object' || definition === null) {
+    return ['scenario must be an object'];
+  }
+  const d = definition as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of ['id', 'name', 'description']) {
+    if (typeof d[key] !== 'string') errors.push(`${key} must be a string`);
+  }
+  if (!isFiniteNumber(d.duration) || d.duration <= 0) {
+    errors.push('duration must be a positive number');
+  }
+  errors.push(...validateComponents(d.components, 'components'));
+  if (d.shocks !== undefined) {
+    if (!Array.isArray(d.shocks)) {
+      errors.push('shocks must be an array');
+    } else {
+      d.shocks.forEach((shock, i) => errors.push(...validateShock(shock, `shocks[${i}]`)));
+    }
+  }
+  return errors;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function inWindow(t: number, from = 0, until = Infinity): boolean {
+  return t >= from && t < until;
+}
+
+function interpolate(points: ScenarioPoint[], t: number): number {
+  if (t <= points[0].t) return points[0].value;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (t < b.t) return a.value + ((t - a.t) / (b.t - a.t)) * (b.value - a.value);
+  }
+  return points[points.length - 1].value;
+}
+
+/**
+ * Additive contribution of a component at normalized time t
+ * (the multiplicative factor for noise)
+ */
+export function evaluateComponent(component: ScenarioComponent, t: number): number {
+  switch (component.type) {
+    case 'piecewise':
+      return interpolate(component.points, t);
+    case 'sine': {
+      if (!inWindow(t, component.from, component.until)) return 0;
+      const cycles = component.frequency * t + (component.phase ?? 0);
+      return component.amplitude * Math.sin(2 * Math.PI * cycles);
+    }
+    case 'spike':
+      return t >= component.at
+        ? component.height * Math.exp(-(t - component.at) / component.decay)
+        : 0;
+    case 'step':
+      return inWindow(t, component.at, component.until) ? component.height : 0;
+    case 'noise': {
+      const resolution = component.resolution ?? DEFAULT_NOISE_RESOLUTION;
+      const slice = Math.min(resolution - 1, Math.floor(t * resolution));
+      const random = createRandom(deriveSeed(component.seed ?? 1, slice));
+      return Math.max(0, 1 + component.stdDev * sampleNormal(random));
+    }
+  }
+}
+
+/**
+ * One curve: additive components summed, scaled by noise, clamped at zero
+ */
+function compileCurve(components: ScenarioComponent[]): (t: number) => number {
+  const additive = components.filter((c) => c.type !== 'noise');
+  const noise = components.filter((c) => c.type === 'noise');
+
+  return (t) => {
+    let value = 0;
+    for (const component of additive) value += evaluateComponent(component, t);
+    for (const component of noise) value *= evaluateComponent(component, t);
+    return Math.max(0, value);
+  };
+}
+
+function targets(shock: ScenarioShock, txType: TransactionType): boolean {
+  return Boolean(
+    shock.typeIds?.includes(txType.id) || shock.categories?.includes(txType.category)
+  );
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Compile a definition into a runnable scenario
+ * @throws If the definition is invalid (see validateScenario)
+ */
+export function compileScenario(definition: ScenarioDefinition): DemandScenario {
+  const errors = validateScenario(definition);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scenario "${definition.id}": ${errors.join('; ')}`);
+  }
+
+  const shocks = (definition.shocks ?? []).map((shock) => ({
+    shock,
+    curve: compileCurve(shock.components),
+  }));
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    duration: definition.duration,
+    definition,
+    getDemandMultiplier: compileCurve(definition.components),
+    ...(shocks.length > 0 && {
+      getTypeMultiplier: (txType: TransactionType, t: number) => {
+        let multiplier = 1;
+        for (const { shock, curve } of shocks) {
+          if (targets(shock, txType)) multiplier *= curve(t);
+        }
+        return multiplier;
+      },
+    }),
+  };
+}
+
+/**
+ * Compile a scenario from JSON text
+ * @throws If the text is not JSON or not a valid definition
+ */
+export function parseScenario(json: string): DemandScenario {
+  const definition: unknown = JSON.parse(json);
+  const errors = validateScenario(definition);
+  if (errors.length > 0) throw new Error(`Invalid scenario: ${errors.join('; ')}`);
+  return compileScenario(definition as ScenarioDefinition);
+}
+
+/**
+ * JSON text for a compiled scenario's definition
+ * @throws If the scenario was not compiled from a definition
+ */
+export function serializeScenario(scenario: DemandScenario): string {
+  if (!scenario.definition) {
+    throw new Error(`Scenario "${scenario.id}" has no definition to serialize`);
+  }
+  return JSON.stringify(scenario.definition, null, 2);
+}
@@ -0,0 +1,405 @@
+/**
+ * Sensitivity Analysis
+ *
+ * Runs the engine over variations of one base config to show which inputs
+ * actually move the results:
+ * - Tornado: vary each parameter one at a time between a low and a high value
+ * - Sweep: vary two parameters over a grid
+ *
+ * Parameters are small get/set descriptors over EngineConfig, so any input
+ * (capacity, EIP-1559 settings, a solution's multiplier, a type's demand
+ * curve) can be varied the same way. Core configs go through toEngineConfig
+ * first.
+ */
+
+import { evmCompute } from '@/data/resources';
+import type { ResourceId } from '@/data/resources/types';
+import type { TransactionType } from '@/data/transactions/types';
+import { getDemandCurve, type DemandCurveModel } from '@/data/transactions/demand';
+import { runEngine, type EngineConfig, type SimulationResult } from './engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A config input that can be read and replaced
+ */
+export interface SensitivityParameter {
+  id: string;
+  label: string;
+  get: (config: EngineConfig) => number;
+  /** Returns a new config with the parameter set; the input is not modified */
+  set: (config: EngineConfig, value: number) => EngineConfig;
+  /** Valid range; varied values are clamped to it */
+  min?: number;
+  max?: number;
+}
+
+export type SummaryMetric = {
+  [K in keyof SimulationResult['summary']]: SimulationResult['summary'][K] extends number
+    ? K
+    : never;
+}[keyof SimulationResult['summary']];
+
+export type RunSummary = SimulationResult['summary'];
+
+/**
+ * Values to try for one parameter in a tornado.
+ * Missing bounds default to the base value -/+ the spread.
+ */
+export interface ParameterRange {
+  parameter: SensitivityParameter;
+  low?: number;
+  high?: number;
+}
+
+export interface TornadoBar {
+  parameterId: string;
+  label: string;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  lowSummary: RunSummary;
+  highSummary: RunSummary;
+  /** Metric at the low and high parameter values */
+  lowMetric: number;
+  highMetric: number;
+  /** |highMetric - lowMetric| */
+  swing: number;
+}
+
+export interface TornadoResult {
+  metric: SummaryMetric;
+  baseSummary: RunSummary;
+  baseMetric: number;
+  /** Sorted by swing, largest first */
+  bars: TornadoBar[];
+}
+
+export interface SweepAxis {
+  parameter: SensitivityParameter;
+  values: number[];
+}
+
+export interface SweepCell {
+  x: number;
+  y: number;
+  summary: RunSummary;
+}
+
+export interface SweepResult {
+  xParameterId: string;
+  yParameterId: string;
+  xValues: number[];
+  yValues: number[];
+  /** cells[i][j] is at yValues[i], xValues[j] */
+  cells: SweepCell[][];
+}
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const GAS_UNIT = evmCompute.unit;
+
+/**
+ * Gas capacity in Mgas/sec, shared by every gas-denominated resource
+ * (the same convention as the core config's gasPerSecond)
+ */
+export const gasPerSecondParameter: SensitivityParameter = {
+  id: 'gasPerSecond',
+  label: 'Gas per second',
+  min: 0,
+  get: (config) =>
+    config.resources.find((r) => r.id === evmCompute.id)?.maxThroughput ??
+    config.resources.find((r) => r.unit === GAS_UNIT)?.maxThroughput ??
+    0,
+  set: (config, value) => ({
+    ...config,
+    resources: config.resources.map((r) =>
+      r.unit === GAS_UNIT ? { ...r, maxThroughput: value } : r
+    ),
+  }),
+};
+
+/**
+ * Tech multiplier on every gas-denominated resource
+ */
+export const techMultiplierParameter: SensitivityParameter = {
+  id: 'techMultiplier',
+  label: 'Tech multiplier',
+  min: 0,
+  get: (config) => config.resourceMultipliers?.[evmCompute.id] ?? 1,
+  set: (config, value) => {
+    const resourceMultipliers = { ...config.resourceMultipliers };
+    for (const resource of config.resources) {
+      if (resource.unit === GAS_UNIT) resourceMultipliers[resource.id] = value;
+    }
+    return { ...config, resourceMultipliers };
+  },
+};
+
+export const maxChangeRateParameter: SensitivityParameter = {
+  id: 'maxChangeRate',
+  label: 'Max base fee change',
+  min: 0,
+  max: 1,
+  get: (config) => config.eip1559Params.maxChangeRate,
+  set: (config, value) => ({
+    ...config,
+    eip1559Params: { ...config.eip1559Params, maxChangeRate: value },
+  }),
+};
+
+export const targetUtilizationParameter: SensitivityParameter = {
+  id: 'targetUtilization',
+  label: 'Target utilization',
+  min: 0.01,
+  max: 1,
+  get: (config) => config.eip1559Params.targetUtilization,
+  set: (config, value) => ({
+    ...config,
+    eip1559Params: { ...config.eip1559Params, targetUtilization: value },
+  }),
+};
+
+/**
+ * One scaling solution's multiplier on one resource
+ */
+export function solutionMultiplierParameter(
+  solutionId: string,
+  resourceId: ResourceId
+): SensitivityParameter {
+  return {
+    id: `${solutionId}:${resourceId}`,
+    label: `${solutionId} × ${resourceId}`,
+    min: 0,
+    get: (config) =>
+      config.scalingSolutions.find((s) => s.id === solutionId)?.multipliers[resourceId] ?? 1,
+    set: (config, value) => ({
+      ...config,
+      scalingSolutions: config.scalingSolutions.map((s) =>
+        s.id === solutionId ? { ...s, multipliers: { ...s.multipliers, [resourceId]: value } } : s
+      ),
+    }),
+  };
+}
+
+function findType(config: EngineConfig, typeId: string): TransactionType | undefined {
+  return config.transactionMix.find((m) => m.txType.id === typeId)?.txType;
+}
+
+function updateType(
+  config: EngineConfig,
+  typeId: string,
+  update: (txType: TransactionType) => TransactionType
+): EngineConfig {
+  return {
+    ...config,
+    transactionMix: config.transactionMix.map((m) =>
+      m.txType.id === typeId ? { ...m, txType: update(m.txType) } : m
+    ),
+  };
+}
+
+/**
+ * One transaction type's price elasticity.
+ * @throws If the type declares a demand curve, which priceElasticity does not
+ *   shape; use demandCurveParameter for those
+ */
+export function priceElasticityParameter(typeId: string): SensitivityParameter {
+  const check = <T extends TransactionType | undefined>(txType: T): T => {
+    if (txType?.demandCurve) {
+      throw new Error(
+        `${typeId} declares a ${txType.demandCurve.family} demand curve; ` +
+          'vary it with demandCurveParameter'
+      );
+    }
+    return txType;
+  };
+
+  return {
+    id: `${typeId}:priceElasticity`,
+    label: `${typeId} elasticity`,
+    min: 0,
+    max: 1,
+    get: (config) => check(findType(config, typeId))?.priceElasticity ?? 0,
+    set: (config, value) =>
+      updateType(config, typeId, (txType) => ({ ...check(txType), priceElasticity: value })),
+  };
+}
+
+/**
+ * The number that shapes a curve's response to price: a hyperbolic curve's
+ * elasticity, a linear curve's choke price, a logistic curve's spread, or a
+ * reservation curve's lowest tier price
+ */
+export function getDemandCurveShape(curve: DemandCurveModel): number {
+  switch (curve.family) {
+    case 'hyperbolic':
+      return curve.elasticity;
+    case 'linear':
+      return curve.chokePrice;
+    case 'logistic':
+      return curve.spread;
+    case 'reservation':
+      return Math.min(...curve.tiers.map((tier) => tier.price));
+  }
+}
+
+/**
+ * The curve with its shape set; reservation tiers all scale with the lowest
+ */
+export function setDemandCurveShape(curve: DemandCurveModel, value: number): DemandCurveModel {
+  switch (curve.family) {
+    case 'hyperbolic':
+      return { ...curve, elasticity: value };
+    case 'linear':
+      return { ...curve, chokePrice: value };
+    case 'logistic':
+      return { ...curve, spread: value };
+    case 'reservation': {
+      const scale = value / getDemandCurveShape(curve);
+      const tiers = curve.tiers.map((tier) => ({ ...tier, price: tier.price * scale }));
+      return { ...curve, tiers };
+    }
+  }
+}
+
+/**
+ * The shape of one transaction type's demand curve (see getDemandCurveShape).
+ * A type without a declared curve gets the hyperbolic curve its
+ * priceElasticity implies, declared with the new elasticity.
+ */
+export function demandCurveParameter(typeId: string): SensitivityParameter {
+  return {
+    id: `${typeId}:demandCurve`,
+    label: `${typeId} demand curve`,
+    min: 0,
+    get: (config) => {
+      const txType = findType(config, typeId);
+      return txType ? getDemandCurveShape(getDemandCurve(txType)) : 0;
+    },
+    set: (config, value) =>
+      updateType(config, typeId, (txType) => ({
+        ...txType,
+        demandCurve: setDemandCurveShape(getDemandCurve(txType), value),
+      })),
+  };
+}
+
+/**
+ * Parameters every config has
+ */
+export const DEFAULT_SENSITIVITY_PARAMETERS: SensitivityParameter[] = [
+  gasPerSecondParameter,
+  techMultiplierParameter,
+  maxChangeRateParameter,
+  targetUtilizationParameter,
+];
+
+function clamp(parameter: SensitivityParameter, value: number): number {
+  return Math.min(parameter.max ?? Infinity, Math.max(parameter.min ?? -Infinity, value));
+}
+
+// ============================================================================
+// Tornado
+// ============================================================================
+
+/**
+ * Vary each parameter one at a time and rank them by how far they move a metric
+ * @param spread - Relative change used for missing bounds (0.25 = ±25%)
+ */
+export function runTornado(
+  base: EngineConfig,
+  ranges: ParameterRange[],
+  metric: SummaryMetric,
+  spread: number = 0.25
+): TornadoResult {
+  const baseSummary = runEngine(base).summary;
+
+  const bars = ranges.map(({ parameter, low, high }): TornadoBar => {
+    const baseValue = parameter.get(base);
+    const lowValue = clamp(parameter, low ?? baseValue * (1 - spread));
+    const highValue = clamp(parameter, high ?? baseValue * (1 + spread));
+    const lowSummary = runEngine(parameter.set(base, lowValue)).summary;
+    const highSummary = runEngine(parameter.set(base, highValue)).summary;
+
+    return {
+      parameterId: parameter.id,
+      label: parameter.label,
+      baseValue,
+      lowValue,
+      highValue,
+      lowSummary,
+      highSummary,
+      lowMetric: lowSummary[metric],
+      highMetric: highSummary[metric],
+      swing: Math.abs(highSummary[metric] - lowSummary[metric]),
+    };
+  });
+
+  return {
+    metric,
+    baseSummary,
+    baseMetric: baseSummary[metric],
+    bars: bars.sort((a, b) => b.swing - a.swing),
+  };
+}
+
+/**
+ * Re-rank a tornado by another metric without re-running it
+ */
+export function rankTornado(result: TornadoResult, metric: SummaryMetric): TornadoResult {
+  const bars = result.bars.map((bar) => ({
+    ...bar,
+    lowMetric: bar.lowSummary[metric],
+    highMetric: bar.highSummary[metric],
+    swing: Math.abs(bar.highSummary[metric] - bar.lowSummary[metric]),
+  }));
+
+  return {
+    ...result,
+    metric,
+    baseMetric: result.baseSummary[metric],
+    bars: bars.sort((a, b) => b.swing - a.swing),
+  };
+}
+
+// ============================================================================
+// Sweeps
+// ============================================================================
+
+/**
+ * Evenly spaced values from min to max
+ */
+export function linspace(min: number, max: number, count: number): number[] {
+  if (count <= 1) return [min];
+  return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+}
+
+/**
+ * Run the engine at every combination of two parameters
+ */
+export function runSweep(base: EngineConfig, x: SweepAxis, y: SweepAxis): SweepResult {
+  const xValues = x.values.map((v) => clamp(x.parameter, v));
+  const yValues = y.values.map((v) => clamp(y.parameter, v));
+
+  const cells = yValues.map((yValue) => {
+    const row = y.parameter.set(base, yValue);
+    return xValues.map((xValue) => ({
+      x: xValue,
+      y: yValue,
+      summary: runEngine(x.parameter.set(row, xValue)).summary,
+    }));
+  });
+
+  return {
+    xParameterId: x.parameter.id,
+    yParameterId: y.parameter.id,
+    xValues,
+    yValues,
+    cells,
+  };
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useSimulationStore } from '../simulation';
+import { resources } from '@/data/resources';
+import { defaultTransactionTypes } from '@/data/transactions';
+import { blockAccessLists, parallelExecution } from '@/data/scaling-solutions';
+
+describe('Simulation Store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useSimulationStore.getState().reset();
+    useSimulationStore.getState().setConfig({
+      resources,
+      transactionMix: defaultTransactionTypes.map((txType) => ({ txType, weight: 1 })),
+      scalingSolutions: [],
+      duration: 2,
+      timestep: 0.1,
+      speedMultiplier: 1,
+    });
+  });
+
+  afterEach(() => {
+    useSimulationStore.getState().reset();
+    vi.useRealTimers();
+  });
+
+  describe('start', () => {
+    it('should apply scaling solutions to effective capacity', () => {
+      useSimulationStore.getState().setConfig({
+        scalingSolutions: [blockAccessLists, parallelExecution],
+      });
+      useSimulationStore.getState().start();
+
+      // Parallel execution is scheduled from the mix: the swap pool serializes
+      const { resourceStates } = useSimulationStore.getState().state;
+      expect(resourceStates['evm-compute'].effectiveMaxThroughput).toBeGreaterThan(2.5 * 2);
+      expect(resourceStates['evm-compute'].effectiveMaxThroughput).toBeLessThan(2.5 * 10);
+      expect(resourceStates['state-access'].effectiveMaxThroughput).toBeGreaterThan(
+        resources.find((r) => r.id === 'state-access')!.maxThroughput
+      );
+      expect(useSimulationStore.getState().isRunning).toBe(true);
+    });
+  });
+
+  describe('solutions', () => {
+    it('should report enabled solutions that have no effect', () => {
+      const store = useSimulationStore.getState();
+      store.setAvailableData({ solutions: [blockAccessLists, parallelExecution] });
+
+      store.toggleSolution('parallel-execution');
+      expect(useSimulationStore.getState().solutionIssues).toEqual([
+        {
+          solutionId: 'parallel-execution',
+          reason: 'missing-prerequisite',
+          relatedIds: ['block-access-lists'],
+        },
+      ]);
+
+      store.toggleSolution('block-access-lists');
+      expect(useSimulationStore.getState().solutionIssues).toEqual([]);
+    });
+  });
+
+  describe('step', () => {
+    it('should advance the engine by one timestep', () => {
+      const store = useSimulationStore.getState();
+      store.start();
+      store.step();
+
+      const { state } = useSimulationStore.getState();
+      expect(state.timestamp).toBeCloseTo(0.1, 9);
+      expect(state.metrics.feeHistory).toHaveLength(1);
+      expect(state.metrics.totalTxExecuted).toBeGreaterThan(0);
+    });
+
+    it('should keep running metrics up to date', () => {
+      const store = useSimulationStore.getState();
+      store.start();
+      for (let i = 0; i < 5; i++) store.step();
+
+      const { metrics } = useSimulationStore.getState().state;
+      expect(metrics.feeHistory).toHaveLength(5);
+      expect(metrics.averageUtilization['evm-compute']).toBeGreaterThan(0);
+      expect(metrics.peakBackpressure['evm-compute']).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should populate the mempool views', () => {
+      const store = useSimulationStore.getState();
+      store.start();
+      for (let i = 0; i < 5; i++) store.step();
+
+      const { state } = useSimulationStore.getState();
+      expect(state.recentTransactions.length).toBeGreaterThan(0);
+      expect(state.recentTransactions[0].resolvedAt).toBeCloseTo(0.5, 9);
+      expect(Object.keys(state.metrics.inclusionDelays).length).toBeGreaterThan(0);
+    });
+
+    it('should replay the same mempool after a restart', () => {
+      const run = () => {
+        const store = useSimulationStore.getState();
+        store.start();
+        for (let i = 0; i < 5; i++) store.step();
+        return useSimulationStore.getState().mempool;
+      };
+
+      const first = run();
+      useSimulationStore.getState().reset();
+      expect(run()).toEqual(first);
+    });
+
+    it('should stop once the duration is reached', () => {
+      const store = useSimulationStore.getState();
+      store.start();
+      for (let i = 0; i < 30; i++) store.step();
+
+      expect(useSimulationStore.getState().isRunning).toBe(false);
+      expect(useSimulationStore.getState().state.metrics.feeHistory).toHaveLength(20);
+    });
+  });
+
+  describe('run loop', () => {
+    it('should advance speedMultiplier times faster than real time', () => {
+      useSimulationStore.getState().setConfig({ speedMultiplier: 3 });
+      useSimulationStore.getState().start();
+
+      vi.advanceTimersByTime(100);
+
+      expect(useSimulationStore.getState().state.timestamp).toBeCloseTo(0.3, 9);
+    });
+
+    it('should not advance while paused and continue after resume', () => {
+      const store = useSimulationStore.getState();
+      store.start();
+      vi.advanceTimersByTime(100);
+      store.pause();
+      vi.advanceTimersByTime(500);
+
+      expect(useSimulationStore.getState().state.timestamp).toBeCloseTo(0.1, 9);
+      expect(useSimulationStore.getState().tickTimer).toBeNull();
+
+      store.resume();
+      vi.advanceTimersByTime(100);
+
+      expect(useSimulationStore.getState().state.timestamp).toBeCloseTo(0.2, 9);
+      expect(useSimulationStore.getState().tickTimer).not.toBeNull();
+    });
+  });
+});
@@ -1,34 +1,36 @@
-import { create } from 'zustand';
+import { create, type StoreApi } from 'zustand';
 import type { Resource, ResourceState } from '@/data/resources/types';
 import type { TransactionType, Transaction } from '@/data/transactions/types';
 import type { ScalingSolution } from '@/data/scaling-solutions/types';
-
-export interface SimulationConfig {
-  /** Resources to include in simulation */
-  resources: Resource[];
-
-  /** Transaction types to simulate */
-  transactionTypes: TransactionType[];
-
-  /** Active scaling solutions */
-  scalingSolutions: ScalingSolution[];
-
-  /** Fee market model to use */
-  feeMarketModel: 'eip1559' | 'multidim-1559' | 'ai-oracle' | 'fixed';
-
-  /** Simulation duration in seconds */
-  duration: number;
-
-  /** Timestep resolution in seconds */
-  timestep: number;
-
-  /** EIP-1559 parameters */
-  eip1559Params: {
-    targetUtilization: number;
-    maxChangeRate: number;
-    minBaseFee: number;
-  };
-
+import {
+  createEngineState,
+  getScenarioMultiplier,
+  getScenarioTypeMultipliers,
+  stepEngine,
+  withTransactionEffects,
+  type EngineConfig,
+  type EngineState,
+  type SimulationSnapshot,
+} from '@/lib/simulation/engine';
+import {
+  calculateInclusionDelays,
+  createMempoolState,
+  stepMempool,
+  DEFAULT_MEMPOOL_CONFIG,
+  type InclusionDelayStats,
+  type MempoolState,
+} from '@/lib/simulation/mempool';
+import { resolveSolutions, type CompositionIssue } from '@/lib/simulation/composition';
+import {
+  createRandom,
+  deriveSeed,
+  DEFAULT_SEED,
+} from '@/lib/simulation/random';
+
+/**
+ * Store configuration: the engine config plus playback settings
+ */
+export interface SimulationConfig extends EngineConfig {
   /** Speed multiplier for visualization */
   speedMultiplier: number;
 }
@@ -56,6 +58,8 @@ export interface SimulationState {
     averageUtilization: Record<string, number>;
     peakBackpressure: Record<string, number>;
     feeHistory: number[];
+    /** Inclusion delay percentiles per transaction type (seconds) */
+    inclusionDelays: Record<string, InclusionDelayStats>;
   };
 }
 
@@ -68,17 +72,33 @@ export interface SimulationStore {
   state: SimulationState;
   setState: (state: Partial<SimulationState>) => void;
 
+  /** Engine state behind the current run (null before start) */
+  engine: EngineState | null;
+
+  /** Individual-transaction mempool sampled alongside the engine */
+  mempool: MempoolState;
+
+  /** PRNG state the next mempool step resumes from */
+  mempoolRngState: number;
+
   // Control
   isRunning: boolean;
   isPaused: boolean;
+  /** Interval driving tick while running (null when not ticking) */
+  tickTimer: ReturnType<typeof setInterval> | null;
   start: () => void;
   pause: () => void;
   resume: () => void;
   stop: () => void;
   reset: () => void;
+  /** Advance the engine by one timestep */
   step: () => void;
+  /** Advance by one real-time tick, scaled by speedMultiplier */
+  tick: () => void;
 
   // Scaling solution management
+  /** Enabled solutions that have no effect (missing prerequisite or excluded) */
+  solutionIssues: CompositionIssue[];
   enableSolution: (solutionId: string) => void;
   disableSolution: (solutionId: string) => void;
   toggleSolution: (solutionId: string) => void;
@@ -96,7 +116,7 @@ export interface SimulationStore {
 
 const defaultConfig: SimulationConfig = {
   resources: [],
-  transactionTypes: [],
+  transactionMix: [],
   scalingSolutions: [],
   feeMarketModel: 'eip1559',
   duration: 60,
@@ -121,15 +141,122 @@ const defaultState: SimulationState = {
     averageUtilization: {},
     peakBackpressure: {},
     feeHistory: [],
+    inclusionDelays: {},
   },
 };
 
+/** Real-time interval between ticks while running */
+const TICK_INTERVAL_MS = 100;
+
+type StoreGet = StoreApi<SimulationStore>['getState'];
+type StoreSet = StoreApi<SimulationStore>['setState'];
+
+function stopTicking(get: StoreGet, set: StoreSet) {
+  const { tickTimer } = get();
+  if (tickTimer !== null) {
+    clearInterval(tickTimer);
+    set({ tickTimer: null });
+  }
+}
+
+function startTicking(get: StoreGet, set: StoreSet) {
+  stopTicking(get, set);
+  set({ tickTimer: setInterval(() => get().tick(), TICK_INTERVAL_MS) });
+}
+
+/** Mempool sampling draws from its own stream so it does not shift engine noise */
+const MEMPOOL_STREAM = 1;
+
+function getMempoolSeed(config: SimulationConfig): number {
+  return deriveSeed(config.seed ?? DEFAULT_SEED, MEMPOOL_STREAM);
+}
+
+/**
+ * Fold a new engine snapshot into the store state and running metrics
+ */
+function applySnapshot(
+  state: SimulationState,
+  snapshot: SimulationSnapshot
+): SimulationState {
+  const { metrics } = state;
+  const feeHistory = [...metrics.feeHistory, snapshot.baseFee];
+  const stepCount = feeHistory.length;
+
+  const averageUtilization: Record<string, number> = {};
+  const peakBackpressure: Record<string, number> = {};
+  for (const [resourceId, resourceState] of Object.entries(snapshot.resourceStates)) {
+    const prevAverage = metrics.averageUtilization[resourceId] ?? 0;
+    averageUtilization[resourceId] =
+      prevAverage + (resourceState.utilization - prevAverage) / stepCount;
+    peakBackpressure[resourceId] = Math.max(
+      metrics.peakBackpressure[resourceId] ?? 0,
+      resourceState.backpressure
+    );
+  }
+
+  return {
+    ...state,
+    timestamp: snapshot.timestamp,
+    resourceStates: snapshot.resourceStates,
+    baseFee: snapshot.baseFee,
+    metrics: {
+      ...metrics,
+      totalTxExecuted: metrics.totalTxExecuted + snapshot.transactionsExecuted,
+      totalGasUsed: metrics.totalGasUsed + snapshot.gasUsed,
+      averageUtilization,
+      peakBackpressure,
+      feeHistory,
+    },
+  };
+}
+
+/**
+ * Advance the mempool over the step that produced a snapshot.
+ * Transactions see the base fee that was in force during the step.
+ */
+function advanceMempool(
+  mempool: MempoolState,
+  rngState: number,
+  config: SimulationConfig,
+  previous: SimulationSnapshot,
+  snapshot: SimulationSnapshot
+): { mempool: MempoolState; rngState: number } {
+  const capacity: Record<string, number> = {};
+  for (const [resourceId, resourceState] of Object.entries(snapshot.resourceStates)) {
+    capacity[resourceId] = resourceState.effectiveMaxThroughput;
+  }
+
+  const { transactionMix } = withTransactionEffects(config);
+  const random = createRandom(rngState);
+  const next = stepMempool(
+    mempool,
+    {
+      transactionMix,
+      resources: config.resources,
+      capacity,
+      baseFee: previous.baseFee,
+      timestamp: snapshot.timestamp,
+      dt: snapshot.timestamp - previous.timestamp,
+      demandMultiplier: getScenarioMultiplier(config.scenario, previous.timestamp),
+      typeMultipliers: getScenarioTypeMultipliers(
+        config.scenario,
+        transactionMix.map((m) => m.txType),
+        previous.timestamp
+      ),
+    },
+    DEFAULT_MEMPOOL_CONFIG,
+    random
+  );
+  return { mempool: next, rngState: random.getState() };
+}
+
 export const useSimulationStore = create<SimulationStore>((set, get) => ({
   config: defaultConfig,
   setConfig: (newConfig) =>
-    set((state) => ({
-      config: { ...state.config, ...newConfig },
-    })),
+    set((state) => {
+      const config = { ...state.config, ...newConfig };
+      return { config, solutionIssues: resolveSolutions(config.scalingSolutions).issues };
+    }),
 
   state: defaultState,
   setState: (newState) =>
@@ -137,77 +264,134 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
       state: { ...state.state, ...newState },
     })),
 
+  engine: null,
+  mempool: createMempoolState(),
+  mempoolRngState: getMempoolSeed(defaultConfig),
+
   isRunning: false,
   isPaused: false,
+  tickTimer: null,
 
   start: () => {
     const { config } = get();
-    // Initialize resource states
-    const resourceStates: Record<string, ResourceState> = {};
-    for (const resource of config.resources) {
-      resourceStates[resource.id] = {
-        resourceId: resource.id,
-        currentThroughput: 0,
-        utilization: 0,
-        backpressure: 0,
-        effectiveMaxThroughput: resource.maxThroughput,
-      };
-    }
+    stopTicking(get, set);
+
+    // Initial resource states already include scaling solutions
+    const engine = createEngineState(config);
+    const initial = engine.history[0];
 
     set({
+      engine,
+      mempool: createMempoolState(),
+      mempoolRngState: getMempoolSeed(config),
       isRunning: true,
       isPaused: false,
       state: {
         ...defaultState,
-        resourceStates,
+        resourceStates: initial.resourceStates,
+        baseFee: initial.baseFee,
       },
     });
+
+    startTicking(get, set);
+  },
+
+  pause: () => {
+    stopTicking(get, set);
+    set({ isPaused: true });
   },
 
-  pause: () => set({ isPaused: true }),
-  resume: () => set({ isPaused: false }),
-  stop: () => set({ isRunning: false, isPaused: false }),
+  resume: () => {
+    const { isRunning, isPaused } = get();
+    if (!isRunning || !isPaused) return;
 
-  reset: () =>
+    set({ isPaused: false });
+    startTicking(get, set);
+  },
+
+  stop: () => {
+    stopTicking(get, set);
+    set({ isRunning: false, isPaused: false });
+  },
+
+  reset: () => {
+    stopTicking(get, set);
     set({
+      engine: null,
+      mempool: createMempoolState(),
+      mempoolRngState: getMempoolSeed(get().config),
       state: defaultState,
       isRunning: false,
       isPaused: false,
-    }),
+    });
+  },
 
   step: () => {
-    const { state, config } = get();
-    // Single simulation step - implemented in simulation engine
+    const { config, state } = get();
+    const engine = get().engine ?? createEngineState(config);
+    if (engine.isComplete) {
+      get().stop();
+      return;
+    }
+
+    const next = stepEngine(engine, config);
+    const snapshot = next.history[next.history.length - 1];
+    const { mempool, rngState } = advanceMempool(
+      get().mempool,
+      get().mempoolRngState,
+      config,
+      engine.history[engine.history.length - 1],
+      snapshot
+    );
+
+    const applied = applySnapshot(state, snapshot);
     set({
+      engine: next,
+      mempool,
+      mempoolRngState: rngState,
       state: {
-        ...state,
-        timestamp: state.timestamp + config.timestep,
+        ...applied,
+        pendingTransactions: mempool.pending,
+        recentTransactions: mempool.recent,
+        metrics: {
+          ...applied.metrics,
+          inclusionDelays: calculateInclusionDelays(mempool),
+        },
       },
     });
+
+    if (next.isComplete) {
+      get().stop();
+    }
+  },
+
+  tick: () => {
+    const { config, isRunning, isPaused } = get();
+    if (!isRunning || isPaused) return;
+
+    // Simulated seconds per tick = real seconds × speedMultiplier
+    const simulatedSeconds = (TICK_INTERVAL_MS / 1000) * config.speedMultiplier;
+    const steps = Math.max(1, Math.round(simulatedSeconds / config.timestep));
+
+    for (let i = 0; i < steps && get().isRunning; i++) {
+      get().step();
+    }
   },
 
+  solutionIssues: [],
+
   enableSolution: (solutionId) => {
     const { config, availableSolutions } = get();
     const solution = availableSolutions.find((s) => s.id === solutionId);
     if (solution && !config.scalingSolutions.find((s) => s.id === solutionId)) {
-      set({
-        config: {
-          ...config,
-          scalingSolutions: [...config.scalingSolutions, solution],
-        },
-      });
+      get().setConfig({ scalingSolutions: [...config.scalingSolutions, solution] });
     }
   },
 
   disableSolution: (solutionId) => {
     const { config } = get();
-    set({
-      config: {
-        ...config,
-        scalingSolutions: config.scalingSolutions.filter(
-          (s) => s.id !== solutionId
-        ),
-      },
+    get().setConfig({
+      scalingSolutions: config.scalingSolutions.filter((s) => s.id !== solutionId),
     });
   },
 